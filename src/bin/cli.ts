@@ -7,24 +7,73 @@
  * @module
  */
 
-import {Command, program} from 'commander';
+import {Command, InvalidArgumentError, program} from 'commander';
 import debug from 'debug';
+import fs from 'fs-extra';
+import pEvent from 'p-event';
 import path from 'path';
-import {DlpGetSysDateTimeReqType} from '../protocols/dlp-commands';
-import {SyncConnectionOptions} from '../protocols/sync-connections';
+import readline from 'readline';
+import {
+  DlpExpCardInfoReqType,
+  DlpExpCardPresentReqType,
+  DlpExpSlotEnumerateReqType,
+  DlpExpSlotMediaTypeReqType,
+  DlpFuncId,
+  DlpGetSysDateTimeReqType,
+  DlpVFSFileDateType,
+} from '../protocols/dlp-commands';
+import {
+  DlpAlreadyExistsError,
+  DlpRespErrorCode,
+} from '../protocols/dlp-protocol';
+import {DlpTranscriptRecorder} from '../protocols/dlp-transcript';
+import {
+  DlpConnection,
+  SerialSyncConnection,
+  SyncConnection,
+  SyncConnectionOptions,
+} from '../protocols/sync-connections';
+import {getLocalNetSyncInfo} from '../sync-servers/network-sync-server';
 import {SyncFn} from '../sync-servers/sync-server';
-import {createSyncServerAndRunSync} from '../sync-servers/sync-server-utils';
+import {createSyncServer, runSync} from '../sync-servers/sync-server-utils';
+import {callApplication} from '../sync-utils/call-application';
+import {
+  CategorySpec,
+  deleteCategory,
+  moveCategory,
+  readCategories,
+  renameCategory,
+} from '../sync-utils/categories';
 import {
   readAllDbsToFile,
   readDbList,
   readDbToFile,
 } from '../sync-utils/read-db';
+import {
+  isValidDbVersion,
+  MAX_DB_VERSION,
+  setDbInfo,
+} from '../sync-utils/db-info';
+import {runLinkDiagnostics} from '../sync-utils/link-diagnostics';
+import {
+  NetSyncInfo,
+  readNetSyncInfo,
+  writeNetSyncInfo,
+} from '../sync-utils/netsync-info';
+import {readDbStorageUsage, readStorageInfo} from '../sync-utils/storage-info';
 import {syncDevice} from '../sync-utils/sync-device';
-import {writeDbFromFile} from '../sync-utils/write-db';
+import {VfsClient, joinVfsPath} from '../sync-utils/vfs-client';
+import {
+  CARD_LAUNCHER_DIR,
+  writeDbFromFile,
+  writeDbToCard,
+} from '../sync-utils/write-db';
 import {DownloadNewResourcesConduit} from '../conduits/download-rsc-conduit';
 import {InstallNewResourcesConduit} from '../conduits/install-rsc-conduit';
+import {PreferencesConduit} from '../conduits/preferences-conduit';
 import {SyncDatabasesConduit} from '../conduits/sync-databases-conduit';
 import {UpdateClockConduit} from '../conduits/update-clock-conduit';
+import {UpdateNetSyncInfoConduit} from '../conduits/update-netsync-info-conduit';
 import {UpdateSyncInfoConduit} from '../conduits/update-sync-info-conduit';
 import {
   NodeDatabaseStorage,
@@ -42,10 +91,17 @@ interface CommonOptions {
   net?: boolean;
   serial?: string;
   maxBaudRate?: string;
+  transcript?: string;
 }
 
-async function runSyncForCommand(command: Command, syncFn: SyncFn) {
-  const {encoding, usb, net, serial, maxBaudRate} =
+async function runSyncForCommand(
+  command: Command,
+  syncFn: (
+    dlpConnection: DlpConnection,
+    connection: SyncConnection
+  ) => Promise<void>
+) {
+  const {encoding, usb, net, serial, maxBaudRate, transcript} =
     command.optsWithGlobals() as CommonOptions;
 
   let connectionString: string = '';
@@ -77,24 +133,191 @@ async function runSyncForCommand(command: Command, syncFn: SyncFn) {
     connectionString = 'usb';
   }
 
-  const syncConnectionOptions: SyncConnectionOptions = encoding
-    ? {
-        requestSerializeOptions: {encoding},
-        responseDeserializeOptions: {encoding},
-      }
-    : {};
+  const syncConnectionOptions: SyncConnectionOptions = {
+    // The extra round trips are negligible for interactive commands, and allow
+    // commands to check e.g. whether the VFS Manager is present.
+    probeDeviceCapabilities: true,
+    ...(encoding
+      ? {
+          requestSerializeOptions: {encoding},
+          responseDeserializeOptions: {encoding},
+        }
+      : {}),
+  };
 
-  await createSyncServerAndRunSync(
+  // The connect event is emitted before the sync function runs, so the sync
+  // function can access the connection (e.g. for transport details).
+  let connection: SyncConnection | null = null;
+  const syncServer = createSyncServer(
     connectionString,
-    syncFn,
+    (dlpConnection) => syncFn(dlpConnection, connection!),
     syncConnectionOptions
   );
+  const transcriptRecorder = new DlpTranscriptRecorder();
+  syncServer.on('connect', (c) => {
+    connection = c;
+    if (transcript) {
+      transcriptRecorder.record(c.dlpConnection);
+    }
+  });
+  try {
+    await runSync(syncServer);
+  } finally {
+    // Write the transcript even if the sync failed, as that's when it's most
+    // useful.
+    if (transcript) {
+      await transcriptRecorder.writeFile(transcript);
+      log(`Wrote DLP transcript to ${transcript}`);
+    }
+  }
   // We'll explicitly exit the process after the sync is done due to a known bug
   // causing hanging promises:
   // https://github.com/serialport/node-serialport/issues/2776
   process.exit(0);
 }
 
+const VOLUME_OPTION_DESCRIPTION =
+  'Volume reference number of the card (default: first volume)';
+
+/** Parse a volume reference number option value. */
+function parseVolRefNum(value: string) {
+  const result = Number(value);
+  if (!/^\d+$/.test(value) || result > 0xffff) {
+    throw new InvalidArgumentError('Expected an integer from 0 to 65535.');
+  }
+  return result;
+}
+
+/** Resolve the VFS volume to use for card commands. */
+async function getVolRefNum(vfsClient: VfsClient, volume?: number) {
+  if (volume !== undefined) {
+    return volume;
+  }
+  return await vfsClient.getDefaultVolRefNum();
+}
+
+/** Format a size in bytes for display. */
+function formatSize(numBytes: number) {
+  return numBytes >= 1024
+    ? `${(numBytes / 1024).toFixed(1)} KB`
+    : `${numBytes} B`;
+}
+
+/** Parse a category argument, which can be either an index or a label.
+ *
+ * Numbers are treated as indexes, but fall back to matching labels if there is
+ * no category at that index. Digits with leading zeros are always treated as
+ * labels.
+ */
+function parseCategory(value: string): CategorySpec {
+  return /^(0|[1-9]\d*)$/.test(value) ? Number(value) : value;
+}
+
+/** Parse an "on" / "off" option value. */
+function parseOnOff(value: string) {
+  switch (value.toLowerCase()) {
+    case 'on':
+      return true;
+    case 'off':
+      return false;
+    default:
+      throw new InvalidArgumentError('Expected "on" or "off".');
+  }
+}
+
+/** Parse a date option value. */
+function parseDate(value: string) {
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    throw new InvalidArgumentError('Invalid date.');
+  }
+  return date;
+}
+
+/** Parse an integer option value. */
+function parseInteger(value: string) {
+  const result = Number(value);
+  if (!Number.isInteger(result)) {
+    throw new InvalidArgumentError('Expected an integer.');
+  }
+  return result;
+}
+
+/** Parse a database version option value. */
+function parseDbVersion(value: string) {
+  const result = Number(value);
+  if (!isValidDbVersion(result)) {
+    throw new InvalidArgumentError(
+      `Expected an integer from 0 to ${MAX_DB_VERSION}.`
+    );
+  }
+  return result;
+}
+
+/** Parse a launch code argument, which is a 16-bit unsigned integer. */
+function parseLaunchCode(value: string) {
+  const result = Number(value);
+  if (!Number.isInteger(result) || result < 0 || result > 0xffff) {
+    throw new InvalidArgumentError('Expected an integer from 0 to 65535.');
+  }
+  return result;
+}
+
+/** Parse a hex string option value, ignoring whitespace. */
+function parseHex(value: string) {
+  const hex = value.replace(/\s+/g, '');
+  if (!/^([0-9a-f]{2})*$/i.test(hex)) {
+    throw new InvalidArgumentError(
+      'Expected an even number of hexadecimal digits.'
+    );
+  }
+  return Buffer.from(hex, 'hex');
+}
+
+/** Resolve the network HotSync configuration to set on the device.
+ *
+ * Values that are not specified are filled in based on this computer's host
+ * name and network address. The subnet mask is left unchanged if both the host
+ * name and address are specified.
+ */
+function resolveNetSyncInfo(
+  syncPcName?: string,
+  syncPcAddr?: string
+): Partial<NetSyncInfo> {
+  const netSyncInfo: Partial<NetSyncInfo> = {
+    lanSyncOn: true,
+    ...(syncPcName ? {syncPcName} : {}),
+    ...(syncPcAddr ? {syncPcAddr} : {}),
+  };
+  if (syncPcName && syncPcAddr) {
+    return netSyncInfo;
+  }
+  let localNetSyncInfo: NetSyncInfo;
+  try {
+    localNetSyncInfo = getLocalNetSyncInfo();
+  } catch (e) {
+    log(
+      `${e instanceof Error ? e.message : e}. ` +
+        'Please specify --netsync-host and --netsync-addr.'
+    );
+    process.exit(1);
+  }
+  return {...localNetSyncInfo, ...netSyncInfo};
+}
+
+/** Ask the user a yes / no question on the terminal. */
+async function confirm(question: string) {
+  const rl = readline.createInterface({
+    input: process.stdin,
+    output: process.stdout,
+  });
+  const answer = await new Promise<string>((resolve) =>
+    rl.question(`${question} [y/N] `, resolve)
+  );
+  rl.close();
+  return answer.trim().toLowerCase().startsWith('y');
+}
+
 if (require.main === module) {
   (async () => {
     if (!process.env.DEBUG) {
@@ -127,6 +350,10 @@ if (require.main === module) {
       .option(
         '-b, --maxBaudRate <number>',
         'Maximum baud rate for serial connection'
+      )
+      .option(
+        '--transcript <file>',
+        'Write a decoded transcript of DLP requests and responses to a JSONL file'
       );
 
     program
@@ -150,12 +377,570 @@ if (require.main === module) {
             ],
             ['System time', deviceDateTime.toLocaleString()],
           ];
+          for (const {
+            cardInfo,
+            romDbCount,
+            ramDbCount,
+          } of await readStorageInfo(dlpConnection)) {
+            const {cardNo, cardName, manufName, romSize, ramSize, freeRam} =
+              cardInfo;
+            lines.push(
+              [`Card ${cardNo}`, `${cardName} (${manufName})`],
+              ['ROM size', formatSize(romSize)],
+              ['RAM size', formatSize(ramSize)],
+              ['Free RAM', formatSize(freeRam)],
+              ['ROM DBs', romDbCount.toString()],
+              ['RAM DBs', ramDbCount.toString()]
+            );
+          }
+          log(
+            lines.map(([label, value]) => `\t${label}:\t${value}`).join('\n')
+          );
+        });
+      });
+
+    program
+      .command('storage')
+      .description('Show memory used by each database in RAM')
+      .action(async (opts: {}, command: Command) => {
+        await runSyncForCommand(command, async (dlpConnection) => {
+          const usage = await readDbStorageUsage(dlpConnection);
+          const totalBytes = usage.reduce((sum, db) => sum + db.totalBytes, 0);
+          log(
+            [
+              ...usage.map(
+                ({name, totalBytes, numRecords}) =>
+                  `=> ${formatSize(totalBytes).padStart(10)}  ${name} ` +
+                  `(${numRecords} records)`
+              ),
+              `   ${formatSize(totalBytes).padStart(10)}  Total`,
+            ].join('\n')
+          );
+        });
+      });
+
+    const categoryCommand = program
+      .command('category')
+      .description('Manage record categories of a database');
+
+    categoryCommand
+      .command('ls')
+      .description('List categories in a database')
+      .argument('<db>', 'Name of the database, e.g. "MemoDB"')
+      .action(async (db: string, opts: {}, command: Command) => {
+        await runSyncForCommand(command, async (dlpConnection) => {
+          const categories = await readCategories(dlpConnection, db);
+          log(
+            categories
+              .map(
+                ({index, label}) =>
+                  `=> ${index.toString().padStart(2)}  ${label}`
+              )
+              .join('\n')
+          );
+        });
+      });
+
+    categoryCommand
+      .command('rename')
+      .description('Rename a category')
+      .argument('<db>', 'Name of the database, e.g. "MemoDB"')
+      .argument('<category>', 'Index or name of the category', parseCategory)
+      .argument('<label>', 'New name of the category')
+      .action(
+        async (
+          db: string,
+          category: CategorySpec,
+          label: string,
+          opts: {},
+          command: Command
+        ) => {
+          await runSyncForCommand(command, async (dlpConnection) => {
+            await renameCategory(dlpConnection, db, category, label);
+            log(`=> Renamed category ${category} to "${label}"`);
+          });
+        }
+      );
+
+    categoryCommand
+      .command('merge')
+      .description(
+        'Move all records in a category to another category, and remove it'
+      )
+      .argument('<db>', 'Name of the database, e.g. "MemoDB"')
+      .argument(
+        '<from>',
+        'Index or name of the category to remove',
+        parseCategory
+      )
+      .argument(
+        '<to>',
+        'Index or name of the category to merge into',
+        parseCategory
+      )
+      .action(
+        async (
+          db: string,
+          from: CategorySpec,
+          to: CategorySpec,
+          opts: {},
+          command: Command
+        ) => {
+          await runSyncForCommand(command, async (dlpConnection) => {
+            await moveCategory(dlpConnection, db, from, to);
+            log(`=> Merged category ${from} into ${to}`);
+          });
+        }
+      );
+
+    categoryCommand
+      .command('rm')
+      .description('Delete a category and all records in it')
+      .argument('<db>', 'Name of the database, e.g. "MemoDB"')
+      .argument('<category>', 'Index or name of the category', parseCategory)
+      .option('-y, --yes', 'Do not ask for confirmation')
+      .action(
+        async (
+          db: string,
+          category: CategorySpec,
+          {yes}: {yes?: boolean},
+          command: Command
+        ) => {
+          if (
+            !yes &&
+            !(await confirm(
+              `All records in category ${category} will be deleted. Continue?`
+            ))
+          ) {
+            log('Aborted');
+            return;
+          }
+          await runSyncForCommand(command, async (dlpConnection) => {
+            await deleteCategory(dlpConnection, db, category);
+            log(`=> Deleted category ${category}`);
+          });
+        }
+      );
+
+    const netSyncCommand = program
+      .command('netsync')
+      .description('Show or update network HotSync configuration');
+
+    netSyncCommand
+      .command('show')
+      .description('Show network HotSync configuration')
+      .action(async (opts: {}, command: Command) => {
+        await runSyncForCommand(command, async (dlpConnection) => {
+          const {lanSyncOn, syncPcName, syncPcAddr, syncPcMask} =
+            await readNetSyncInfo(dlpConnection);
+          const lines: Array<[string, string]> = [
+            ['LAN sync', lanSyncOn ? 'on' : 'off'],
+            ['Host name', syncPcName],
+            ['IP address', syncPcAddr],
+            ['Subnet mask', syncPcMask],
+          ];
           log(
             lines.map(([label, value]) => `\t${label}:\t${value}`).join('\n')
           );
         });
       });
 
+    netSyncCommand
+      .command('set')
+      .description('Update network HotSync configuration')
+      .option('--host <name>', 'Host name of the sync PC')
+      .option('--addr <ip>', 'IP address of the sync PC')
+      .option('--mask <mask>', 'Subnet mask of the sync PC')
+      .option('--lan-sync <on|off>', 'Enable or disable LAN sync', parseOnOff)
+      .action(
+        async (
+          {
+            host,
+            addr,
+            mask,
+            lanSync,
+          }: {host?: string; addr?: string; mask?: string; lanSync?: boolean},
+          command: Command
+        ) => {
+          if (
+            [host, addr, mask, lanSync].every((value) => value === undefined)
+          ) {
+            log('Nothing to update');
+            return;
+          }
+          await runSyncForCommand(command, async (dlpConnection) => {
+            await writeNetSyncInfo(dlpConnection, {
+              lanSyncOn: lanSync,
+              syncPcName: host,
+              syncPcAddr: addr,
+              syncPcMask: mask,
+            });
+            log('=> Updated network HotSync configuration');
+          });
+        }
+      );
+
+    program
+      .command('cards')
+      .description('List expansion slots and cards on a Palm OS device')
+      .action(async (opts: {}, command: Command) => {
+        await runSyncForCommand(command, async (dlpConnection) => {
+          const {capabilities} = dlpConnection;
+          if (
+            capabilities &&
+            !capabilities.supportsCommand(DlpFuncId.ExpSlotEnumerate)
+          ) {
+            log('Expansion slots require Palm OS 4.0 or later');
+            return;
+          }
+          // ExpSlotMediaType requires DLP 1.4 (Palm OS 5.2 and above).
+          const supportsMediaType =
+            !capabilities ||
+            capabilities.supportsCommand(DlpFuncId.ExpSlotMediaType);
+          const {slotRefs} = await dlpConnection.execute(
+            DlpExpSlotEnumerateReqType.with()
+          );
+          if (slotRefs.length === 0) {
+            log('No expansion slots found');
+            return;
+          }
+          for (const slotRef of slotRefs) {
+            const lines: Array<[string, string]> = [];
+            if (supportsMediaType) {
+              const {errorCode: mediaTypeErrorCode, mediaType} =
+                await dlpConnection.execute(
+                  DlpExpSlotMediaTypeReqType.with({slotRef}),
+                  {
+                    ignoreErrorCode: [
+                      DlpRespErrorCode.NOT_FOUND,
+                      DlpRespErrorCode.NOT_SUPPORTED,
+                      DlpRespErrorCode.ILLEGAL_REQ,
+                    ],
+                  }
+                );
+              if (mediaTypeErrorCode === DlpRespErrorCode.NONE) {
+                lines.push(['Media type', mediaType]);
+              }
+            }
+            const {errorCode: cardPresentErrorCode} =
+              await dlpConnection.execute(
+                DlpExpCardPresentReqType.with({slotRef}),
+                {ignoreErrorCode: DlpRespErrorCode.NOT_FOUND}
+              );
+            if (cardPresentErrorCode === DlpRespErrorCode.NONE) {
+              const {manufacturer, product, deviceClass} =
+                await dlpConnection.execute(
+                  DlpExpCardInfoReqType.with({slotRef})
+                );
+              lines.push(
+                ['Manufacturer', manufacturer],
+                ['Product', product],
+                ['Device class', deviceClass]
+              );
+            } else {
+              lines.push(['Card', 'Not present']);
+            }
+            log(
+              `=> Slot ${slotRef}\n` +
+                lines
+                  .map(([label, value]) => `\t${label}:\t${value}`)
+                  .join('\n')
+            );
+          }
+        });
+      });
+
+    const cardCommand = program
+      .command('card')
+      .description('Access files on expansion cards');
+
+    cardCommand
+      .command('ls')
+      .description('List files in a directory on an expansion card')
+      .argument('[path]', 'Directory path on the card', '/')
+      .option('--volume <volRefNum>', VOLUME_OPTION_DESCRIPTION, parseVolRefNum)
+      .option('-R, --recursive', 'List subdirectories recursively')
+      .action(
+        async (
+          dirPath: string,
+          {volume, recursive}: {volume?: number; recursive?: boolean},
+          command: Command
+        ) => {
+          await runSyncForCommand(command, async (dlpConnection) => {
+            const vfsClient = new VfsClient(dlpConnection);
+            const volRefNum = await getVolRefNum(vfsClient, volume);
+            const entries = recursive
+              ? await vfsClient.walk(volRefNum, dirPath)
+              : await vfsClient.listDir(volRefNum, dirPath);
+            log(
+              entries
+                .map(
+                  ({path, attributes}) =>
+                    `=> ${path}${attributes.directory ? '/' : ''}`
+                )
+                .join('\n')
+            );
+          });
+        }
+      );
+
+    cardCommand
+      .command('pull')
+      .description('Transfer a file from an expansion card to computer')
+      .argument('<remotePath>', 'Path of the file on the card')
+      .argument('[localPath]', 'Local file or directory path', '.')
+      .option('--volume <volRefNum>', VOLUME_OPTION_DESCRIPTION, parseVolRefNum)
+      .action(
+        async (
+          remotePath: string,
+          localPath: string,
+          {volume}: {volume?: number},
+          command: Command
+        ) => {
+          if (
+            (await fs.pathExists(localPath)) &&
+            (await fs.stat(localPath)).isDirectory()
+          ) {
+            localPath = path.join(localPath, path.posix.basename(remotePath));
+          }
+          await runSyncForCommand(command, async (dlpConnection) => {
+            const vfsClient = new VfsClient(dlpConnection);
+            const volRefNum = await getVolRefNum(vfsClient, volume);
+            const stream = fs.createWriteStream(localPath);
+            const numBytes = await vfsClient.readFileToStream(
+              volRefNum,
+              remotePath,
+              stream
+            );
+            stream.end();
+            await pEvent(stream, 'close');
+            log(`=> ${localPath} (${numBytes} bytes)`);
+          });
+        }
+      );
+
+    cardCommand
+      .command('push')
+      .description('Transfer files from computer to an expansion card')
+      .argument('<localPaths...>', 'Paths of local files')
+      .option('-d, --dest <dirPath>', 'Destination directory on the card', '/')
+      .option('--volume <volRefNum>', VOLUME_OPTION_DESCRIPTION, parseVolRefNum)
+      .option('--no-overwrite', 'Skip files that already exist on the card')
+      .action(
+        async (
+          localPaths: Array<string>,
+          {
+            dest,
+            volume,
+            overwrite,
+          }: {dest: string; volume?: number; overwrite?: boolean},
+          command: Command
+        ) => {
+          await runSyncForCommand(command, async (dlpConnection) => {
+            const vfsClient = new VfsClient(dlpConnection);
+            const volRefNum = await getVolRefNum(vfsClient, volume);
+            if (dest !== '/') {
+              await vfsClient.createDir(volRefNum, dest, {recursive: true});
+            }
+            for (const localPath of localPaths) {
+              const remotePath = joinVfsPath(dest, path.basename(localPath));
+              const {mtime} = await fs.stat(localPath);
+              try {
+                await vfsClient.writeFile(
+                  volRefNum,
+                  remotePath,
+                  await fs.readFile(localPath),
+                  {overwrite}
+                );
+              } catch (e) {
+                if (e instanceof DlpAlreadyExistsError) {
+                  log(`=> Skipping ${remotePath}: already exists`);
+                  continue;
+                }
+                throw e;
+              }
+              await vfsClient.setDate(
+                volRefNum,
+                remotePath,
+                DlpVFSFileDateType.MODIFIED,
+                mtime
+              );
+              log(`=> ${remotePath}`);
+            }
+          });
+        }
+      );
+
+    cardCommand
+      .command('mkdir')
+      .description('Create a directory on an expansion card')
+      .argument('<path>', 'Path of the directory to create')
+      .option('--volume <volRefNum>', VOLUME_OPTION_DESCRIPTION, parseVolRefNum)
+      .option('-p, --parents', 'Create parent directories as needed')
+      .action(
+        async (
+          dirPath: string,
+          {volume, parents}: {volume?: number; parents?: boolean},
+          command: Command
+        ) => {
+          await runSyncForCommand(command, async (dlpConnection) => {
+            const vfsClient = new VfsClient(dlpConnection);
+            const volRefNum = await getVolRefNum(vfsClient, volume);
+            await vfsClient.createDir(volRefNum, dirPath, {
+              recursive: parents,
+            });
+          });
+        }
+      );
+
+    cardCommand
+      .command('rm')
+      .description('Delete files or empty directories on an expansion card')
+      .argument('<paths...>', 'Paths of the files or directories to delete')
+      .option('--volume <volRefNum>', VOLUME_OPTION_DESCRIPTION, parseVolRefNum)
+      .action(
+        async (
+          filePaths: Array<string>,
+          {volume}: {volume?: number},
+          command: Command
+        ) => {
+          await runSyncForCommand(command, async (dlpConnection) => {
+            const vfsClient = new VfsClient(dlpConnection);
+            const volRefNum = await getVolRefNum(vfsClient, volume);
+            for (const filePath of filePaths) {
+              await vfsClient.delete(volRefNum, filePath);
+            }
+          });
+        }
+      );
+
+    cardCommand
+      .command('mv')
+      .description('Move or rename a file on an expansion card')
+      .argument('<srcPath>', 'Current path of the file')
+      .argument('<destPath>', 'New path of the file')
+      .option('--volume <volRefNum>', VOLUME_OPTION_DESCRIPTION, parseVolRefNum)
+      .action(
+        async (
+          srcPath: string,
+          destPath: string,
+          {volume}: {volume?: number},
+          command: Command
+        ) => {
+          await runSyncForCommand(command, async (dlpConnection) => {
+            const vfsClient = new VfsClient(dlpConnection);
+            const volRefNum = await getVolRefNum(vfsClient, volume);
+            await vfsClient.move(volRefNum, srcPath, destPath);
+          });
+        }
+      );
+
+    cardCommand
+      .command('info')
+      .description('Show information about expansion card volumes')
+      .option('--volume <volRefNum>', VOLUME_OPTION_DESCRIPTION, parseVolRefNum)
+      .action(async ({volume}: {volume?: number}, command: Command) => {
+        await runSyncForCommand(command, async (dlpConnection) => {
+          const vfsClient = new VfsClient(dlpConnection);
+          const volumes = await vfsClient.getVolumes();
+          if (volumes.length === 0) {
+            log('No expansion card volumes found');
+            return;
+          }
+          if (
+            volume !== undefined &&
+            !volumes.some(({volRefNum}) => volRefNum === volume)
+          ) {
+            log(`Volume ${volume} not found`);
+            return;
+          }
+          for (const {volRefNum, info} of volumes) {
+            if (volume !== undefined && volRefNum !== volume) {
+              continue;
+            }
+            const label = await vfsClient.getLabel(volRefNum);
+            const {used, total} = await vfsClient.getVolumeSize(volRefNum);
+            const lines = [
+              `Volume ${volRefNum}:`,
+              `    Label: ${label}`,
+              `    Slot: ${info.slotRefNum}`,
+              `    Media type: ${info.mediaType}`,
+              `    File system: ${info.fsType}`,
+              `    Read only: ${info.attributes.readOnly}`,
+              `    Used: ${used} bytes`,
+              `    Free: ${total - used} bytes`,
+              `    Total: ${total} bytes`,
+            ];
+            for (const fileType of ['.prc', '.pdb']) {
+              const dirPath = await vfsClient.getDefaultDir(
+                volRefNum,
+                fileType
+              );
+              if (dirPath) {
+                lines.push(`    Default dir for ${fileType}: ${dirPath}`);
+              }
+            }
+            log(lines.join('\n'));
+          }
+        });
+      });
+
+    cardCommand
+      .command('label')
+      .description('Show or set the label of an expansion card volume')
+      .argument('[label]', 'New label for the volume')
+      .option('--volume <volRefNum>', VOLUME_OPTION_DESCRIPTION, parseVolRefNum)
+      .action(
+        async (
+          label: string | undefined,
+          {volume}: {volume?: number},
+          command: Command
+        ) => {
+          await runSyncForCommand(command, async (dlpConnection) => {
+            const vfsClient = new VfsClient(dlpConnection);
+            const volRefNum = await getVolRefNum(vfsClient, volume);
+            if (label !== undefined) {
+              await vfsClient.setLabel(volRefNum, label);
+            }
+            log(`=> ${await vfsClient.getLabel(volRefNum)}`);
+          });
+        }
+      );
+
+    cardCommand
+      .command('format')
+      .description('Format an expansion card volume, erasing all data on it')
+      .option('--volume <volRefNum>', VOLUME_OPTION_DESCRIPTION, parseVolRefNum)
+      .option('-y, --yes', 'Do not ask for confirmation')
+      .action(
+        async (
+          {volume, yes}: {volume?: number; yes?: boolean},
+          command: Command
+        ) => {
+          if (
+            !yes &&
+            !(await confirm(
+              `All data on ${
+                volume === undefined ? 'the card' : `volume ${volume}`
+              } will be erased. Continue?`
+            ))
+          ) {
+            log('Aborted');
+            return;
+          }
+          await runSyncForCommand(command, async (dlpConnection) => {
+            const vfsClient = new VfsClient(dlpConnection);
+            const volRefNum = await getVolRefNum(vfsClient, volume);
+            const volumes = await vfsClient.format(volRefNum);
+            log(
+              volumes
+                .map(({volRefNum}) => `=> Formatted volume ${volRefNum}`)
+                .join('\n')
+            );
+          });
+        }
+      );
+
     program
       .command('list')
       .alias('ls')
@@ -246,10 +1031,14 @@ if (require.main === module) {
       .description('Transfer PDB / PRC file to Palm OS device')
       .argument('<filePaths...>', 'Paths to PDB / PRC files')
       .option('--no-overwrite', 'Skip if database already exists on the device')
+      .option(
+        '--to-card',
+        `Install to ${CARD_LAUNCHER_DIR} on the expansion card instead of RAM`
+      )
       .action(
         async (
           filePaths: Array<string>,
-          {overwrite}: {overwrite?: boolean},
+          {overwrite, toCard}: {overwrite?: boolean; toCard?: boolean},
           command: Command
         ) => {
           await runSyncForCommand(command, async (dlpConnection) => {
@@ -257,6 +1046,18 @@ if (require.main === module) {
               const directory = path.dirname(filePath);
               const filename = path.basename(filePath);
 
+              if (toCard) {
+                const cardPath = await writeDbToCard(
+                  dlpConnection,
+                  await new NodeDatabaseStorage(
+                    directory,
+                    READ_WRITE_TO_BASE_DIR_DIRECTLY
+                  ).readDatabase(dlpConnection.userInfo.userName, filename),
+                  {overwrite}
+                );
+                log(`=> ${cardPath}`);
+                continue;
+              }
               await writeDbFromFile(
                 dlpConnection,
                 filename,
@@ -273,6 +1074,234 @@ if (require.main === module) {
         }
       );
 
+    const dbInfoCommand = program
+      .command('dbinfo')
+      .description('Manage database metadata on the device');
+
+    dbInfoCommand
+      .command('set')
+      .description(
+        'Change database attributes, version, type / creator, dates or name'
+      )
+      .argument('<name>', 'Name of the database')
+      .option('--backup <on|off>', 'Set the backup flag', parseOnOff)
+      .option(
+        '--copy-prevention <on|off>',
+        'Set the copy prevention flag',
+        parseOnOff
+      )
+      .option('--hidden <on|off>', 'Set the hidden flag', parseOnOff)
+      .option(
+        '--reset-after-install <on|off>',
+        'Set the reset after install flag',
+        parseOnOff
+      )
+      .option(
+        '--db-version <number>',
+        `Set the database version (0-${MAX_DB_VERSION})`,
+        parseDbVersion
+      )
+      .option('--type <type>', 'Set the database type')
+      .option('--creator <creator>', 'Set the database creator')
+      .option('--created <date>', 'Set the creation date', parseDate)
+      .option('--modified <date>', 'Set the modification date', parseDate)
+      .option('--backed-up <date>', 'Set the last backup date', parseDate)
+      .option('--rename <newName>', 'Rename the database')
+      .action(
+        async (
+          name: string,
+          {
+            backup,
+            copyPrevention,
+            hidden,
+            resetAfterInstall,
+            dbVersion,
+            type,
+            creator,
+            created,
+            modified,
+            backedUp,
+            rename,
+          }: {
+            backup?: boolean;
+            copyPrevention?: boolean;
+            hidden?: boolean;
+            resetAfterInstall?: boolean;
+            dbVersion?: number;
+            type?: string;
+            creator?: string;
+            created?: Date;
+            modified?: Date;
+            backedUp?: Date;
+            rename?: string;
+          },
+          command: Command
+        ) => {
+          await runSyncForCommand(command, async (dlpConnection) => {
+            await setDbInfo(dlpConnection, name, {
+              name: rename,
+              type,
+              creator,
+              version: dbVersion,
+              creationDate: created,
+              modificationDate: modified,
+              lastBackupDate: backedUp,
+              attributes: {backup, copyPrevention, hidden, resetAfterInstall},
+            });
+            log(`=> Updated ${rename ?? name}`);
+          });
+        }
+      );
+
+    program
+      .command('diag')
+      .description(
+        'Measure link latency and throughput using DLP loopback tests'
+      )
+      .option(
+        '--max-size <bytes>',
+        'Largest payload size to test',
+        parseInteger,
+        65536
+      )
+      .option(
+        '-n, --iterations <number>',
+        'Number of round trips per payload size',
+        parseInteger,
+        3
+      )
+      .action(
+        async (
+          {maxSize, iterations}: {maxSize: number; iterations: number},
+          command: Command
+        ) => {
+          await runSyncForCommand(
+            command,
+            async (dlpConnection, connection) => {
+              const transportLines: Array<[string, string]> = [
+                ['Transport', connection.constructor.name],
+              ];
+              if (connection instanceof SerialSyncConnection) {
+                transportLines.push([
+                  'Baud rate',
+                  connection.baudRate.toString(),
+                ]);
+              }
+              log(
+                transportLines
+                  .map(([label, value]) => `\t${label}:\t${value}`)
+                  .join('\n')
+              );
+
+              const sizes = [0];
+              for (let size = 64; size < maxSize; size *= 4) {
+                sizes.push(size);
+              }
+              sizes.push(maxSize);
+              const {maxSuccessfulSize} = await runLinkDiagnostics(
+                dlpConnection,
+                {
+                  sizes,
+                  iterations,
+                  onResult: ({
+                    size,
+                    numRoundTrips,
+                    avgRoundTripMs,
+                    minRoundTripMs,
+                    maxRoundTripMs,
+                    throughput,
+                    error,
+                  }) =>
+                    log(
+                      `=> ${formatSize(size).padStart(10)}  ` +
+                        (error
+                          ? `FAILED after ${numRoundTrips}/${iterations}: ${error.message}`
+                          : `${avgRoundTripMs.toFixed(1)} ms avg ` +
+                            `(${minRoundTripMs.toFixed(1)} - ` +
+                            `${maxRoundTripMs.toFixed(1)} ms), ` +
+                            `${formatSize(throughput)}/s`)
+                    ),
+                }
+              );
+
+              const summaryLines: Array<[string, string]> = [
+                [
+                  'Largest OK',
+                  maxSuccessfulSize >= 0
+                    ? formatSize(maxSuccessfulSize)
+                    : 'none',
+                ],
+              ];
+              if (connection instanceof SerialSyncConnection) {
+                summaryLines.push([
+                  'PADP retries',
+                  connection.padpRetryCount.toString(),
+                ]);
+              }
+              log(
+                summaryLines
+                  .map(([label, value]) => `\t${label}:\t${value}`)
+                  .join('\n')
+              );
+            }
+          );
+        }
+      );
+
+    program
+      .command('call')
+      .description(
+        'Call an application on the Palm OS device with a launch code'
+      )
+      .argument('<creator>', 'Creator ID of the application, e.g. "memo"')
+      .argument(
+        '<action>',
+        'Launch code to call the application with',
+        parseLaunchCode
+      )
+      .option('-t, --type <type>', 'Type of the application database', 'appl')
+      .option('--data <hex>', 'Parameter data as a hex string', parseHex)
+      .option('--data-file <path>', 'Read parameter data from a file')
+      .option('-o, --output <path>', 'Write result data to a file')
+      .action(
+        async (
+          creator: string,
+          action: number,
+          {
+            type,
+            data,
+            dataFile,
+            output,
+          }: {type: string; data?: Buffer; dataFile?: string; output?: string},
+          command: Command
+        ) => {
+          if (data !== undefined && dataFile !== undefined) {
+            log('Cannot specify both --data and --data-file');
+            process.exit(1);
+          }
+          const paramData =
+            dataFile !== undefined
+              ? await fs.readFile(dataFile)
+              : (data ?? Buffer.alloc(0));
+          await runSyncForCommand(command, async (dlpConnection) => {
+            const {resultCode, resultData} = await callApplication(
+              dlpConnection,
+              creator,
+              type,
+              action,
+              paramData
+            );
+            log(`=> Result code: ${resultCode}`);
+            if (output !== undefined) {
+              await fs.writeFile(output, resultData);
+              log(`=> ${output} (${resultData.length} bytes)`);
+            } else if (resultData.length > 0) {
+              log(`=> Result data: ${resultData.toString('hex')}`);
+            }
+          });
+        }
+      );
+
     program
       .command('run')
       .description('Run a custom sync function')
@@ -315,17 +1344,42 @@ if (require.main === module) {
         '-d, --sync-dir <syncDir>',
         'The directory where every palm user folder will be created'
       )
+      .option(
+        '--netsync',
+        'Point network HotSync on the device at this computer'
+      )
+      .option(
+        '--netsync-host <name>',
+        'Host name to set for network HotSync (implies --netsync)'
+      )
+      .option(
+        '--netsync-addr <ip>',
+        'IP address to set for network HotSync (implies --netsync)'
+      )
+      .option('--preferences', 'Back up and restore app preferences')
       .action(
         async (
           userName: string,
           {
             syncDir,
+            netsync,
+            netsyncHost,
+            netsyncAddr,
+            preferences,
           }: {
             syncDir?: string;
+            netsync?: boolean;
+            netsyncHost?: string;
+            netsyncAddr?: string;
+            preferences?: boolean;
           },
           command: Command
         ) => {
           const storageDir = syncDir === undefined ? process.cwd() : syncDir;
+          const netSyncInfo =
+            netsync || netsyncHost || netsyncAddr
+              ? resolveNetSyncInfo(netsyncHost, netsyncAddr)
+              : null;
 
           await runSyncForCommand(command, async (dlpConnection) => {
             try {
@@ -333,9 +1387,13 @@ if (require.main === module) {
                 new SyncDatabasesConduit(),
                 new DownloadNewResourcesConduit(),
                 new InstallNewResourcesConduit(),
+                ...(preferences ? [new PreferencesConduit()] : []),
                 new UpdateClockConduit(),
                 new UpdateSyncInfoConduit(),
               ];
+              if (netSyncInfo) {
+                conduits.push(new UpdateNetSyncInfoConduit(netSyncInfo));
+              }
 
               await syncDevice(
                 dlpConnection,
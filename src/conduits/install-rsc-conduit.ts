@@ -1,4 +1,10 @@
 import {DlpOpenConduitReqType} from '../protocols/dlp-commands';
+import {
+  DlpAbortError,
+  DlpCancelSyncError,
+  DlpNotEnoughSpaceError,
+  DlpTimeoutError,
+} from '../protocols/dlp-protocol';
 import {DlpConnection} from '../protocols/sync-connections';
 import {ConduitData, ConduitInterface} from './conduit-interface';
 import {writeDb} from '../sync-utils/write-db';
@@ -23,14 +29,21 @@ export class InstallNewResourcesConduit implements ConduitInterface {
 
     let installCount = 0;
 
+    let installList;
     try {
-      const {databases, filenames} = await dbStg.getDatabasesFromInstallList(
+      installList = await dbStg.getDatabasesFromInstallList(
         conduitData.palmID.userName
       );
-      log(`Found [${databases.length}] resources to install`);
+    } catch (err) {
+      console.error(`Failed to read install list! Skipping...`, err);
+      return;
+    }
+    const {databases, filenames} = installList;
+    log(`Found [${databases.length}] resources to install`);
 
-      for (let i = 0; i < databases.length; i++) {
-        const db = databases[i];
+    for (let i = 0; i < databases.length; i++) {
+      const db = databases[i];
+      try {
         log(`Installing [${db.header.name}]`);
         await writeDb(dlpConnection, db, {overwrite: true});
         log(`Successfully installed [${db.header.name}]`);
@@ -42,9 +55,29 @@ export class InstallNewResourcesConduit implements ConduitInterface {
         log(`Removed [${db.header.name}] from install list`);
 
         installCount++;
+      } catch (err) {
+        // The session can't continue after these, so don't try the remaining
+        // databases.
+        if (
+          err instanceof DlpCancelSyncError ||
+          err instanceof DlpAbortError ||
+          err instanceof DlpTimeoutError
+        ) {
+          throw err;
+        }
+        if (err instanceof DlpNotEnoughSpaceError) {
+          console.error(
+            `Device is out of memory! Skipping remaining ` +
+              `[${databases.length - i}] resources...`,
+            err
+          );
+          break;
+        }
+        console.error(
+          `Failed to install [${db.header.name}]! Skipping...`,
+          err
+        );
       }
-    } catch (err) {
-      console.error(`Failed to install app! Skipping...`, err);
     }
 
     if (installCount == 0) {
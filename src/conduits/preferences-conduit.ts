@@ -0,0 +1,173 @@
+import debug from 'debug';
+import {
+  DlpCloseDBReqType,
+  DlpFuncId,
+  DlpOpenConduitReqType,
+  DlpOpenDBMode,
+  DlpOpenDBReqType,
+  DlpReadAppPreferenceFlags,
+  DlpReadAppPreferenceReqType,
+  DlpReadOpenDBInfoReqType,
+  DlpReadResourceByIndexReqType,
+  DlpWriteAppPreferenceFlags,
+  DlpWriteAppPreferenceReqType,
+} from '../protocols/dlp-commands';
+import {DlpRespErrorCode} from '../protocols/dlp-protocol';
+import {DlpConnection} from '../protocols/sync-connections';
+import {ConduitData, ConduitInterface} from './conduit-interface';
+import {
+  AppPreference,
+  DatabaseStorageInterface,
+} from '../database-storage/database-storage-interface';
+
+const log = debug('palm-sync').extend('conduit').extend('preferences');
+
+/** Resource databases in which Palm OS stores saved and unsaved app
+ * preferences. Each preference is stored as a resource whose type is the app's
+ * creator ID and whose ID is the preference ID. */
+const PREFERENCES_DBS = [
+  {name: 'Saved Preferences', saved: true},
+  {name: 'Unsaved Preferences', saved: false},
+];
+
+/**
+ * PreferencesConduit backs up the saved and unsaved app preferences of every
+ * app on the device, and restores them when the device is fresh.
+ *
+ * There is no DLP command to list preferences, so the preferences to back up
+ * are found by listing the resources in the "Saved Preferences" and "Unsaved
+ * Preferences" databases.
+ *
+ * This conduit is skipped if the DatabaseStorageInterface does not implement
+ * `readPreferences()` and `writePreferences()`.
+ */
+export class PreferencesConduit implements ConduitInterface {
+  name = 'backup / restore app preferences';
+
+  async execute(
+    dlpConnection: DlpConnection,
+    conduitData: ConduitData,
+    dbStg: DatabaseStorageInterface
+  ): Promise<void> {
+    if (
+      dlpConnection.capabilities &&
+      !dlpConnection.capabilities.supportsCommand(DlpFuncId.ReadAppPreference)
+    ) {
+      log('App preferences are not supported by this device, skipping');
+      return;
+    }
+    if (!dbStg.readPreferences || !dbStg.writePreferences) {
+      log('App preferences are not supported by database storage, skipping');
+      return;
+    }
+
+    await dlpConnection.execute(DlpOpenConduitReqType.with({}));
+
+    if (conduitData.palmID.newlySet) {
+      await this.restorePreferences(dlpConnection, conduitData, dbStg);
+    } else {
+      await this.backupPreferences(dlpConnection, conduitData, dbStg);
+    }
+  }
+
+  private async backupPreferences(
+    dlpConnection: DlpConnection,
+    conduitData: ConduitData,
+    dbStg: DatabaseStorageInterface
+  ) {
+    const prefs: Array<AppPreference> = [];
+    for (const {name, saved} of PREFERENCES_DBS) {
+      for (const {creator, id} of await listPreferences(dlpConnection, name)) {
+        const resp = await dlpConnection.execute(
+          DlpReadAppPreferenceReqType.with({
+            creator,
+            id,
+            flags: DlpReadAppPreferenceFlags.with({backedUp: saved}),
+          }),
+          {ignoreErrorCode: DlpRespErrorCode.NOT_FOUND}
+        );
+        if (resp.errorCode === DlpRespErrorCode.NOT_FOUND) {
+          log(`Preference [${creator}] ${id} not found, skipping`);
+          continue;
+        }
+        prefs.push({
+          creator,
+          id,
+          version: resp.version,
+          saved,
+          data: resp.data,
+        });
+      }
+    }
+
+    await dbStg.writePreferences!(conduitData.palmID.userName, prefs);
+    log(`Done! Backed up ${prefs.length} preferences`);
+  }
+
+  private async restorePreferences(
+    dlpConnection: DlpConnection,
+    conduitData: ConduitData,
+    dbStg: DatabaseStorageInterface
+  ) {
+    const prefs = await dbStg.readPreferences!(conduitData.palmID.userName);
+    let restoreCount = 0;
+    for (const {creator, id, version, saved, data} of prefs) {
+      try {
+        await dlpConnection.execute(
+          DlpWriteAppPreferenceReqType.with({
+            creator,
+            id,
+            version,
+            flags: DlpWriteAppPreferenceFlags.with({backedUp: saved}),
+            data,
+          })
+        );
+        restoreCount++;
+      } catch (error) {
+        console.error(
+          `Failed to restore preference [${creator}] ${id}. Skipping it...`,
+          error
+        );
+      }
+    }
+    log(`Done! Successfully restored ${restoreCount} preferences`);
+  }
+}
+
+/** List the preferences stored in a preferences database.
+ *
+ * Returns an empty array if the database does not exist.
+ */
+async function listPreferences(
+  dlpConnection: DlpConnection,
+  dbName: string
+): Promise<Array<{creator: string; id: number}>> {
+  const {errorCode, dbId} = await dlpConnection.execute(
+    DlpOpenDBReqType.with({
+      mode: DlpOpenDBMode.with({read: true, secret: true}),
+      name: dbName,
+    }),
+    {ignoreErrorCode: DlpRespErrorCode.NOT_FOUND}
+  );
+  if (errorCode === DlpRespErrorCode.NOT_FOUND) {
+    log(`Database ${dbName} not found, skipping`);
+    return [];
+  }
+  try {
+    const {numRec} = await dlpConnection.execute(
+      DlpReadOpenDBInfoReqType.with({dbId})
+    );
+    const prefs: Array<{creator: string; id: number}> = [];
+    for (let index = 0; index < numRec; ++index) {
+      // Only the resource type and ID are needed, so don't read any data
+      // (same as pilot-link's dlp_ReadResourceByIndex without a buffer).
+      const {type, id} = await dlpConnection.execute(
+        DlpReadResourceByIndexReqType.with({dbId, index, numBytes: 0})
+      );
+      prefs.push({creator: type, id});
+    }
+    return prefs;
+  } finally {
+    await dlpConnection.execute(DlpCloseDBReqType.with({dbId}));
+  }
+}
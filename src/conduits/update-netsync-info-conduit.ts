@@ -0,0 +1,63 @@
+import debug from 'debug';
+import {DlpFuncId, DlpOpenConduitReqType} from '../protocols/dlp-commands';
+import {DlpConnection} from '../protocols/sync-connections';
+import {
+  NetSyncInfo,
+  readNetSyncInfo,
+  writeNetSyncInfo,
+} from '../sync-utils/netsync-info';
+import {ConduitData, ConduitInterface} from './conduit-interface';
+import {DatabaseStorageInterface} from '../database-storage/database-storage-interface';
+
+const log = debug('palm-sync').extend('conduit').extend('update-netsync-info');
+
+/**
+ * This conduit points the PDA's network HotSync configuration at the
+ * provided host, e.g. the machine running a NetworkSyncServer.
+ *
+ * Only the fields that differ from the device's current configuration are
+ * written.
+ */
+export class UpdateNetSyncInfoConduit implements ConduitInterface {
+  name = 'update network HotSync info';
+
+  constructor(
+    /** Network HotSync configuration to set on the device. */
+    private readonly netSyncInfo: Partial<NetSyncInfo>
+  ) {}
+
+  async execute(
+    dlpConnection: DlpConnection,
+    conduitData: ConduitData,
+    dbStg: DatabaseStorageInterface
+  ): Promise<void> {
+    if (
+      dlpConnection.capabilities &&
+      !dlpConnection.capabilities.supportsCommand(DlpFuncId.WriteNetSyncInfo)
+    ) {
+      log('Network HotSync is not supported by this device, skipping');
+      return;
+    }
+
+    await dlpConnection.execute(DlpOpenConduitReqType.with({}));
+
+    const currentInfo = await readNetSyncInfo(dlpConnection);
+    const changes: Partial<NetSyncInfo> = {};
+    for (const key of Object.keys(this.netSyncInfo) as Array<
+      keyof NetSyncInfo
+    >) {
+      const value = this.netSyncInfo[key];
+      if (value !== undefined && value !== currentInfo[key]) {
+        Object.assign(changes, {[key]: value});
+      }
+    }
+
+    if (Object.keys(changes).length === 0) {
+      log('Network HotSync info is already up to date');
+      return;
+    }
+
+    await writeNetSyncInfo(dlpConnection, changes);
+    log(`Done! Successfully updated network HotSync info`);
+  }
+}
@@ -1,5 +1,20 @@
 import {RawPdbDatabase, RawPrcDatabase} from 'palm-pdb';
 
+/** An app preference backed up from a Palm OS device. */
+export interface AppPreference {
+  /** App creator ID. */
+  creator: string;
+  /** Preference ID. */
+  id: number;
+  /** Version number of the application. */
+  version: number;
+  /** Whether this is a saved preference (backed up by HotSync) as opposed to
+   * an unsaved preference. */
+  saved: boolean;
+  /** Preference data. */
+  data: Buffer;
+}
+
 export interface DatabaseStorageInterface {
   /**
    * Creates the file system structure to hold database data for the username provided, may also
@@ -69,6 +84,26 @@ export interface DatabaseStorageInterface {
     db: RawPdbDatabase | RawPrcDatabase,
     filename: string
   ): Promise<void>;
+  /**
+   * Writes the app preferences backed up from the PDA for the supplied user,
+   * replacing any previously written preferences.
+   *
+   * Optional; PreferencesConduit is skipped if not implemented.
+   * @param requestedUserName the username of the PDA
+   * @param prefs the app preferences to be written
+   */
+  writePreferences?(
+    requestedUserName: string,
+    prefs: Array<AppPreference>
+  ): Promise<void>;
+  /**
+   * Returns the app preferences previously written using `writePreferences()`
+   * for the supplied user, or an empty array if there are none.
+   *
+   * Optional; PreferencesConduit is skipped if not implemented.
+   * @param requestedUserName the username of the PDA
+   */
+  readPreferences?(requestedUserName: string): Promise<Array<AppPreference>>;
   /**
    * Generates/retrieves a UInt32 that will be stored in the PDA to
    * identify this computer.
@@ -3,12 +3,17 @@ import * as path from 'path';
 import os from 'os';
 import crypto from 'crypto';
 import debug from 'debug';
-import {DatabaseStorageInterface} from './database-storage-interface';
+import {
+  AppPreference,
+  DatabaseStorageInterface,
+} from './database-storage-interface';
 import {DlpReadUserInfoRespType} from '../protocols/dlp-commands';
 import {DatabaseHdrType, RawPdbDatabase, RawPrcDatabase} from 'palm-pdb';
 
 const log = debug('palm-sync').extend('node-db-stg');
 export const READ_WRITE_TO_BASE_DIR_DIRECTLY = true;
+/** Name of the sidecar file for app preferences in a user's directory. */
+const PREFERENCES_FILE_NAME = 'preferences.json';
 
 export class NodeDatabaseStorage implements DatabaseStorageInterface {
   baseDir?: string;
@@ -168,6 +173,37 @@ export class NodeDatabaseStorage implements DatabaseStorageInterface {
     await fs.move(installFilePath, backupFilePath, {overwrite: true});
   }
 
+  async writePreferences(
+    requestedUserName: string,
+    prefs: Array<AppPreference>
+  ): Promise<void> {
+    const filePath = this.getPreferencesPath(requestedUserName);
+    await fs.ensureFile(filePath);
+    await fs.writeJson(
+      filePath,
+      prefs.map(({data, ...pref}) => ({
+        ...pref,
+        data: data.toString('base64'),
+      })),
+      {spaces: 2}
+    );
+  }
+
+  async readPreferences(
+    requestedUserName: string
+  ): Promise<Array<AppPreference>> {
+    const filePath = this.getPreferencesPath(requestedUserName);
+    if (!(await fs.pathExists(filePath))) {
+      return [];
+    }
+    const prefs: Array<Omit<AppPreference, 'data'> & {data: string}> =
+      await fs.readJson(filePath);
+    return prefs.map(({data, ...pref}) => ({
+      ...pref,
+      data: Buffer.from(data, 'base64'),
+    }));
+  }
+
   private getDbFullName(db: RawPdbDatabase | RawPrcDatabase): string {
     const ext = db.header.attributes.resDB ? 'prc' : 'pdb';
     return `${db.header.name}.${ext}`;
@@ -183,6 +219,17 @@ export class NodeDatabaseStorage implements DatabaseStorageInterface {
     return path.join(this.getBackupPath(deviceId), dbName);
   }
 
+  /** Preferences are stored outside the backup dir, as all files in the
+   * backup dir are expected to be databases. */
+  private getPreferencesPath(deviceId: string): string {
+    if (this.readWriteToBasedir) {
+      return path.join(this.baseDir as string, PREFERENCES_FILE_NAME);
+    }
+    return this.baseDir
+      ? path.join(this.baseDir, deviceId, PREFERENCES_FILE_NAME)
+      : path.join(deviceId, PREFERENCES_FILE_NAME);
+  }
+
   private getInstallPath(deviceId: string): string {
     return this.baseDir
       ? path.join(this.baseDir, deviceId, 'install')
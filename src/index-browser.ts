@@ -1,6 +1,10 @@
 export const debug = require('debug');
 export * from './protocols/dlp-protocol';
+export * from './protocols/dlp-transcript';
+export * from './protocols/dlp-command-registry';
 export * from './protocols/dlp-commands';
+export * from './protocols/dlp-rpc';
+export * from './protocols/device-capabilities';
 export * from './protocols/slp-protocol';
 export * from './protocols/padp-protocol';
 export * from './protocols/cmp-protocol';
@@ -16,11 +20,20 @@ export * from './sync-utils/read-db';
 export * from './sync-utils/write-db';
 export * from './sync-utils/sync-db';
 export * from './sync-utils/sync-device';
+export * from './sync-utils/vfs-client';
+export * from './sync-utils/call-application';
+export * from './sync-utils/categories';
+export * from './sync-utils/db-info';
+export * from './sync-utils/link-diagnostics';
+export * from './sync-utils/storage-info';
+export * from './sync-utils/netsync-info';
 export * from './database-storage/database-storage-interface';
 export * from './conduits/conduit-interface';
 export * from './conduits/download-rsc-conduit';
 export * from './conduits/install-rsc-conduit';
+export * from './conduits/preferences-conduit';
 export * from './conduits/restore-resources-conduit';
 export * from './conduits/sync-databases-conduit';
 export * from './conduits/update-clock-conduit';
+export * from './conduits/update-netsync-info-conduit';
 export * from './conduits/update-sync-info-conduit';
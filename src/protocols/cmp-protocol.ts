@@ -82,10 +82,10 @@ export class CmpDatagram extends SObject {
   attrs: CmpInitDatagramAttrs | CmpAbortDatagramAttrs | SUInt8 = SUInt8.of(0);
   /** Major verison of protocol. */
   @field(SUInt8)
-  private majorVersion = SUPPORTED_CMP_VERSION.majorVersion;
+  majorVersion: number = SUPPORTED_CMP_VERSION.majorVersion;
   /** Minor verison of protocol. */
   @field(SUInt8)
-  private minorVersion = SUPPORTED_CMP_VERSION.minorVersion;
+  minorVersion: number = SUPPORTED_CMP_VERSION.minorVersion;
   /** Reserved, must always be 0. */
   @field(SUInt16BE)
   private padding1 = 0;
@@ -127,6 +127,60 @@ export class CmpDatagram extends SObject {
   }
 }
 
+/** Error thrown when the other side aborts a CMP handshake. */
+export class CmpAbortError extends Error {
+  constructor(
+    /** Flags in the ABORT datagram. */
+    readonly attrs: CmpAbortDatagramAttrs,
+    message?: string
+  ) {
+    super(
+      message ??
+        'CMP handshake aborted by peer' +
+          (attrs.isProtocolVersionMismatch ? ': protocol version mismatch' : '')
+    );
+    // Restore prototype chain, which is broken when extending Error in ES5.
+    Object.setPrototypeOf(this, new.target.prototype);
+    this.name = 'CmpAbortError';
+  }
+}
+
+/** Error thrown when the baud rate proposed in a CMP INIT is refused.
+ *
+ * This is typically caused by older hardware that cannot switch to the
+ * negotiated baud rate.
+ */
+export class CmpBaudRateRejectedError extends CmpAbortError {
+  constructor(
+    attrs: CmpAbortDatagramAttrs,
+    /** The rejected baud rate. */
+    readonly baudRate: number
+  ) {
+    super(attrs, `Baud rate ${baudRate} rejected during CMP handshake`);
+    // Restore prototype chain, which is broken when extending Error in ES5.
+    Object.setPrototypeOf(this, new.target.prototype);
+    this.name = 'CmpBaudRateRejectedError';
+  }
+}
+
+/** Error thrown when the other side uses an incompatible CMP version. */
+export class CmpVersionMismatchError extends Error {
+  constructor(
+    /** Major version of the other side. */
+    readonly majorVersion: number,
+    /** Minor version of the other side. */
+    readonly minorVersion: number
+  ) {
+    super(
+      `Incompatible CMP version ${majorVersion}.${minorVersion}, ` +
+        `expected ${SUPPORTED_CMP_VERSION.majorVersion}.x`
+    );
+    // Restore prototype chain, which is broken when extending Error in ES5.
+    Object.setPrototypeOf(this, new.target.prototype);
+    this.name = 'CmpVersionMismatchError';
+  }
+}
+
 /** Result of a CMP handshake. */
 export interface CmpHandshakeResult {
   /** Baud rate after negotiation.
@@ -139,7 +193,9 @@ export interface CmpHandshakeResult {
 
 /** Performs a CMP negotiation using the provided PADP stream.
  *
- * Returns the negotiated baud rate.
+ * Returns the negotiated baud rate. Throws {@link CmpVersionMismatchError} if
+ * the Palm device uses an incompatible CMP version, and
+ * {@link CmpAbortError} if the Palm device aborts the handshake.
  */
 export async function doCmpHandshake(
   stream: PadpStream,
@@ -149,13 +205,25 @@ export async function doCmpHandshake(
 
   // Read initial WAKEUP.
   const wakeupDatagram = CmpDatagram.from(await pEvent(stream, 'data'));
+  log(
+    `<<< CMP ${CmpDatagramType[wakeupDatagram.type]}: ${JSON.stringify(wakeupDatagram)}`
+  );
+  if (wakeupDatagram.type === CmpDatagramType.ABORT) {
+    throw new CmpAbortError(wakeupDatagram.attrs as CmpAbortDatagramAttrs);
+  }
   if (wakeupDatagram.type !== CmpDatagramType.WAKEUP) {
     throw new Error(
       `Expected CMP datagram of type WAKEUP, ` +
         `got ${CmpDatagramType[wakeupDatagram.type]}`
     );
   }
-  log(`<<< CMP WAKEUP: ${JSON.stringify(wakeupDatagram)}`);
+  if (!isCmpVersionSupported(wakeupDatagram)) {
+    await sendCmpAbort(stream, log);
+    throw new CmpVersionMismatchError(
+      wakeupDatagram.majorVersion,
+      wakeupDatagram.minorVersion
+    );
+  }
 
   const baudRate = Math.min(wakeupDatagram.baudRate, maxBaudRate);
   const shouldChangeBaudRate = baudRate !== CMP_INITIAL_BAUD_RATE;
@@ -182,7 +250,9 @@ export async function doCmpHandshake(
 
   // Wait for ACK on our reply, and discard any other datagrams coming from the
   // client until that happens. The Palm device may send multiple CMP WAKEUP
-  // datagrams before receiving our reply, so we need to ignore those.
+  // datagrams before receiving our reply, so we need to ignore those. If the
+  // Palm device cannot switch to the negotiated baud rate, it will respond
+  // with an ABORT instead.
   log(`-- Waiting for ACK on CMP INIT`);
   for (;;) {
     const dataOrAck = (await Promise.race([
@@ -192,15 +262,158 @@ export async function doCmpHandshake(
     if (dataOrAck === null) {
       // Got ACK
       break;
-    } else {
-      // Got some other message.
-      log(
-        `--- Ignoring PADP message until ACK on CMP INIT: ` +
-          (dataOrAck as Buffer).toString('hex')
-      );
     }
+    const datagram = parseCmpDatagram(dataOrAck);
+    if (datagram?.type === CmpDatagramType.ABORT) {
+      log(`<<< CMP ABORT: ${JSON.stringify(datagram)}`);
+      const attrs = datagram.attrs as CmpAbortDatagramAttrs;
+      throw shouldChangeBaudRate && !attrs.isProtocolVersionMismatch
+        ? new CmpBaudRateRejectedError(attrs, baudRate)
+        : new CmpAbortError(attrs);
+    }
+    // Got some other message.
+    log(
+      `--- Ignoring PADP message until ACK on CMP INIT: ` +
+        dataOrAck.toString('hex')
+    );
   }
   log(`--- Received ACK on CMP INIT, CMP handshake complete`);
 
   return {baudRate};
 }
+
+/** Options for {@link doCmpDeviceHandshake}. */
+export interface CmpDeviceHandshakeOptions {
+  /** Highest baud rate supported by the device, announced in the WAKEUP
+   * datagram (default: CMP_MAX_BAUD_RATE). */
+  maxBaudRate?: number;
+  /** Baud rates the device can actually switch to.
+   *
+   * If the desktop requests a baud rate not in this list, the device aborts
+   * the handshake. Defaults to any baud rate up to `maxBaudRate`. This is
+   * mainly useful for simulating older hardware that refuses the negotiated
+   * baud rate.
+   */
+  supportedBaudRates?: Array<number>;
+}
+
+/** Performs the Palm device side of a CMP negotiation using the provided PADP
+ * stream.
+ *
+ * Sends a WAKEUP and waits for the desktop's INIT. Returns the baud rate
+ * requested by the desktop. Throws {@link CmpVersionMismatchError} if the
+ * desktop uses an incompatible CMP version, {@link CmpBaudRateRejectedError}
+ * if the requested baud rate is not supported, and {@link CmpAbortError} if
+ * the desktop aborts the handshake.
+ *
+ * The stream is paused on return, so that datagrams received after the
+ * handshake are buffered until the caller starts reading.
+ */
+export async function doCmpDeviceHandshake(
+  stream: PadpStream,
+  {
+    maxBaudRate = CMP_MAX_BAUD_RATE,
+    supportedBaudRates,
+  }: CmpDeviceHandshakeOptions = {}
+): Promise<CmpHandshakeResult> {
+  const log = debug('palm-sync').extend('cmp');
+
+  // Send WAKEUP. The desktop replies with the same transaction ID, so start
+  // listening before writing.
+  const wakeupDatagram = CmpDatagram.with({
+    type: CmpDatagramType.WAKEUP,
+    baudRate: maxBaudRate,
+  });
+  log(`>>> CMP WAKEUP: ${JSON.stringify(wakeupDatagram)}`);
+  const replyPromise = pEvent(stream, 'data');
+  await new Promise<void>((resolve, reject) => {
+    stream.setNextXid(CMP_XID);
+    stream.write(
+      wakeupDatagram.serialize(),
+      'buffer' as BufferEncoding,
+      (error) => (error ? reject(error) : resolve())
+    );
+  });
+
+  // Read INIT or ABORT.
+  const replyDatagram = CmpDatagram.from(await replyPromise);
+  stream.pause();
+  log(
+    `<<< CMP ${CmpDatagramType[replyDatagram.type]}: ` +
+      JSON.stringify(replyDatagram)
+  );
+  if (replyDatagram.type === CmpDatagramType.ABORT) {
+    throw new CmpAbortError(replyDatagram.attrs as CmpAbortDatagramAttrs);
+  }
+  if (replyDatagram.type !== CmpDatagramType.INIT) {
+    throw new Error(
+      `Expected CMP datagram of type INIT, ` +
+        `got ${CmpDatagramType[replyDatagram.type]}`
+    );
+  }
+  if (!isCmpVersionSupported(replyDatagram)) {
+    await sendCmpAbort(stream, log);
+    throw new CmpVersionMismatchError(
+      replyDatagram.majorVersion,
+      replyDatagram.minorVersion
+    );
+  }
+
+  const attrs = replyDatagram.attrs as CmpInitDatagramAttrs;
+  if (!attrs.shouldChangeBaudRate) {
+    log(`--- CMP handshake complete, keeping initial baud rate`);
+    return {baudRate: CMP_INITIAL_BAUD_RATE};
+  }
+  const {baudRate} = replyDatagram;
+  if (
+    baudRate > maxBaudRate ||
+    (supportedBaudRates && !supportedBaudRates.includes(baudRate))
+  ) {
+    const abortAttrs = new CmpAbortDatagramAttrs();
+    await sendCmpAbort(stream, log, abortAttrs);
+    throw new CmpBaudRateRejectedError(abortAttrs, baudRate);
+  }
+  log(`--- CMP handshake complete, negotiated baud rate: ${baudRate}`);
+  return {baudRate};
+}
+
+/** Whether the version in a CMP datagram is compatible with ours. */
+function isCmpVersionSupported({majorVersion}: CmpDatagram) {
+  return majorVersion === SUPPORTED_CMP_VERSION.majorVersion;
+}
+
+/** Parse a CMP datagram, returning null if the data is not a valid CMP
+ * datagram. */
+function parseCmpDatagram(data: Buffer) {
+  try {
+    return CmpDatagram.from(data);
+  } catch (e) {
+    return null;
+  }
+}
+
+/** Send a CMP ABORT datagram.
+ *
+ * Errors are logged and ignored, as the other side may have already dropped
+ * the connection.
+ */
+async function sendCmpAbort(
+  stream: PadpStream,
+  log: debug.Debugger,
+  attrs = CmpAbortDatagramAttrs.with({isProtocolVersionMismatch: true})
+) {
+  const abortDatagram = CmpDatagram.with({type: CmpDatagramType.ABORT, attrs});
+  log(`>>> CMP ABORT: ${JSON.stringify(abortDatagram)}`);
+  try {
+    await new Promise<void>((resolve, reject) => {
+      stream.setNextXid(CMP_XID);
+      stream.write(
+        abortDatagram.serialize(),
+        'buffer' as BufferEncoding,
+        (error) => (error ? reject(error) : resolve())
+      );
+    });
+  } catch (e) {
+    log(`--- Error sending CMP ABORT: ${e instanceof Error ? e.message : e}`);
+  }
+}
@@ -0,0 +1,157 @@
+/** Determining which DLP commands and features a Palm OS device supports.
+ *
+ * References:
+ *   - Feature creators and numbers:
+ *     https://github.com/jichu4n/palm-os-sdk/blob/master/sdk-5r3/include/Core/System/SystemMgr.h
+ *
+ * @module
+ */
+import debug from 'debug';
+import {
+  DLP_MAX_NON_STREAM_ENTRY_SIZE,
+  DlpFuncId,
+  DlpReadFeatureReqType,
+  DlpReadStorageInfoReqType,
+  DlpReadStorageInfoRespType,
+  DlpReadSysInfoRespType,
+} from './dlp-commands';
+import {
+  DlpRequest,
+  DlpRespErrorCode,
+  getDlpFuncIdMinVersion,
+} from './dlp-protocol';
+import type {DlpConnection} from './sync-connections';
+
+const log = debug('palm-sync').extend('capabilities');
+
+/** Map Palm OS version to the DLP version shipped with it.
+ *
+ * Used for devices that don't report their DLP version in ReadSysInfo, which
+ * is the case for Palm OS 1.0.
+ */
+function getDlpVersionForOsVersion(osVersion: number) {
+  if (osVersion >= 5.2) {
+    return 1.4;
+  } else if (osVersion >= 4) {
+    return 1.3;
+  } else if (osVersion >= 3) {
+    return 1.2;
+  } else if (osVersion >= 2) {
+    return 1.1;
+  } else {
+    return 1.0;
+  }
+}
+
+/** Capabilities of a Palm OS device.
+ *
+ * Basic capabilities are computed from ReadSysInfo at the beginning of a
+ * HotSync session and are available as `dlpConnection.capabilities`.
+ * Additional information that requires extra DLP requests, such as features
+ * and storage info, is only available after calling `probe()`.
+ */
+export class DeviceCapabilities {
+  /** DLP version supported by the device, e.g. 1.4. */
+  dlpVersion = 1.0;
+
+  /** Palm OS version, e.g. 5.2. */
+  osVersion = 0;
+
+  /** Maximum size of a record or resource in bytes. */
+  maxRecordSize = DLP_MAX_NON_STREAM_ENTRY_SIZE;
+
+  /** Whether `probe()` has been run. */
+  isProbed = false;
+
+  /** Processor ID (feature 'psys' 2), or null if unknown. */
+  processorId: number | null = null;
+
+  /** Expansion Manager version (feature 'expn' 0), or null if not present. */
+  expansionMgrVersion: number | null = null;
+
+  /** VFS Manager version (feature 'vfsm' 0), or null if not present. */
+  vfsMgrVersion: number | null = null;
+
+  /** Storage info for the first memory card, or null if not probed. */
+  storageInfo: DlpReadStorageInfoRespType | null = null;
+
+  /** Compute basic capabilities from the result of ReadSysInfo. */
+  static fromSysInfo(sysInfo: DlpReadSysInfoRespType) {
+    const capabilities = new DeviceCapabilities();
+    const {romSWVersion, dlpVer, maxRecSize} = sysInfo;
+    capabilities.osVersion = romSWVersion.major + romSWVersion.minor / 10;
+    capabilities.dlpVersion = dlpVer.major
+      ? dlpVer.toNumber()
+      : getDlpVersionForOsVersion(capabilities.osVersion);
+    if (capabilities.dlpVersion >= 1.4 && maxRecSize > 0) {
+      capabilities.maxRecordSize = maxRecSize;
+    }
+    return capabilities;
+  }
+
+  /** Whether the device supports a DLP command. */
+  supportsCommand(funcId: DlpFuncId) {
+    return this.dlpVersion >= getDlpFuncIdMinVersion(funcId);
+  }
+
+  /** Whether the device supports a DLP request. */
+  supportsRequest(request: DlpRequest<any>) {
+    return this.dlpVersion >= request.minDlpVersion;
+  }
+
+  /** Whether FindDB is supported. */
+  get supportsFindDb() {
+    return this.supportsCommand(DlpFuncId.FindDB);
+  }
+
+  /** Whether the Palm OS 2.0 format of CallApplication is supported. */
+  get supportsCallApplicationV2() {
+    return this.supportsCommand(DlpFuncId.ReadFeature);
+  }
+
+  /** Whether the stream record and resource commands are supported. */
+  get supportsStreamRecords() {
+    return this.supportsCommand(DlpFuncId.ReadRecordStream);
+  }
+
+  /** Whether the expansion slot and VFS commands are supported.
+   *
+   * If probed, this also checks that the VFS Manager is present on the device.
+   */
+  get supportsVfs() {
+    return (
+      this.supportsCommand(DlpFuncId.VFSVolumeEnumerate) &&
+      (!this.isProbed || this.vfsMgrVersion !== null)
+    );
+  }
+
+  /** Query additional capabilities from the device. */
+  async probe(dlpConnection: DlpConnection) {
+    if (this.supportsCommand(DlpFuncId.ReadFeature)) {
+      this.processorId = await readFeature(dlpConnection, 'psys', 2);
+      this.expansionMgrVersion = await readFeature(dlpConnection, 'expn', 0);
+      this.vfsMgrVersion = await readFeature(dlpConnection, 'vfsm', 0);
+    }
+    const storageInfo = await dlpConnection.execute(
+      DlpReadStorageInfoReqType.with({startCardNo: 0}),
+      {ignoreErrorCode: DlpRespErrorCode.NOT_FOUND}
+    );
+    this.storageInfo =
+      storageInfo.errorCode === DlpRespErrorCode.NONE ? storageInfo : null;
+    this.isProbed = true;
+    log(`Probed device capabilities: ${JSON.stringify(this)}`);
+  }
+}
+
+/** Read a feature, returning null if the feature does not exist. */
+async function readFeature(
+  dlpConnection: DlpConnection,
+  ftrCreator: string,
+  ftrNum: number
+) {
+  const {errorCode, feature} = await dlpConnection.execute(
+    DlpReadFeatureReqType.with({ftrCreator, ftrNum}),
+    {ignoreErrorCode: DlpRespErrorCode.NOT_FOUND}
+  );
+  return errorCode === DlpRespErrorCode.NONE ? feature : null;
+}
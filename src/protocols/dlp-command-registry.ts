@@ -0,0 +1,282 @@
+/** Registry of DLP request and response classes keyed by function ID.
+ *
+ * This allows parsing serialized DLP requests and responses without knowing
+ * the request class in advance, e.g. for device simulators, protocol analyzers
+ * and proxies.
+ *
+ * @module
+ */
+import {DeserializeOptions} from 'serio';
+import * as dlpCommands from './dlp-commands';
+import {DlpFuncId} from './dlp-commands';
+import {
+  DlpRequest,
+  DlpRespErrorCode,
+  DlpResponse,
+  getDlpArgSpecs,
+  readDlpArgIds,
+} from './dlp-protocol';
+import {DataEvent, DataEventType, StreamRecorder} from './stream-recorder';
+
+/** A DLP request class. */
+export type DlpRequestClass = new () => DlpRequest<DlpResponse>;
+
+/** A DLP response class. */
+export type DlpResponseClass = new () => DlpResponse;
+
+/** A registered DLP request class and its corresponding response class. */
+export interface DlpCommandSpec {
+  /** DLP function ID. */
+  funcId: number;
+  /** Request class. */
+  requestType: DlpRequestClass;
+  /** Response class. */
+  responseType: DlpResponseClass;
+  /** Whether the request and response are encoded as DLP arguments.
+   *
+   * This is false for commands such as ProcessRPC that carry a custom payload
+   * instead.
+   */
+  hasDlpArgs: boolean;
+  /** Fixed value of the request's flags argument, if any.
+   *
+   * Some requests share both the function ID and argument IDs, and are instead
+   * distinguished by a fixed flags value, e.g. DlpDeleteRecordReqType vs
+   * DlpDeleteAllRecordsReqType.
+   */
+  flags?: number;
+}
+
+/** Options for {@link registerDlpRequestType}. */
+export interface RegisterDlpRequestTypeOptions {
+  /** Whether the request and response are encoded as DLP arguments (default:
+   * true). */
+  hasDlpArgs?: boolean;
+}
+
+/** Registered DLP commands, keyed by function ID. */
+const dlpCommandSpecsByFuncId = new Map<number, Array<DlpCommandSpec>>();
+
+/** Register a DLP request class and its corresponding response class.
+ *
+ * All request classes defined in dlp-commands are registered automatically.
+ * This can be used to register additional request classes, e.g. for
+ * vendor-specific extensions.
+ */
+export function registerDlpRequestType(
+  requestType: DlpRequestClass,
+  {hasDlpArgs = true}: RegisterDlpRequestTypeOptions = {}
+) {
+  const request = new requestType();
+  const {funcId, responseType} = request;
+  const dlpCommandSpecs = dlpCommandSpecsByFuncId.get(funcId) ?? [];
+  if (dlpCommandSpecs.some((spec) => spec.requestType === requestType)) {
+    return;
+  }
+  dlpCommandSpecs.push({
+    funcId,
+    requestType,
+    responseType,
+    hasDlpArgs,
+    flags: getFlags(request),
+  });
+  dlpCommandSpecsByFuncId.set(funcId, dlpCommandSpecs);
+}
+
+/** Returns the registered DLP commands for a function ID.
+ *
+ * Some function IDs are shared by multiple request classes, e.g. ReadRecord is
+ * used by both DlpReadRecordByIDReqType and DlpReadRecordByIndexReqType.
+ */
+export function getDlpCommandSpecs(funcId: number): Array<DlpCommandSpec> {
+  return dlpCommandSpecsByFuncId.get(funcId) ?? [];
+}
+
+/** Built-in request classes that are not encoded as DLP arguments. */
+const NON_DLP_ARG_REQUEST_TYPES: Array<DlpRequestClass> = [
+  dlpCommands.DlpProcessRPCReqType,
+];
+
+for (const value of Object.values(dlpCommands)) {
+  if (typeof value === 'function' && value.prototype instanceof DlpRequest) {
+    const requestType = value as DlpRequestClass;
+    registerDlpRequestType(requestType, {
+      hasDlpArgs: !NON_DLP_ARG_REQUEST_TYPES.includes(requestType),
+    });
+  }
+}
+
+/** Parse a serialized DLP request into an instance of the matching request
+ * class. */
+export function parseDlpRequest(
+  buffer: Buffer,
+  opts?: DeserializeOptions
+): DlpRequest<DlpResponse> {
+  const funcId = buffer.readUInt8(0);
+  const dlpCommandSpecs = getDlpCommandSpecs(funcId);
+  if (dlpCommandSpecs.length === 0) {
+    throw new Error(`Unknown DLP function ID: ${formatHex(funcId)}`);
+  }
+  const argIds = dlpCommandSpecs.some(({hasDlpArgs}) => hasDlpArgs)
+    ? readDlpArgIds(buffer)
+    : [];
+  const candidates = dlpCommandSpecs.filter(
+    ({requestType, hasDlpArgs}) =>
+      !hasDlpArgs || matchesDlpArgIds(new requestType(), argIds)
+  );
+  let result: DlpRequest<DlpResponse> | null = null;
+  for (const {requestType, flags} of candidates) {
+    const candidate = new requestType();
+    candidate.deserialize(buffer, opts);
+    if (
+      candidates.length === 1 ||
+      flags === undefined ||
+      getFlags(candidate) === flags
+    ) {
+      result = candidate;
+      break;
+    }
+  }
+  if (!result) {
+    throw new Error(
+      `No matching request type for DLP function ID ${formatHex(funcId)} ` +
+        `with argument IDs [${argIds.map(formatHex).join(', ')}]`
+    );
+  }
+  return result;
+}
+
+/** Parse a serialized DLP response into an instance of the matching response
+ * class.
+ *
+ * If the corresponding request is available, it should be provided in place of
+ * the function ID to ensure the correct response class is used.
+ */
+export function parseDlpResponse(
+  funcIdOrRequest: number | DlpRequest<DlpResponse>,
+  buffer: Buffer,
+  opts?: DeserializeOptions
+): DlpResponse {
+  let candidates: Array<Pick<DlpCommandSpec, 'responseType' | 'hasDlpArgs'>>;
+  if (typeof funcIdOrRequest === 'number') {
+    const funcId = funcIdOrRequest;
+    candidates = getDlpCommandSpecs(funcId).filter(
+      ({responseType}, i, specs) =>
+        specs.findIndex((spec) => spec.responseType === responseType) === i
+    );
+    if (candidates.length === 0) {
+      throw new Error(`Unknown DLP function ID: ${formatHex(funcId)}`);
+    }
+  } else {
+    const request = funcIdOrRequest;
+    candidates = [
+      getDlpCommandSpecs(request.funcId).find(
+        ({requestType}) => request instanceof requestType
+      ) ?? {responseType: request.responseType, hasDlpArgs: true},
+    ];
+  }
+  // Error responses have no arguments, so any response class will do.
+  const isError = buffer.readUInt16BE(2) !== DlpRespErrorCode.NONE;
+  const argIds =
+    !isError && candidates.some(({hasDlpArgs}) => hasDlpArgs)
+      ? readDlpArgIds(buffer)
+      : [];
+  const response = candidates
+    .map(({responseType, hasDlpArgs}) => ({
+      response: new responseType(),
+      hasDlpArgs,
+    }))
+    .find(
+      ({response, hasDlpArgs}) =>
+        isError || !hasDlpArgs || matchesDlpArgIds(response, argIds)
+    )?.response;
+  if (!response) {
+    throw new Error(
+      'No matching response type for DLP function ID ' +
+        `${formatHex(buffer.readUInt8(0) & 0x7f)} ` +
+        `with argument IDs [${argIds.map(formatHex).join(', ')}]`
+    );
+  }
+  response.deserialize(buffer, opts);
+  return response;
+}
+
+/** A decoded DLP data event. */
+export interface DecodedDlpDataEvent {
+  /** Whether this is a request (write) or response (read). */
+  type: DataEventType;
+  /** Name of the DLP command. */
+  command: string;
+  /** JSON representation of the parsed request or response, or null if it
+   * could not be parsed. */
+  value: Object | null;
+  /** Error encountered while parsing, if any. */
+  error?: string;
+}
+
+/** Decode the DLP requests and responses captured by a StreamRecorder.
+ *
+ * The recorder should contain DLP datagrams, such as the recorder on a
+ * DlpConnection, rather than raw transport data.
+ */
+export function decodeDlpDataEvents(
+  recorderOrDataEvents: StreamRecorder | Array<DataEvent>,
+  opts?: DeserializeOptions
+): Array<DecodedDlpDataEvent> {
+  const dataEvents =
+    recorderOrDataEvents instanceof StreamRecorder
+      ? recorderOrDataEvents.dataEvents
+      : recorderOrDataEvents;
+  let lastRequest: DlpRequest<DlpResponse> | null = null;
+  return dataEvents.map(({type, data}) => {
+    // Strip the response bit to get the function ID.
+    const funcId = data.readUInt8(0) & 0x7f;
+    const command = DlpFuncId[funcId] ?? formatHex(funcId);
+    try {
+      let value: DlpRequest<DlpResponse> | DlpResponse;
+      if (type === DataEventType.WRITE) {
+        value = lastRequest = parseDlpRequest(data, opts);
+      } else {
+        value = parseDlpResponse(
+          lastRequest && lastRequest.funcId === funcId ? lastRequest : funcId,
+          data,
+          opts
+        );
+      }
+      return {type, command, value: value.toJSON()};
+    } catch (e) {
+      return {
+        type,
+        command,
+        value: null,
+        error: e instanceof Error ? e.message : `${e}`,
+      };
+    }
+  });
+}
+
+/** Returns whether the argument IDs in a serialized request or response are
+ * compatible with a request or response class. */
+function matchesDlpArgIds(
+  requestOrResponse: DlpRequest<DlpResponse> | DlpResponse,
+  argIds: Array<number>
+) {
+  const dlpArgSpecs = getDlpArgSpecs(requestOrResponse);
+  return (
+    argIds.every((argId) => dlpArgSpecs.some((spec) => spec.argId === argId)) &&
+    dlpArgSpecs.every(
+      ({argId, isOptional}) => isOptional || argIds.includes(argId)
+    )
+  );
+}
+
+/** Returns the value of a request's numeric flags argument, if any. */
+function getFlags(request: DlpRequest<DlpResponse>) {
+  return 'flags' in request && typeof request.flags === 'number'
+    ? request.flags
+    : undefined;
+}
+
+function formatHex(value: number) {
+  return `0x${value.toString(16).padStart(2, '0')}`;
+}
@@ -12,6 +12,7 @@
 
 import {
   DatabaseAttrs,
+  DatabaseTimestamp,
   LocalId,
   PDB_EPOCH,
   RecordAttrs,
@@ -24,6 +25,7 @@ import {
   SBitmask,
   SBuffer,
   SDynamicBuffer,
+  SInt32BE,
   SObject,
   SString,
   SStringNT,
@@ -37,6 +39,7 @@ import {
 import {
   DlpDateTimeType,
   DlpRequest,
+  DlpRespErrorCode,
   DlpResponse,
   dlpArg,
   optDlpArg,
@@ -623,19 +626,26 @@ export class DlpCardInfoType extends SObject {
   private cardNameAndManuf = Buffer.alloc(0);
 
   serialize(opts?: SerializeOptions): Buffer {
-    this.totalSize =
-      super.getSerializedLength(opts) - this.cardNameAndManuf.length;
     const cardNameBuffer = SString.of(this.cardName).serialize(opts);
     this.cardNameSize = cardNameBuffer.length;
     const manufNameBuffer = SString.of(this.manufName).serialize(opts);
     this.manufNameSize = manufNameBuffer.length;
     this.cardNameAndManuf = Buffer.concat([cardNameBuffer, manufNameBuffer]);
-    this.totalSize += this.cardNameAndManuf.length;
+    if (super.getSerializedLength(opts) % 2) {
+      this.cardNameAndManuf = Buffer.concat([
+        this.cardNameAndManuf,
+        Buffer.alloc(1),
+      ]);
+    }
+    this.totalSize = super.getSerializedLength(opts);
     return super.serialize(opts);
   }
 
   deserialize(buffer: Buffer, opts?: DeserializeOptions): number {
-    const offset = super.deserialize(buffer, opts);
+    // cardNameAndManuf would otherwise consume any following DlpCardInfoType
+    // entries, so limit it to the size of this structure.
+    const totalSize = buffer.readUInt8(0);
+    super.deserialize(buffer.subarray(0, totalSize), opts);
     this.cardName = SString.from(
       this.cardNameAndManuf.subarray(0, this.cardNameSize),
       opts
@@ -647,16 +657,16 @@ export class DlpCardInfoType extends SObject {
       ),
       opts
     ).value;
-    return offset;
+    return totalSize;
   }
 
   getSerializedLength(opts?: SerializeOptions): number {
-    return (
+    const length =
       super.getSerializedLength(opts) -
       this.cardNameAndManuf.length +
       SString.of(this.cardName).getSerializedLength(opts) +
-      SString.of(this.manufName).getSerializedLength(opts)
-    );
+      SString.of(this.manufName).getSerializedLength(opts);
+    return length + (length % 2);
   }
 }
 
@@ -1581,6 +1591,10 @@ export class DlpDeleteRecordByCategoryReqType extends DlpRequest<DlpDeleteRecord
   funcId = DlpFuncId.DeleteRecord;
   responseType = DlpDeleteRecordRespType;
 
+  get minDlpVersion() {
+    return 1.1;
+  }
+
   /** Handle to opened database. */
   @dlpArg(0, SUInt8)
   dbId = 0;
@@ -1954,6 +1968,10 @@ export class DlpCallApplicationReqType extends DlpRequest<DlpCallApplicationResp
   funcId = DlpFuncId.CallApplication;
   responseType = DlpCallApplicationRespType;
 
+  get minDlpVersion() {
+    return 1.1;
+  }
+
   /** App creator ID. */
   @dlpArg(1, TypeId)
   creator = 'AAAA';
@@ -2006,6 +2024,15 @@ export class DlpCallApplicationRespType extends DlpResponse {
     this.resultSize = this.resultData.length;
     return super.serialize(opts);
   }
+
+  deserialize(buffer: Buffer, opts?: DeserializeOptions): number {
+    const offset = super.deserialize(buffer, opts);
+    // Some devices pad the result data, so trim it to the declared size.
+    if (this.resultData.length > this.resultSize) {
+      this.resultData = this.resultData.subarray(0, this.resultSize);
+    }
+    return offset;
+  }
 }
 
 // =============================================================================
@@ -2121,6 +2148,281 @@ export class DlpMoveCategoryRespType extends DlpResponse {
   funcId = DlpFuncId.MoveCategory;
 }
 
+// =============================================================================
+// ProcessRPC (0x2d)
+// =============================================================================
+/** A parameter to a system trap invoked with {@link DlpProcessRPCReqType}.
+ *
+ * Parameters are either passed by value (8, 16 or 32-bit integers), or by
+ * reference, in which case the device allocates a buffer with the given
+ * contents, passes a pointer to it to the trap, and sends back the contents
+ * of the buffer after the trap returns.
+ */
+export class DlpRPCParamType extends SObject {
+  /** 1 if the parameter is passed by reference, 0 if passed by value. */
+  @field(SUInt8)
+  byRef = 0;
+
+  /** Parameter data. */
+  @field(
+    class extends SDynamicBuffer<SUInt8> {
+      lengthType = SUInt8;
+    }
+  )
+  data: Buffer = Buffer.alloc(0);
+
+  // Parameters are padded to an even length.
+
+  deserialize(buffer: Buffer, opts?: DeserializeOptions): number {
+    const offset = super.deserialize(buffer, opts);
+    return offset + (offset % 2);
+  }
+
+  serialize(opts?: SerializeOptions): Buffer {
+    const buffer = super.serialize(opts);
+    return buffer.length % 2
+      ? Buffer.concat([buffer, Buffer.alloc(1)])
+      : buffer;
+  }
+
+  getSerializedLength(opts?: SerializeOptions): number {
+    const length = super.getSerializedLength(opts);
+    return length + (length % 2);
+  }
+
+  /** Create an 8-bit parameter passed by value. */
+  static uint8(value: number) {
+    return DlpRPCParamType.with({data: Buffer.of(value)});
+  }
+
+  /** Create a 16-bit parameter passed by value. */
+  static uint16(value: number) {
+    const data = Buffer.alloc(2);
+    data.writeUInt16BE(value);
+    return DlpRPCParamType.with({data});
+  }
+
+  /** Create a 32-bit parameter passed by value. */
+  static uint32(value: number) {
+    const data = Buffer.alloc(4);
+    data.writeUInt32BE(value);
+    return DlpRPCParamType.with({data});
+  }
+
+  /** Create a parameter passed by reference.
+   *
+   * If a number is provided, a zero-filled buffer of that size is used.
+   */
+  static ref(dataOrSize: Buffer | number) {
+    return DlpRPCParamType.with({
+      byRef: 1,
+      data:
+        typeof dataOrSize === 'number' ? Buffer.alloc(dataOrSize) : dataOrSize,
+    });
+  }
+}
+
+/** Packet type for RPC requests. */
+const DLP_RPC_REQUEST_TYPE = 0x0a;
+/** Packet type for RPC replies. */
+const DLP_RPC_REPLY_TYPE = 0x8a;
+
+/** RPC packet embedded in ProcessRPC requests and responses. */
+class DlpRPCPacketType extends SObject {
+  /** Packet type - DLP_RPC_REQUEST_TYPE or DLP_RPC_REPLY_TYPE. */
+  @field(SUInt8)
+  type = DLP_RPC_REQUEST_TYPE;
+
+  @field(SUInt8)
+  private padding1 = 0;
+
+  /** System trap number. */
+  @field(SUInt16BE)
+  trap = 0;
+
+  /** Value of register D0. */
+  @field(SUInt32BE)
+  d0 = 0;
+
+  /** Value of register A0. */
+  @field(SUInt32BE)
+  a0 = 0;
+
+  /** Parameters, in reverse order (i.e. in the order they are pushed onto the
+   * stack). */
+  @field(SDynamicArray.of(SUInt16BE, DlpRPCParamType))
+  params: Array<DlpRPCParamType> = [];
+}
+
+/** DLP request to invoke a system trap on the device.
+ *
+ * Unlike other DLP requests, the request and response contain a single RPC
+ * packet instead of DLP arguments.
+ *
+ * DLP 1.0 (PalmOS v1.0 and above)
+ *
+ * Error codes:
+ *   - SYSTEM
+ *   - PARAM
+ *   - NOT_SUPPORTED
+ */
+export class DlpProcessRPCReqType extends DlpRequest<DlpProcessRPCRespType> {
+  funcId = DlpFuncId.ProcessRPC;
+  responseType = DlpProcessRPCRespType;
+
+  /** System trap number, e.g. 0xa340 for HwrGetROMToken. */
+  trap = 0;
+
+  /** Value of register D0. */
+  d0 = 0;
+
+  /** Value of register A0. */
+  a0 = 0;
+
+  /** Parameters to the trap, in the order they appear in the trap's
+   * signature. */
+  params: Array<DlpRPCParamType> = [];
+
+  serialize(opts?: SerializeOptions): Buffer {
+    return Buffer.concat([
+      Buffer.of(this.funcId, 1, 0, 0),
+      toRpcPacket(DLP_RPC_REQUEST_TYPE, this).serialize(opts),
+    ]);
+  }
+
+  deserialize(buffer: Buffer, opts?: DeserializeOptions): number {
+    if (buffer.readUInt8(0) !== this.funcId) {
+      throw new Error(
+        'Function ID mismatch: ' +
+          `expected 0x${this.funcId.toString(16).padStart(2, '0')}, ` +
+          `got 0x${buffer.readUInt8(0).toString(16).padStart(2, '0')}`
+      );
+    }
+    const packet = new DlpRPCPacketType();
+    const offset = 4 + packet.deserialize(buffer.subarray(4), opts);
+    fromRpcPacket(packet, this);
+    return offset;
+  }
+
+  getSerializedLength(opts?: SerializeOptions): number {
+    return (
+      4 + toRpcPacket(DLP_RPC_REQUEST_TYPE, this).getSerializedLength(opts)
+    );
+  }
+
+  toJSON(): Object {
+    return {funcId: this.funcId, ...rpcToJSON(this)};
+  }
+}
+
+/** DLP response for {@link DlpProcessRPCReqType}. */
+export class DlpProcessRPCRespType extends DlpResponse {
+  funcId = DlpFuncId.ProcessRPC;
+
+  /** System trap number. */
+  trap = 0;
+
+  /** Value of register D0 after the trap returns.
+   *
+   * For traps returning an integer, this is the return value.
+   */
+  d0 = 0;
+
+  /** Value of register A0 after the trap returns.
+   *
+   * For traps returning a pointer, this is the return value.
+   */
+  a0 = 0;
+
+  /** Parameters to the trap, in the order they appear in the trap's
+   * signature. For parameters passed by reference, the data contains the
+   * contents of the buffer after the trap returns. */
+  params: Array<DlpRPCParamType> = [];
+
+  serialize(opts?: SerializeOptions): Buffer {
+    const header = Buffer.alloc(4);
+    header.writeUInt8(this.funcId | 0x80, 0);
+    header.writeUInt8(this.errorCode === DlpRespErrorCode.NONE ? 1 : 0, 1);
+    header.writeUInt16BE(this.errorCode, 2);
+    return this.errorCode === DlpRespErrorCode.NONE
+      ? Buffer.concat([
+          header,
+          toRpcPacket(DLP_RPC_REPLY_TYPE, this).serialize(opts),
+        ])
+      : header;
+  }
+
+  deserialize(buffer: Buffer, opts?: DeserializeOptions): number {
+    const actualFuncId = buffer.readUInt8(0) & ~0x80;
+    if (actualFuncId !== this.funcId) {
+      throw new Error(
+        `Function ID mismatch in ${this.constructor.name}: ` +
+          `expected 0x${this.funcId.toString(16).padStart(2, '0')}, ` +
+          `got 0x${actualFuncId.toString(16).padStart(2, '0')}`
+      );
+    }
+    this.errorCode = buffer.readUInt16BE(2);
+    if (this.errorCode !== DlpRespErrorCode.NONE) {
+      return 4;
+    }
+    const packet = new DlpRPCPacketType();
+    const offset = 4 + packet.deserialize(buffer.subarray(4), opts);
+    if (packet.type !== DLP_RPC_REPLY_TYPE) {
+      throw new Error(
+        `Invalid RPC reply type: 0x${packet.type.toString(16).padStart(2, '0')}`
+      );
+    }
+    fromRpcPacket(packet, this);
+    return offset;
+  }
+
+  getSerializedLength(opts?: SerializeOptions): number {
+    return (
+      4 +
+      (this.errorCode === DlpRespErrorCode.NONE
+        ? toRpcPacket(DLP_RPC_REPLY_TYPE, this).getSerializedLength(opts)
+        : 0)
+    );
+  }
+
+  toJSON(): Object {
+    const {funcId, errorCode, errorMessage} = this;
+    return {funcId, errorCode, errorMessage, ...rpcToJSON(this)};
+  }
+}
+
+/** Fields shared by ProcessRPC requests and responses. */
+type DlpRPCFields = Pick<DlpProcessRPCReqType, 'trap' | 'd0' | 'a0' | 'params'>;
+
+function toRpcPacket(type: number, {trap, d0, a0, params}: DlpRPCFields) {
+  return DlpRPCPacketType.with({
+    type,
+    trap,
+    d0,
+    a0,
+    params: [...params].reverse(),
+  });
+}
+
+function fromRpcPacket(packet: DlpRPCPacketType, target: DlpRPCFields) {
+  target.trap = packet.trap;
+  target.d0 = packet.d0;
+  target.a0 = packet.a0;
+  target.params = [...packet.params].reverse();
+}
+
+function rpcToJSON({trap, d0, a0, params}: DlpRPCFields) {
+  return {
+    trap: `0x${trap.toString(16)}`,
+    d0,
+    a0,
+    params: params.map(({byRef, data}) => ({
+      byRef: !!byRef,
+      data: data.toString('hex'),
+    })),
+  };
+}
+
 // =============================================================================
 // OpenConduit (0x2e)
 //		This command is sent before each conduit is opened by the desktop.
@@ -3034,7 +3336,8 @@ export class DlpSetDBInfoReqType extends DlpRequest<DlpSetDBInfoRespType> {
   name = '';
 }
 
-const DLP_SET_DB_INFO_NO_VERSION_CHANGE = 0xffff;
+/** Value of dbVersion in SetDBInfo that leaves the version unchanged. */
+export const DLP_SET_DB_INFO_NO_VERSION_CHANGE = 0xffff;
 
 /** DLP response for {@link DlpSetDBInfoReqType}. */
 export class DlpSetDBInfoRespType extends DlpResponse {
@@ -3082,6 +3385,1526 @@ export class DlpLoopBackTestRespType extends DlpResponse {
   data: Buffer = Buffer.alloc(0);
 }
 
+// =============================================================================
+// ExpSlotEnumerate (0x3c)
+// =============================================================================
+/** DLP request to get the list of expansion slots on the device.
+ *
+ * DLP 1.3 (PalmOS v4.0 and above)
+ *
+ * Error codes:
+ *   - SYSTEM
+ *   - MEMORY
+ *   - NOT_SUPPORTED
+ */
+export class DlpExpSlotEnumerateReqType extends DlpRequest<DlpExpSlotEnumerateRespType> {
+  funcId = DlpFuncId.ExpSlotEnumerate;
+  responseType = DlpExpSlotEnumerateRespType;
+}
+
+/** DLP response for {@link DlpExpSlotEnumerateReqType}. */
+export class DlpExpSlotEnumerateRespType extends DlpResponse {
+  funcId = DlpFuncId.ExpSlotEnumerate;
+
+  /** Single argument to DlpExpSlotEnumerateRespType. */
+  @dlpArg(0, SDynamicArray.of(SUInt16BE, SUInt16BE))
+  private slotRefWrappers: Array<SUInt16BE> = [];
+
+  /** Slot reference numbers, to be used with other Exp* requests. */
+  get slotRefs() {
+    return this.slotRefWrappers.map(({value}) => value);
+  }
+
+  set slotRefs(values: Array<number>) {
+    this.slotRefWrappers = values.map((value) => SUInt16BE.of(value));
+  }
+}
+
+// =============================================================================
+// ExpCardPresent (0x3d)
+// =============================================================================
+/** DLP request to check whether a card is present in an expansion slot.
+ *
+ * DLP 1.3 (PalmOS v4.0 and above)
+ *
+ * Error codes:
+ *   - SYSTEM
+ *   - MEMORY
+ *   - PARAM
+ *   - NOT_FOUND (no card present in slot)
+ *   - NOT_SUPPORTED
+ */
+export class DlpExpCardPresentReqType extends DlpRequest<DlpExpCardPresentRespType> {
+  funcId = DlpFuncId.ExpCardPresent;
+  responseType = DlpExpCardPresentRespType;
+
+  /** Slot reference number, as returned by {@link DlpExpSlotEnumerateReqType}. */
+  @dlpArg(0, SUInt16BE)
+  slotRef = 0;
+}
+
+/** DLP response for {@link DlpExpCardPresentReqType}. */
+export class DlpExpCardPresentRespType extends DlpResponse {
+  funcId = DlpFuncId.ExpCardPresent;
+}
+
+// =============================================================================
+// ExpCardInfo (0x3e)
+// =============================================================================
+/** DLP request to get information about the card in an expansion slot.
+ *
+ * DLP 1.3 (PalmOS v4.0 and above)
+ *
+ * Error codes:
+ *   - SYSTEM
+ *   - MEMORY
+ *   - PARAM
+ *   - NOT_FOUND (no card present in slot)
+ *   - NOT_SUPPORTED
+ */
+export class DlpExpCardInfoReqType extends DlpRequest<DlpExpCardInfoRespType> {
+  funcId = DlpFuncId.ExpCardInfo;
+  responseType = DlpExpCardInfoRespType;
+
+  /** Slot reference number, as returned by {@link DlpExpSlotEnumerateReqType}. */
+  @dlpArg(0, SUInt16BE)
+  slotRef = 0;
+}
+
+/** Expansion card capability flags.
+ *
+ * References:
+ *   - https://github.com/jichu4n/palm-os-sdk/blob/master/sdk-5r3/include/Core/System/ExpansionMgr.h
+ */
+export class DlpExpCardCapabilityFlags extends SBitmask.of(SUInt32BE) {
+  @bitfield(29)
+  private padding1 = 0;
+  /** Card supports serial (SDIO) interface (expCapabilitySerial). */
+  @bitfield(1)
+  serial = false;
+  /** Card is read only (expCapabilityReadOnly). */
+  @bitfield(1)
+  readOnly = false;
+  /** Card supports reading and writing (expCapabilityHasStorage). */
+  @bitfield(1)
+  hasStorage = false;
+}
+
+/** DLP response for {@link DlpExpCardInfoReqType}. */
+export class DlpExpCardInfoRespType extends DlpResponse {
+  funcId = DlpFuncId.ExpCardInfo;
+
+  /** Card capabilities. */
+  @dlpArg(0)
+  capabilityFlags = new DlpExpCardCapabilityFlags();
+
+  /** Name of the manufacturer of the card. */
+  manufacturer = '';
+
+  /** Name of the product. */
+  product = '';
+
+  /** Device class, e.g. "Ethernet" or "Backup". */
+  deviceClass = '';
+
+  /** Unique identifier for the product, e.g. a serial number. */
+  deviceUniqueId = '';
+
+  /** Number of strings in stringsBuffer. */
+  @dlpArg(0, SUInt16BE)
+  private numStrings = 0;
+
+  @dlpArg(0, SUInt16BE)
+  private padding1 = 0;
+
+  /** Packed NUL-terminated strings, in the order of the properties above. */
+  @dlpArg(0, SBuffer)
+  private stringsBuffer = Buffer.alloc(0);
+
+  serialize(opts?: SerializeOptions): Buffer {
+    const strings = [
+      this.manufacturer,
+      this.product,
+      this.deviceClass,
+      this.deviceUniqueId,
+    ];
+    this.numStrings = strings.length;
+    this.stringsBuffer = Buffer.concat(
+      strings.map((s) => SStringNT.of(s).serialize(opts))
+    );
+    return super.serialize(opts);
+  }
+
+  deserialize(buffer: Buffer, opts?: DeserializeOptions): number {
+    const offset = super.deserialize(buffer, opts);
+    const strings: Array<string> = [];
+    let stringsOffset = 0;
+    while (
+      strings.length < this.numStrings &&
+      stringsOffset < this.stringsBuffer.length
+    ) {
+      const s = new SStringNT();
+      stringsOffset += s.deserialize(
+        this.stringsBuffer.subarray(stringsOffset),
+        opts
+      );
+      strings.push(s.value);
+    }
+    [
+      this.manufacturer = '',
+      this.product = '',
+      this.deviceClass = '',
+      this.deviceUniqueId = '',
+    ] = strings;
+    return offset;
+  }
+
+  getSerializedLength(opts?: SerializeOptions): number {
+    return (
+      super.getSerializedLength(opts) -
+      this.stringsBuffer.length +
+      [
+        this.manufacturer,
+        this.product,
+        this.deviceClass,
+        this.deviceUniqueId,
+      ].reduce(
+        (total, s) => total + SStringNT.of(s).getSerializedLength(opts),
+        0
+      )
+    );
+  }
+
+  toJSON() {
+    const {manufacturer, product, deviceClass, deviceUniqueId} = this;
+    return {
+      ...super.toJSON(),
+      manufacturer,
+      product,
+      deviceClass,
+      deviceUniqueId,
+    };
+  }
+}
+
+// =============================================================================
+// VFSGetDefaultDir (0x40)
+// =============================================================================
+/** DLP request to get the default directory on a VFS volume for a file type.
+ *
+ * DLP 1.3 (PalmOS v4.0 and above)
+ *
+ * Error codes:
+ *   - SYSTEM
+ *   - PARAM
+ *   - NOT_FOUND
+ *   - NOT_SUPPORTED
+ */
+export class DlpVFSGetDefaultDirReqType extends DlpRequest<DlpVFSGetDefaultDirRespType> {
+  funcId = DlpFuncId.VFSGetDefaultDir;
+  responseType = DlpVFSGetDefaultDirRespType;
+
+  /** Volume reference number, as returned by {@link DlpVFSVolumeEnumerateReqType}. */
+  @dlpArg(0, SUInt16BE)
+  volRefNum = 0;
+
+  /** File name extension such as ".prc", or MIME type such as "image/jpeg". */
+  @dlpArg(0, SStringNT)
+  fileType = '';
+}
+
+/** DLP response for {@link DlpVFSGetDefaultDirReqType}. */
+export class DlpVFSGetDefaultDirRespType extends DlpResponse {
+  funcId = DlpFuncId.VFSGetDefaultDir;
+
+  /** Full path of the default directory. */
+  path = '';
+
+  /** Size of path string. */
+  @dlpArg(0, SUInt16BE)
+  private pathSize = 0;
+
+  /** Path string data. */
+  @dlpArg(0, SBuffer)
+  private pathData: Buffer = Buffer.alloc(0);
+
+  serialize(opts?: SerializeOptions): Buffer {
+    this.pathData = SStringNT.of(this.path).serialize(opts);
+    this.pathSize = this.pathData.length;
+    return super.serialize(opts);
+  }
+
+  deserialize(buffer: Buffer, opts?: DeserializeOptions): number {
+    const offset = super.deserialize(buffer, opts);
+    this.path = SStringNT.from(
+      this.pathData.subarray(0, this.pathSize),
+      opts
+    ).value;
+    return offset;
+  }
+
+  getSerializedLength(opts?: SerializeOptions): number {
+    return (
+      super.getSerializedLength(opts) -
+      this.pathData.length +
+      SStringNT.of(this.path).getSerializedLength(opts)
+    );
+  }
+}
+
+// =============================================================================
+// VFSImportDatabaseFromFile (0x41)
+// =============================================================================
+/** DLP request to install a PDB / PRC file on a VFS volume into RAM.
+ *
+ * DLP 1.3 (PalmOS v4.0 and above)
+ *
+ * Error codes:
+ *   - SYSTEM
+ *   - PARAM
+ *   - NOT_FOUND
+ *   - ALREADY_EXISTS
+ *   - NOT_ENOUGH_SPACE
+ *   - NOT_SUPPORTED
+ */
+export class DlpVFSImportDatabaseFromFileReqType extends DlpRequest<DlpVFSImportDatabaseFromFileRespType> {
+  funcId = DlpFuncId.VFSImportDatabaseFromFile;
+  responseType = DlpVFSImportDatabaseFromFileRespType;
+
+  /** Volume reference number, as returned by {@link DlpVFSVolumeEnumerateReqType}. */
+  @dlpArg(0, SUInt16BE)
+  volRefNum = 0;
+
+  /** Full path of the PDB / PRC file to import. */
+  @dlpArg(0, SStringNT)
+  path = '';
+}
+
+/** DLP response for {@link DlpVFSImportDatabaseFromFileReqType}. */
+export class DlpVFSImportDatabaseFromFileRespType extends DlpResponse {
+  funcId = DlpFuncId.VFSImportDatabaseFromFile;
+
+  /** Card number of the imported database. */
+  @dlpArg(0, SUInt16BE)
+  cardNo = 0;
+
+  /** LocalId of the imported database. */
+  @dlpArg(0, LocalId)
+  localId = 0;
+}
+
+// =============================================================================
+// VFSExportDatabaseToFile (0x42)
+// =============================================================================
+/** DLP request to save a database in RAM as a PDB / PRC file on a VFS volume.
+ *
+ * DLP 1.3 (PalmOS v4.0 and above)
+ *
+ * Error codes:
+ *   - SYSTEM
+ *   - PARAM
+ *   - NOT_FOUND
+ *   - ALREADY_EXISTS
+ *   - READ_ONLY
+ *   - NOT_ENOUGH_SPACE
+ *   - NOT_SUPPORTED
+ */
+export class DlpVFSExportDatabaseToFileReqType extends DlpRequest<DlpVFSExportDatabaseToFileRespType> {
+  funcId = DlpFuncId.VFSExportDatabaseToFile;
+  responseType = DlpVFSExportDatabaseToFileRespType;
+
+  /** Volume reference number, as returned by {@link DlpVFSVolumeEnumerateReqType}. */
+  @dlpArg(0, SUInt16BE)
+  volRefNum = 0;
+
+  /** Card number of the database to export. */
+  @dlpArg(0, SUInt16BE)
+  cardNo = 0;
+
+  /** LocalId of the database to export, as returned by {@link DlpFindDBByNameReqType}. */
+  @dlpArg(0, LocalId)
+  localId = 0;
+
+  /** Full path of the PDB / PRC file to create. */
+  @dlpArg(0, SStringNT)
+  path = '';
+}
+
+/** DLP response for {@link DlpVFSExportDatabaseToFileReqType}. */
+export class DlpVFSExportDatabaseToFileRespType extends DlpResponse {
+  funcId = DlpFuncId.VFSExportDatabaseToFile;
+}
+
+// =============================================================================
+// VFSFileCreate (0x43)
+// =============================================================================
+/** DLP request to create an empty file on a VFS volume.
+ *
+ * DLP 1.3 (PalmOS v4.0 and above)
+ *
+ * Error codes:
+ *   - SYSTEM
+ *   - PARAM
+ *   - ALREADY_EXISTS
+ *   - NOT_FOUND (parent directory does not exist)
+ *   - READ_ONLY
+ *   - NOT_ENOUGH_SPACE
+ *   - NOT_SUPPORTED
+ */
+export class DlpVFSFileCreateReqType extends DlpRequest<DlpVFSFileCreateRespType> {
+  funcId = DlpFuncId.VFSFileCreate;
+  responseType = DlpVFSFileCreateRespType;
+
+  /** Volume reference number, as returned by {@link DlpVFSVolumeEnumerateReqType}. */
+  @dlpArg(0, SUInt16BE)
+  volRefNum = 0;
+
+  /** Full path of the file to create. */
+  @dlpArg(0, SStringNT)
+  path = '';
+}
+
+/** DLP response for {@link DlpVFSFileCreateReqType}. */
+export class DlpVFSFileCreateRespType extends DlpResponse {
+  funcId = DlpFuncId.VFSFileCreate;
+}
+
+// =============================================================================
+// VFSFileOpen (0x44)
+// =============================================================================
+/** DLP request to open a file or directory on a VFS volume.
+ *
+ * DLP 1.3 (PalmOS v4.0 and above)
+ *
+ * Error codes:
+ *   - SYSTEM
+ *   - PARAM
+ *   - NOT_FOUND
+ *   - READ_ONLY
+ *   - NOT_SUPPORTED
+ */
+export class DlpVFSFileOpenReqType extends DlpRequest<DlpVFSFileOpenRespType> {
+  funcId = DlpFuncId.VFSFileOpen;
+  responseType = DlpVFSFileOpenRespType;
+
+  /** Volume reference number, as returned by {@link DlpVFSVolumeEnumerateReqType}. */
+  @dlpArg(0, SUInt16BE)
+  volRefNum = 0;
+
+  /** Open mode. */
+  @dlpArg(0)
+  openMode = DlpVFSOpenMode.with({read: true});
+
+  /** Full path of the file or directory, e.g. "/PALM/Launcher". */
+  @dlpArg(0, SStringNT)
+  path = '';
+}
+
+/** VFS file open mode flags.
+ *
+ * References:
+ *   - https://github.com/jichu4n/palm-os-sdk/blob/master/sdk-5r3/include/Core/System/VFSMgr.h
+ */
+export class DlpVFSOpenMode extends SBitmask.of(SUInt16BE) {
+  @bitfield(10)
+  private padding1 = 0;
+  /** Leave file open even if the application exits (vfsModeLeaveOpen). */
+  @bitfield(1)
+  leaveOpen = false;
+  /** Truncate file to 0 bytes after opening (vfsModeTruncate). */
+  @bitfield(1)
+  truncate = false;
+  /** Create file if it doesn't exist (vfsModeCreate). */
+  @bitfield(1)
+  create = false;
+  /** Open for write access (vfsModeWrite); implies exclusive. */
+  @bitfield(1)
+  write = false;
+  /** Open for read access (vfsModeRead). */
+  @bitfield(1)
+  read = false;
+  /** Don't let anyone else open the file (vfsModeExclusive). */
+  @bitfield(1)
+  exclusive = false;
+}
+
+/** DLP response for {@link DlpVFSFileOpenReqType}. */
+export class DlpVFSFileOpenRespType extends DlpResponse {
+  funcId = DlpFuncId.VFSFileOpen;
+
+  /** Reference to the opened file or directory. */
+  @dlpArg(0, SUInt32BE)
+  fileRef = 0;
+}
+
+// =============================================================================
+// VFSFileClose (0x45)
+// =============================================================================
+/** DLP request to close a file or directory on a VFS volume.
+ *
+ * DLP 1.3 (PalmOS v4.0 and above)
+ *
+ * Error codes:
+ *   - SYSTEM
+ *   - PARAM
+ *   - NOT_SUPPORTED
+ */
+export class DlpVFSFileCloseReqType extends DlpRequest<DlpVFSFileCloseRespType> {
+  funcId = DlpFuncId.VFSFileClose;
+  responseType = DlpVFSFileCloseRespType;
+
+  /** Reference to the opened file or directory. */
+  @dlpArg(0, SUInt32BE)
+  fileRef = 0;
+}
+
+/** DLP response for {@link DlpVFSFileCloseReqType}. */
+export class DlpVFSFileCloseRespType extends DlpResponse {
+  funcId = DlpFuncId.VFSFileClose;
+}
+
+// =============================================================================
+// VFSFileWrite (0x46)
+// =============================================================================
+/** DLP request to write data to an open file on a VFS volume.
+ *
+ * Unlike other DLP commands, the file data is not included in the request.
+ * The exchange works as follows:
+ *
+ *   1. Desktop sends this request, and the device sends back a response.
+ *   2. Desktop sends the file data as raw transport messages with
+ *      `DlpConnection.writeRawData()`.
+ *   3. Device sends back a second response indicating the result of the
+ *      write, which can be read with `DlpConnection.readResponse()`.
+ *
+ * DLP 1.3 (PalmOS v4.0 and above)
+ *
+ * Error codes:
+ *   - SYSTEM
+ *   - PARAM
+ *   - READ_ONLY
+ *   - NOT_ENOUGH_SPACE
+ *   - NOT_SUPPORTED
+ */
+export class DlpVFSFileWriteReqType extends DlpRequest<DlpVFSFileWriteRespType> {
+  funcId = DlpFuncId.VFSFileWrite;
+  responseType = DlpVFSFileWriteRespType;
+
+  /** Reference to the opened file. */
+  @dlpArg(0, SUInt32BE)
+  fileRef = 0;
+
+  /** Number of bytes of file data that will follow this request. */
+  @dlpArg(0, SUInt32BE)
+  numBytes = 0;
+}
+
+/** DLP response for {@link DlpVFSFileWriteReqType}. */
+export class DlpVFSFileWriteRespType extends DlpResponse {
+  funcId = DlpFuncId.VFSFileWrite;
+
+  /** Number of bytes written (second response only). */
+  @optDlpArg(0, SUInt32BE)
+  numBytes = 0;
+}
+
+// =============================================================================
+// VFSFileRead (0x47)
+// =============================================================================
+/** DLP request to read data from an open file on a VFS volume.
+ *
+ * Unlike other DLP commands, the file data is not included in the response.
+ * Instead, the device sends the data as raw transport messages following the
+ * response, which can be read with `DlpConnection.readRawData()`.
+ *
+ * DLP 1.3 (PalmOS v4.0 and above)
+ *
+ * Error codes:
+ *   - SYSTEM
+ *   - PARAM
+ *   - NOT_FOUND
+ *   - NOT_SUPPORTED
+ */
+export class DlpVFSFileReadReqType extends DlpRequest<DlpVFSFileReadRespType> {
+  funcId = DlpFuncId.VFSFileRead;
+  responseType = DlpVFSFileReadRespType;
+
+  /** Reference to the opened file. */
+  @dlpArg(0, SUInt32BE)
+  fileRef = 0;
+
+  /** Maximum number of bytes to read. */
+  @dlpArg(0, SUInt32BE)
+  numBytes = 0;
+}
+
+/** DLP response for {@link DlpVFSFileReadReqType}. */
+export class DlpVFSFileReadRespType extends DlpResponse {
+  funcId = DlpFuncId.VFSFileRead;
+
+  /** Number of bytes of file data that will follow this response. */
+  @dlpArg(0, SUInt32BE)
+  numBytes = 0;
+}
+
+// =============================================================================
+// VFSFileDelete (0x48)
+// =============================================================================
+/** DLP request to delete a file or empty directory on a VFS volume.
+ *
+ * DLP 1.3 (PalmOS v4.0 and above)
+ *
+ * Error codes:
+ *   - SYSTEM
+ *   - PARAM
+ *   - NOT_FOUND
+ *   - READ_ONLY
+ *   - DATABASE_OPEN (file is open)
+ *   - NOT_SUPPORTED
+ */
+export class DlpVFSFileDeleteReqType extends DlpRequest<DlpVFSFileDeleteRespType> {
+  funcId = DlpFuncId.VFSFileDelete;
+  responseType = DlpVFSFileDeleteRespType;
+
+  /** Volume reference number, as returned by {@link DlpVFSVolumeEnumerateReqType}. */
+  @dlpArg(0, SUInt16BE)
+  volRefNum = 0;
+
+  /** Full path of the file or directory to delete. */
+  @dlpArg(0, SStringNT)
+  path = '';
+}
+
+/** DLP response for {@link DlpVFSFileDeleteReqType}. */
+export class DlpVFSFileDeleteRespType extends DlpResponse {
+  funcId = DlpFuncId.VFSFileDelete;
+}
+
+// =============================================================================
+// VFSFileRename (0x49)
+// =============================================================================
+/** DLP request to rename a file or directory on a VFS volume.
+ *
+ * The file stays in the same directory; newName cannot contain a path.
+ *
+ * DLP 1.3 (PalmOS v4.0 and above)
+ *
+ * Error codes:
+ *   - SYSTEM
+ *   - PARAM
+ *   - NOT_FOUND
+ *   - ALREADY_EXISTS
+ *   - READ_ONLY
+ *   - NOT_SUPPORTED
+ */
+export class DlpVFSFileRenameReqType extends DlpRequest<DlpVFSFileRenameRespType> {
+  funcId = DlpFuncId.VFSFileRename;
+  responseType = DlpVFSFileRenameRespType;
+
+  /** Volume reference number, as returned by {@link DlpVFSVolumeEnumerateReqType}. */
+  @dlpArg(0, SUInt16BE)
+  volRefNum = 0;
+
+  /** Number of names that follow; always 2. */
+  @dlpArg(0, SUInt16BE)
+  private numNames = 2;
+
+  /** Full path of the file or directory to rename. */
+  @dlpArg(0, SStringNT)
+  path = '';
+
+  /** New name of the file or directory. */
+  @dlpArg(0, SStringNT)
+  newName = '';
+}
+
+/** DLP response for {@link DlpVFSFileRenameReqType}. */
+export class DlpVFSFileRenameRespType extends DlpResponse {
+  funcId = DlpFuncId.VFSFileRename;
+}
+
+// =============================================================================
+// VFSFileSetAttributes (0x4d)
+// =============================================================================
+/** DLP request to set the attributes of an open file on a VFS volume.
+ *
+ * DLP 1.3 (PalmOS v4.0 and above)
+ *
+ * Error codes:
+ *   - SYSTEM
+ *   - PARAM
+ *   - READ_ONLY
+ *   - NOT_SUPPORTED
+ */
+export class DlpVFSFileSetAttributesReqType extends DlpRequest<DlpVFSFileSetAttributesRespType> {
+  funcId = DlpFuncId.VFSFileSetAttributes;
+  responseType = DlpVFSFileSetAttributesRespType;
+
+  /** Reference to the opened file. */
+  @dlpArg(0, SUInt32BE)
+  fileRef = 0;
+
+  /** New file attributes. */
+  @dlpArg(0)
+  attributes = new DlpVFSFileAttrs();
+}
+
+/** DLP response for {@link DlpVFSFileSetAttributesReqType}. */
+export class DlpVFSFileSetAttributesRespType extends DlpResponse {
+  funcId = DlpFuncId.VFSFileSetAttributes;
+}
+
+// =============================================================================
+// VFSFileSetDate (0x4f)
+// =============================================================================
+/** DLP request to set a timestamp of an open file on a VFS volume.
+ *
+ * DLP 1.3 (PalmOS v4.0 and above)
+ *
+ * Error codes:
+ *   - SYSTEM
+ *   - PARAM
+ *   - READ_ONLY
+ *   - NOT_SUPPORTED
+ */
+export class DlpVFSFileSetDateReqType extends DlpRequest<DlpVFSFileSetDateRespType> {
+  funcId = DlpFuncId.VFSFileSetDate;
+  responseType = DlpVFSFileSetDateRespType;
+
+  /** Reference to the opened file. */
+  @dlpArg(0, SUInt32BE)
+  fileRef = 0;
+
+  /** Which timestamp to set. */
+  @dlpArg(0, SUInt16BE)
+  whichDate = DlpVFSFileDateType.MODIFIED;
+
+  /** New timestamp. */
+  @dlpArg(0, DatabaseTimestamp)
+  date = new Date(PDB_EPOCH);
+}
+
+/** Timestamp selector for {@link DlpVFSFileSetDateReqType}. */
+export enum DlpVFSFileDateType {
+  /** Creation date (vfsFileDateCreated). */
+  CREATED = 1,
+  /** Last modification date (vfsFileDateModified). */
+  MODIFIED = 2,
+  /** Last access date (vfsFileDateAccessed). */
+  ACCESSED = 3,
+}
+
+/** DLP response for {@link DlpVFSFileSetDateReqType}. */
+export class DlpVFSFileSetDateRespType extends DlpResponse {
+  funcId = DlpFuncId.VFSFileSetDate;
+}
+
+// =============================================================================
+// VFSDirCreate (0x50)
+// =============================================================================
+/** DLP request to create a directory on a VFS volume.
+ *
+ * DLP 1.3 (PalmOS v4.0 and above)
+ *
+ * Error codes:
+ *   - SYSTEM
+ *   - PARAM
+ *   - ALREADY_EXISTS
+ *   - NOT_FOUND (parent directory does not exist)
+ *   - READ_ONLY
+ *   - NOT_ENOUGH_SPACE
+ *   - NOT_SUPPORTED
+ */
+export class DlpVFSDirCreateReqType extends DlpRequest<DlpVFSDirCreateRespType> {
+  funcId = DlpFuncId.VFSDirCreate;
+  responseType = DlpVFSDirCreateRespType;
+
+  /** Volume reference number, as returned by {@link DlpVFSVolumeEnumerateReqType}. */
+  @dlpArg(0, SUInt16BE)
+  volRefNum = 0;
+
+  /** Full path of the directory to create. */
+  @dlpArg(0, SStringNT)
+  path = '';
+}
+
+/** DLP response for {@link DlpVFSDirCreateReqType}. */
+export class DlpVFSDirCreateRespType extends DlpResponse {
+  funcId = DlpFuncId.VFSDirCreate;
+}
+
+// =============================================================================
+// VFSDirEntryEnumerate (0x51)
+// =============================================================================
+/** DLP request to enumerate entries in an open directory on a VFS volume.
+ *
+ * DLP 1.3 (PalmOS v4.0 and above)
+ *
+ * Error codes:
+ *   - SYSTEM
+ *   - PARAM
+ *   - NOT_FOUND
+ *   - NOT_SUPPORTED
+ */
+export class DlpVFSDirEntryEnumerateReqType extends DlpRequest<DlpVFSDirEntryEnumerateRespType> {
+  funcId = DlpFuncId.VFSDirEntryEnumerate;
+  responseType = DlpVFSDirEntryEnumerateRespType;
+
+  /** Reference to the opened directory. */
+  @dlpArg(0, SUInt32BE)
+  dirRef = 0;
+
+  /** Iterator returned by the previous response, or
+   * DLP_VFS_ITERATOR_START to start from the first entry. */
+  @dlpArg(0, SUInt32BE)
+  dirIterator = DLP_VFS_ITERATOR_START;
+
+  /** Maximum size of the response buffer. */
+  @dlpArg(0, SUInt32BE)
+  bufferSize = 0xffff;
+}
+
+/** Value of dirIterator for starting an enumeration. */
+export const DLP_VFS_ITERATOR_START = 0;
+/** Value of dirIterator indicating there are no more entries. */
+export const DLP_VFS_ITERATOR_STOP = 0xffffffff;
+
+/** VFS file attribute flags.
+ *
+ * References:
+ *   - https://github.com/jichu4n/palm-os-sdk/blob/master/sdk-5r3/include/Core/System/VFSMgr.h
+ */
+export class DlpVFSFileAttrs extends SBitmask.of(SUInt32BE) {
+  @bitfield(25)
+  private padding1 = 0;
+  /** File is a link (vfsFileAttrLink). */
+  @bitfield(1)
+  link = false;
+  /** File is archived (vfsFileAttrArchive). */
+  @bitfield(1)
+  archive = false;
+  /** File is a directory (vfsFileAttrDirectory). */
+  @bitfield(1)
+  directory = false;
+  /** File is the volume label (vfsFileAttrVolumeLabel). */
+  @bitfield(1)
+  volumeLabel = false;
+  /** File is a system file (vfsFileAttrSystem). */
+  @bitfield(1)
+  system = false;
+  /** File is hidden (vfsFileAttrHidden). */
+  @bitfield(1)
+  hidden = false;
+  /** File is read only (vfsFileAttrReadOnly). */
+  @bitfield(1)
+  readOnly = false;
+}
+
+/** Directory entry, used in {@link DlpVFSDirEntryEnumerateRespType}. */
+export class DlpVFSDirEntryType extends SObject {
+  /** File attributes. */
+  @field()
+  attributes = new DlpVFSFileAttrs();
+
+  /** File name. */
+  @field(SStringNT)
+  name = '';
+
+  // Entries are padded to an even length.
+
+  deserialize(buffer: Buffer, opts?: DeserializeOptions): number {
+    const offset = super.deserialize(buffer, opts);
+    return offset + (offset % 2);
+  }
+
+  serialize(opts?: SerializeOptions): Buffer {
+    const buffer = super.serialize(opts);
+    return buffer.length % 2
+      ? Buffer.concat([buffer, Buffer.alloc(1)])
+      : buffer;
+  }
+
+  getSerializedLength(opts?: SerializeOptions): number {
+    const length = super.getSerializedLength(opts);
+    return length + (length % 2);
+  }
+}
+
+/** DLP response for {@link DlpVFSDirEntryEnumerateReqType}. */
+export class DlpVFSDirEntryEnumerateRespType extends DlpResponse {
+  funcId = DlpFuncId.VFSDirEntryEnumerate;
+
+  /** Iterator to pass to the next request, or DLP_VFS_ITERATOR_STOP if there
+   * are no more entries. */
+  @dlpArg(0, SUInt32BE)
+  dirIterator = DLP_VFS_ITERATOR_STOP;
+
+  /** Directory entries. */
+  @dlpArg(0, SDynamicArray.of(SUInt32BE, DlpVFSDirEntryType))
+  entries: Array<DlpVFSDirEntryType> = [];
+}
+
+// =============================================================================
+// VFSVolumeFormat (0x54)
+// =============================================================================
+/** DLP request to format a VFS volume.
+ *
+ * All data on the volume will be erased. The volume is remounted afterwards
+ * and will typically have a different volume reference number.
+ *
+ * DLP 1.3 (PalmOS v4.0 and above)
+ *
+ * Error codes:
+ *   - SYSTEM
+ *   - PARAM
+ *   - NOT_FOUND
+ *   - READ_ONLY
+ *   - NOT_SUPPORTED
+ */
+export class DlpVFSVolumeFormatReqType extends DlpRequest<DlpVFSVolumeFormatRespType> {
+  funcId = DlpFuncId.VFSVolumeFormat;
+  responseType = DlpVFSVolumeFormatRespType;
+
+  /** File system library to use, or 0 to let the VFS Manager pick. */
+  @dlpArg(0, SUInt16BE)
+  fsLibRefNum = 0;
+
+  /** Size of the mount parameters below. */
+  @dlpArg(0, SUInt16BE)
+  private mountParamSize = 12;
+
+  /** Format flags. */
+  @dlpArg(0, SUInt8)
+  flags = 0;
+
+  @dlpArg(0, SUInt8)
+  private padding1 = 0;
+
+  /** Volume reference number of the volume to format. */
+  @dlpArg(0, SUInt16BE)
+  volRefNum = 0;
+
+  @dlpArg(0, SUInt16BE)
+  private reserved = 0;
+
+  /** Mount class, as returned by {@link DlpVFSVolumeInfoReqType}. */
+  @dlpArg(0, TypeId)
+  mountClass = 'libs';
+
+  /** Slot driver library reference number, as returned by
+   * {@link DlpVFSVolumeInfoReqType}. */
+  @dlpArg(0, SUInt16BE)
+  slotLibRefNum = 0;
+
+  /** Slot reference number, as returned by {@link DlpVFSVolumeInfoReqType}. */
+  @dlpArg(0, SUInt16BE)
+  slotRefNum = 0;
+}
+
+/** DLP response for {@link DlpVFSVolumeFormatReqType}. */
+export class DlpVFSVolumeFormatRespType extends DlpResponse {
+  funcId = DlpFuncId.VFSVolumeFormat;
+}
+
+// =============================================================================
+// VFSVolumeEnumerate (0x55)
+// =============================================================================
+/** DLP request to get the list of mounted VFS volumes.
+ *
+ * DLP 1.3 (PalmOS v4.0 and above)
+ *
+ * Error codes:
+ *   - SYSTEM
+ *   - MEMORY
+ *   - NOT_FOUND (no volumes mounted)
+ *   - NOT_SUPPORTED
+ */
+export class DlpVFSVolumeEnumerateReqType extends DlpRequest<DlpVFSVolumeEnumerateRespType> {
+  funcId = DlpFuncId.VFSVolumeEnumerate;
+  responseType = DlpVFSVolumeEnumerateRespType;
+}
+
+/** DLP response for {@link DlpVFSVolumeEnumerateReqType}. */
+export class DlpVFSVolumeEnumerateRespType extends DlpResponse {
+  funcId = DlpFuncId.VFSVolumeEnumerate;
+
+  /** Single argument to DlpVFSVolumeEnumerateRespType. */
+  @dlpArg(0, SDynamicArray.of(SUInt16BE, SUInt16BE))
+  private volRefNumWrappers: Array<SUInt16BE> = [];
+
+  /** Volume reference numbers, to be used with other VFS* requests. */
+  get volRefNums() {
+    return this.volRefNumWrappers.map(({value}) => value);
+  }
+
+  set volRefNums(values: Array<number>) {
+    this.volRefNumWrappers = values.map((value) => SUInt16BE.of(value));
+  }
+}
+
+// =============================================================================
+// VFSVolumeInfo (0x56)
+// =============================================================================
+/** DLP request to get information about a VFS volume.
+ *
+ * DLP 1.3 (PalmOS v4.0 and above)
+ *
+ * Error codes:
+ *   - SYSTEM
+ *   - PARAM
+ *   - NOT_FOUND
+ *   - NOT_SUPPORTED
+ */
+export class DlpVFSVolumeInfoReqType extends DlpRequest<DlpVFSVolumeInfoRespType> {
+  funcId = DlpFuncId.VFSVolumeInfo;
+  responseType = DlpVFSVolumeInfoRespType;
+
+  /** Volume reference number, as returned by {@link DlpVFSVolumeEnumerateReqType}. */
+  @dlpArg(0, SUInt16BE)
+  volRefNum = 0;
+}
+
+/** VFS volume attribute flags.
+ *
+ * References:
+ *   - https://github.com/jichu4n/palm-os-sdk/blob/master/sdk-5r3/include/Core/System/VFSMgr.h
+ */
+export class DlpVFSVolumeAttrs extends SBitmask.of(SUInt32BE) {
+  @bitfield(29)
+  private padding1 = 0;
+  /** Volume should not be displayed to the user (vfsVolumeAttrHidden). */
+  @bitfield(1)
+  hidden = false;
+  /** Volume is read only (vfsVolumeAttrReadOnly). */
+  @bitfield(1)
+  readOnly = false;
+  /** Volume is associated with an expansion slot (vfsVolumeAttrSlotBased). */
+  @bitfield(1)
+  slotBased = false;
+}
+
+/** DLP response for {@link DlpVFSVolumeInfoReqType}. */
+export class DlpVFSVolumeInfoRespType extends DlpResponse {
+  funcId = DlpFuncId.VFSVolumeInfo;
+
+  /** Volume attributes. */
+  @dlpArg(0)
+  attributes = new DlpVFSVolumeAttrs();
+
+  /** File system type, e.g. 'vfat'. */
+  @dlpArg(0, TypeId)
+  fsType = '\0\0\0\0';
+
+  /** Creator of the file system driver. */
+  @dlpArg(0, TypeId)
+  fsCreator = '\0\0\0\0';
+
+  /** Mount class, e.g. 'libs' for slot drivers. */
+  @dlpArg(0, TypeId)
+  mountClass = '\0\0\0\0';
+
+  /** Slot driver library reference number (slot based volumes only). */
+  @dlpArg(0, SUInt16BE)
+  slotLibRefNum = 0;
+
+  /** Slot reference number (slot based volumes only). */
+  @dlpArg(0, SUInt16BE)
+  slotRefNum = 0;
+
+  /** Media type, e.g. 'sdig' (SD), 'mstk' (Memory Stick) or 'cfsh' (CompactFlash). */
+  @dlpArg(0, TypeId)
+  mediaType = '\0\0\0\0';
+
+  @dlpArg(0, SUInt32BE)
+  private reserved = 0;
+}
+
+// =============================================================================
+// VFSVolumeGetLabel (0x57)
+// =============================================================================
+/** DLP request to get the label of a VFS volume.
+ *
+ * DLP 1.3 (PalmOS v4.0 and above)
+ *
+ * Error codes:
+ *   - SYSTEM
+ *   - PARAM
+ *   - NOT_FOUND
+ *   - NOT_SUPPORTED
+ */
+export class DlpVFSVolumeGetLabelReqType extends DlpRequest<DlpVFSVolumeGetLabelRespType> {
+  funcId = DlpFuncId.VFSVolumeGetLabel;
+  responseType = DlpVFSVolumeGetLabelRespType;
+
+  /** Volume reference number, as returned by {@link DlpVFSVolumeEnumerateReqType}. */
+  @dlpArg(0, SUInt16BE)
+  volRefNum = 0;
+}
+
+/** DLP response for {@link DlpVFSVolumeGetLabelReqType}. */
+export class DlpVFSVolumeGetLabelRespType extends DlpResponse {
+  funcId = DlpFuncId.VFSVolumeGetLabel;
+
+  /** Volume label. */
+  @dlpArg(0, SStringNT)
+  label = '';
+}
+
+// =============================================================================
+// VFSVolumeSetLabel (0x58)
+// =============================================================================
+/** DLP request to set the label of a VFS volume.
+ *
+ * DLP 1.3 (PalmOS v4.0 and above)
+ *
+ * Error codes:
+ *   - SYSTEM
+ *   - PARAM
+ *   - NOT_FOUND
+ *   - READ_ONLY
+ *   - NOT_SUPPORTED
+ */
+export class DlpVFSVolumeSetLabelReqType extends DlpRequest<DlpVFSVolumeSetLabelRespType> {
+  funcId = DlpFuncId.VFSVolumeSetLabel;
+  responseType = DlpVFSVolumeSetLabelRespType;
+
+  /** Volume reference number, as returned by {@link DlpVFSVolumeEnumerateReqType}. */
+  @dlpArg(0, SUInt16BE)
+  volRefNum = 0;
+
+  /** New volume label. */
+  @dlpArg(0, SStringNT)
+  label = '';
+}
+
+/** DLP response for {@link DlpVFSVolumeSetLabelReqType}. */
+export class DlpVFSVolumeSetLabelRespType extends DlpResponse {
+  funcId = DlpFuncId.VFSVolumeSetLabel;
+}
+
+// =============================================================================
+// VFSVolumeSize (0x59)
+// =============================================================================
+/** DLP request to get the used and total size of a VFS volume.
+ *
+ * DLP 1.3 (PalmOS v4.0 and above)
+ *
+ * Error codes:
+ *   - SYSTEM
+ *   - PARAM
+ *   - NOT_FOUND
+ *   - NOT_SUPPORTED
+ */
+export class DlpVFSVolumeSizeReqType extends DlpRequest<DlpVFSVolumeSizeRespType> {
+  funcId = DlpFuncId.VFSVolumeSize;
+  responseType = DlpVFSVolumeSizeRespType;
+
+  /** Volume reference number, as returned by {@link DlpVFSVolumeEnumerateReqType}. */
+  @dlpArg(0, SUInt16BE)
+  volRefNum = 0;
+}
+
+/** DLP response for {@link DlpVFSVolumeSizeReqType}. */
+export class DlpVFSVolumeSizeRespType extends DlpResponse {
+  funcId = DlpFuncId.VFSVolumeSize;
+
+  /** Number of bytes in use on the volume. */
+  @dlpArg(0, SUInt32BE)
+  volumeSizeUsed = 0;
+
+  /** Total size of the volume in bytes. */
+  @dlpArg(0, SUInt32BE)
+  volumeSizeTotal = 0;
+}
+
+// =============================================================================
+// VFSFileSeek (0x5a)
+// =============================================================================
+/** DLP request to set the position within an open file on a VFS volume.
+ *
+ * DLP 1.3 (PalmOS v4.0 and above)
+ *
+ * Error codes:
+ *   - SYSTEM
+ *   - PARAM
+ *   - NOT_SUPPORTED
+ */
+export class DlpVFSFileSeekReqType extends DlpRequest<DlpVFSFileSeekRespType> {
+  funcId = DlpFuncId.VFSFileSeek;
+  responseType = DlpVFSFileSeekRespType;
+
+  /** Reference to the opened file. */
+  @dlpArg(0, SUInt32BE)
+  fileRef = 0;
+
+  /** Position that offset is relative to. */
+  @dlpArg(0, SUInt16BE)
+  origin = DlpVFSSeekOrigin.BEGINNING;
+
+  /** Offset relative to origin. */
+  @dlpArg(0, SInt32BE)
+  offset = 0;
+}
+
+/** Origin for {@link DlpVFSFileSeekReqType}. */
+export enum DlpVFSSeekOrigin {
+  /** From the beginning of the file (vfsOriginBeginning). */
+  BEGINNING = 0,
+  /** From the current position (vfsOriginCurrent). */
+  CURRENT = 1,
+  /** From the end of the file (vfsOriginEnd). */
+  END = 2,
+}
+
+/** DLP response for {@link DlpVFSFileSeekReqType}. */
+export class DlpVFSFileSeekRespType extends DlpResponse {
+  funcId = DlpFuncId.VFSFileSeek;
+}
+
+// =============================================================================
+// VFSFileResize (0x5b)
+// =============================================================================
+/** DLP request to change the size of an open file on a VFS volume.
+ *
+ * DLP 1.3 (PalmOS v4.0 and above)
+ *
+ * Error codes:
+ *   - SYSTEM
+ *   - PARAM
+ *   - READ_ONLY
+ *   - NOT_ENOUGH_SPACE
+ *   - NOT_SUPPORTED
+ */
+export class DlpVFSFileResizeReqType extends DlpRequest<DlpVFSFileResizeRespType> {
+  funcId = DlpFuncId.VFSFileResize;
+  responseType = DlpVFSFileResizeRespType;
+
+  /** Reference to the opened file. */
+  @dlpArg(0, SUInt32BE)
+  fileRef = 0;
+
+  /** New size of the file in bytes. */
+  @dlpArg(0, SUInt32BE)
+  newSize = 0;
+}
+
+/** DLP response for {@link DlpVFSFileResizeReqType}. */
+export class DlpVFSFileResizeRespType extends DlpResponse {
+  funcId = DlpFuncId.VFSFileResize;
+}
+
+// =============================================================================
+// VFSFileSize (0x5c)
+// =============================================================================
+/** DLP request to get the size of an open file on a VFS volume.
+ *
+ * DLP 1.3 (PalmOS v4.0 and above)
+ *
+ * Error codes:
+ *   - SYSTEM
+ *   - PARAM
+ *   - NOT_SUPPORTED
+ */
+export class DlpVFSFileSizeReqType extends DlpRequest<DlpVFSFileSizeRespType> {
+  funcId = DlpFuncId.VFSFileSize;
+  responseType = DlpVFSFileSizeRespType;
+
+  /** Reference to the opened file. */
+  @dlpArg(0, SUInt32BE)
+  fileRef = 0;
+}
+
+/** DLP response for {@link DlpVFSFileSizeReqType}. */
+export class DlpVFSFileSizeRespType extends DlpResponse {
+  funcId = DlpFuncId.VFSFileSize;
+
+  /** Size of the file in bytes. */
+  @dlpArg(0, SUInt32BE)
+  fileSize = 0;
+}
+
+// =============================================================================
+// ExpSlotMediaType (0x5d)
+// =============================================================================
+/** DLP request to get the type of media supported by an expansion slot.
+ *
+ * DLP 1.4 (PalmOS v5.2 and above)
+ *
+ * Error codes:
+ *   - SYSTEM
+ *   - PARAM
+ *   - NOT_FOUND
+ *   - NOT_SUPPORTED
+ */
+export class DlpExpSlotMediaTypeReqType extends DlpRequest<DlpExpSlotMediaTypeRespType> {
+  funcId = DlpFuncId.ExpSlotMediaType;
+  responseType = DlpExpSlotMediaTypeRespType;
+
+  /** Slot reference number, as returned by {@link DlpExpSlotEnumerateReqType}. */
+  @dlpArg(0, SUInt16BE)
+  slotRef = 0;
+}
+
+/** DLP response for {@link DlpExpSlotMediaTypeReqType}. */
+export class DlpExpSlotMediaTypeRespType extends DlpResponse {
+  funcId = DlpFuncId.ExpSlotMediaType;
+
+  /** Media type, e.g. 'sdig' (SD), 'mstk' (Memory Stick) or 'cfsh' (CompactFlash). */
+  @dlpArg(0, TypeId)
+  mediaType = '\0\0\0\0';
+}
+
+// =============================================================================
+// WriteResourceStream (0x5e)
+// =============================================================================
+/** Maximum size of a record or resource that can be transferred with the
+ * non-stream commands (ReadRecord, WriteRecord, ReadResource and
+ * WriteResource).
+ */
+export const DLP_MAX_NON_STREAM_ENTRY_SIZE = 0xffff;
+
+/** DLP request to write a resource larger than 64k.
+ *
+ * The resource data is sent as a long DLP argument, so unlike
+ * {@link DlpWriteResourceReqType} its size is not limited to 64k.
+ *
+ * DLP 1.4 (PalmOS v5.2 and above)
+ *
+ * Error codes:
+ *   - SYSTEM
+ *   - NOT_ENOUGH_SPACE
+ *   - PARAM
+ *   - NONE_OPEN
+ */
+export class DlpWriteResourceStreamReqType extends DlpRequest<DlpWriteResourceStreamRespType> {
+  funcId = DlpFuncId.WriteResourceStream;
+  responseType = DlpWriteResourceStreamRespType;
+
+  /** Handle to opened database. */
+  @dlpArg(0, SUInt8)
+  dbId = 0;
+
+  @dlpArg(0, SUInt8)
+  private padding1 = 0;
+
+  /** Resource type to write. */
+  @dlpArg(0, TypeId)
+  type = 'AAAA';
+
+  /** Resource ID to write. */
+  @dlpArg(0, SUInt16BE)
+  id = 0;
+
+  /** Resource data. */
+  @dlpArg(
+    0,
+    class extends SDynamicBuffer<SUInt32BE> {
+      lengthType = SUInt32BE;
+    }
+  )
+  data: Buffer = Buffer.alloc(0);
+}
+
+/** DLP response for {@link DlpWriteResourceStreamReqType}. */
+export class DlpWriteResourceStreamRespType extends DlpResponse {
+  funcId = DlpFuncId.WriteResourceStream;
+}
+
+// =============================================================================
+// WriteRecordStream (0x5f)
+// =============================================================================
+/** DLP request to write a record larger than 64k.
+ *
+ * Same as {@link DlpWriteRecordReqType}, but the record data is sent as a
+ * long DLP argument so its size is not limited to 64k.
+ *
+ * DLP 1.4 (PalmOS v5.2 and above)
+ *
+ * Error codes:
+ *   - SYSTEM
+ *   - PARAM
+ *   - NOT_FOUND
+ *   - NOT_ENOUGH_SPACE
+ *   - NOT_SUPPORTED
+ *   - READ_ONLY
+ *   - NONE_OPEN
+ */
+export class DlpWriteRecordStreamReqType extends DlpRequest<DlpWriteRecordStreamRespType> {
+  funcId = DlpFuncId.WriteRecordStream;
+  responseType = DlpWriteRecordStreamRespType;
+
+  /** Handle to opened database. */
+  @dlpArg(0, SUInt8)
+  dbId = 0;
+
+  /** Fixed constant indicating data is included in the request. */
+  @dlpArg(0, SUInt8)
+  private flags = 0x80;
+
+  /** Record ID to write. */
+  @dlpArg(0, SUInt32BE)
+  recordId = 0;
+
+  /** Record attributes. */
+  @dlpArg(0)
+  attributes = new DlpRecordAttrs();
+
+  /** Record category index. */
+  @dlpArg(0, SUInt8)
+  category = 0;
+
+  /** Record data. */
+  @dlpArg(0, SBuffer)
+  data: Buffer = Buffer.alloc(0);
+}
+
+/** DLP response for {@link DlpWriteRecordStreamReqType}. */
+export class DlpWriteRecordStreamRespType extends DlpResponse {
+  funcId = DlpFuncId.WriteRecordStream;
+
+  /** Record ID to write. */
+  @dlpArg(0, SUInt32BE)
+  recordId = 0;
+}
+
+// =============================================================================
+// ReadResourceStream (0x60)
+// =============================================================================
+/** DLP request to read a resource larger than 64k by index.
+ *
+ * Same as {@link DlpReadResourceByIndexReqType}, but with 32-bit offset and
+ * size fields.
+ *
+ * DLP 1.4 (PalmOS v5.2 and above)
+ *
+ * Error codes:
+ *   - SYSTEM
+ *   - PARAM
+ *   - NOT_FOUND
+ *   - NONE_OPEN
+ */
+export class DlpReadResourceStreamReqType extends DlpRequest<DlpReadResourceStreamRespType> {
+  funcId = DlpFuncId.ReadResourceStream;
+  responseType = DlpReadResourceStreamRespType;
+
+  /** Handle to opened database. */
+  @dlpArg(0, SUInt8)
+  dbId = 0;
+
+  @dlpArg(0, SUInt8)
+  private padding1 = 0;
+
+  /** Index of resource to read. */
+  @dlpArg(0, SUInt16BE)
+  index = 0;
+
+  /** Offset into resource data to start reading. */
+  @dlpArg(0, SUInt32BE)
+  offset = 0;
+
+  /** Maximum length to read (0xffffffff = "to the end"). */
+  @dlpArg(0, SUInt32BE)
+  numBytes = 0xffffffff;
+}
+
+/** DLP response for {@link DlpReadResourceStreamReqType}. */
+export class DlpReadResourceStreamRespType extends DlpResponse {
+  funcId = DlpFuncId.ReadResourceStream;
+
+  /** Resource type. */
+  @dlpArg(0, TypeId)
+  type = 'AAAA';
+
+  /** Resource ID. */
+  @dlpArg(0, SUInt16BE)
+  id = 0;
+
+  /** Resource index. */
+  @dlpArg(0, SUInt16BE)
+  index = 0;
+
+  /** Resource data. */
+  @dlpArg(
+    0,
+    class extends SDynamicBuffer<SUInt32BE> {
+      lengthType = SUInt32BE;
+    }
+  )
+  resData: Buffer = Buffer.alloc(0);
+}
+
+// =============================================================================
+// ReadRecordStream (0x61)
+// =============================================================================
+/** DLP request to read a record larger than 64k by index.
+ *
+ * Same as {@link DlpReadRecordByIndexReqType}, but with 32-bit offset and
+ * size fields.
+ *
+ * DLP 1.4 (PalmOS v5.2 and above)
+ *
+ * Error codes:
+ *   - NOT_SUPPORTED
+ *   - SYSTEM
+ *   - MEMORY
+ *   - PARAM
+ *   - NOT_FOUND
+ *   - RECORD_BUSY
+ *   - NONE_OPEN
+ */
+export class DlpReadRecordStreamReqType extends DlpRequest<DlpReadRecordStreamRespType> {
+  funcId = DlpFuncId.ReadRecordStream;
+  responseType = DlpReadRecordStreamRespType;
+
+  /** Handle to opened database. */
+  @dlpArg(0, SUInt8)
+  dbId = 0;
+
+  @dlpArg(0, SUInt8)
+  private padding1 = 0;
+
+  /** Index of record to read. */
+  @dlpArg(0, SUInt16BE)
+  index = 0;
+
+  /** Offset into record data to start reading. */
+  @dlpArg(0, SUInt32BE)
+  offset = 0;
+
+  /** Maximum length to read (0xffffffff = "to the end"). */
+  @dlpArg(0, SUInt32BE)
+  numBytes = 0xffffffff;
+}
+
+/** DLP response for {@link DlpReadRecordStreamReqType}. */
+export class DlpReadRecordStreamRespType extends DlpResponse {
+  funcId = DlpFuncId.ReadRecordStream;
+
+  /** Record ID. */
+  @dlpArg(0, SUInt32BE)
+  recordId = 0;
+
+  /** Index of record in database. */
+  @dlpArg(0, SUInt16BE)
+  index = 0;
+
+  /** Size of record data. */
+  @dlpArg(0, SUInt32BE)
+  recSize = 0;
+
+  /** Record attributes. */
+  @dlpArg(0)
+  attributes = new DlpRecordAttrs();
+
+  /** Record category index. */
+  @dlpArg(0, SUInt8)
+  category = 0;
+
+  /** Record data. */
+  @dlpArg(0, SBuffer)
+  data: Buffer = Buffer.alloc(0);
+}
+
 // =============================================================================
 // Request and response classes above generated via the following script:
 //
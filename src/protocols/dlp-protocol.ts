@@ -33,6 +33,16 @@ export abstract class DlpRequest<
   /** The response class corresponding to this request. */
   abstract responseType: new () => DlpResponseT;
 
+  /** Minimum DLP version required to execute this request, e.g. 1.2.
+   *
+   * Defaults to the DLP version that introduced the function ID. Requests that
+   * share a function ID with an older request but use a newer format override
+   * this.
+   */
+  get minDlpVersion(): number {
+    return getDlpFuncIdMinVersion(this.funcId);
+  }
+
   deserialize(buffer: Buffer, opts?: DeserializeOptions): number {
     const reader = SmartBuffer.fromBuffer(buffer);
 
@@ -83,6 +93,49 @@ export abstract class DlpRequest<
   }
 }
 
+/** Get the minimum DLP version required for a DLP function ID.
+ *
+ * Function IDs are allocated sequentially, so each DLP version corresponds to
+ * a contiguous range of function IDs.
+ *
+ * References:
+ *   - https://github.com/jichu4n/palm-os-sdk/blob/master/sdk-5r3/include/Core/System/DLCommon.h#L22
+ */
+export function getDlpFuncIdMinVersion(funcId: number): number {
+  if (funcId < 0x32 /* ReadNextRecInCategory */) {
+    return 1.0;
+  } else if (funcId <= 0x38 /* ReadFeature */) {
+    return 1.1;
+  } else if (funcId <= 0x3a /* SetDBInfo */) {
+    return 1.2;
+  } else if (funcId <= 0x5c /* VFSFileSize */) {
+    return 1.3;
+  } else {
+    return 1.4;
+  }
+}
+
+/** Error thrown when executing a DLP request that is not supported by the
+ * device's DLP version.
+ */
+export class DlpUnsupportedRequestError extends Error {
+  constructor(
+    /** The unsupported request. */
+    readonly request: DlpRequest<any>,
+    /** DLP version supported by the device. */
+    readonly dlpVersion: number
+  ) {
+    super(
+      `${request.constructor.name} requires DLP ${request.minDlpVersion.toFixed(
+        1
+      )}, but device only supports DLP ${dlpVersion.toFixed(1)}`
+    );
+    // Restore prototype chain, which is broken when extending Error in ES5.
+    Object.setPrototypeOf(this, new.target.prototype);
+    this.name = 'DlpUnsupportedRequestError';
+  }
+}
+
 /** Extract the DlpResponse type corresponding to a DlpRequest type. */
 export type DlpResponseType<T> =
   T extends DlpRequest<infer DlpResponseT> ? DlpResponseT : never;
@@ -226,7 +279,11 @@ export abstract class DlpResponse extends SObject {
   }
 
   serialize(opts?: SerializeOptions): Buffer {
-    const serializedArgs = getDlpArgs(this).map((arg) => arg.serialize(opts));
+    // Error responses do not include any arguments.
+    const serializedArgs =
+      this.errorCode === DlpRespErrorCode.NONE
+        ? getDlpArgs(this).map((arg) => arg.serialize(opts))
+        : [];
     const writer = new SmartBuffer();
     writer.writeUInt8(this.funcId | DLP_RESPONSE_TYPE_BITMASK);
     writer.writeUInt8(serializedArgs.length);
@@ -238,6 +295,9 @@ export abstract class DlpResponse extends SObject {
   }
 
   getSerializedLength(opts?: SerializeOptions): number {
+    if (this.errorCode !== DlpRespErrorCode.NONE) {
+      return 4;
+    }
     return (
       4 + sum(getDlpArgs(this).map((arg) => arg.getSerializedLength(opts)))
     );
@@ -254,6 +314,114 @@ export abstract class DlpResponse extends SObject {
   }
 }
 
+/** Error thrown when the device does not respond within the configured
+ * timeout.
+ */
+export class DlpTimeoutError extends Error {
+  constructor(
+    /** The request that timed out, or null when reading raw data. */
+    readonly request: DlpRequest<any> | null,
+    /** The timeout that was exceeded, in milliseconds. */
+    readonly timeoutMs: number
+  ) {
+    super(
+      `Timed out after ${timeoutMs} ms waiting for ` +
+        (request ? request.responseType.name : 'raw data')
+    );
+    // Restore prototype chain, which is broken when extending Error in ES5.
+    Object.setPrototypeOf(this, new.target.prototype);
+    this.name = 'DlpTimeoutError';
+  }
+}
+
+/** Error thrown when a DLP request is cancelled through an AbortSignal. */
+export class DlpAbortError extends Error {
+  constructor(
+    /** The request that was aborted, or null when reading raw data. */
+    readonly request: DlpRequest<any> | null,
+    /** The abort reason provided to the AbortController, if any. */
+    readonly reason?: unknown
+  ) {
+    super(
+      `Aborted ${request ? request.constructor.name : 'reading raw data'}` +
+        (reason instanceof Error ? `: ${reason.message}` : '')
+    );
+    // Restore prototype chain, which is broken when extending Error in ES5.
+    Object.setPrototypeOf(this, new.target.prototype);
+    this.name = 'DlpAbortError';
+  }
+}
+
+/** Error thrown when the device returns a DLP response with a non-zero error
+ * code.
+ *
+ * Use {@link DlpResponseError.create} to construct an instance of the subclass
+ * corresponding to the error code, if any.
+ */
+export class DlpResponseError extends Error {
+  constructor(
+    /** The request that failed. */
+    readonly request: DlpRequest<any>,
+    /** The error response returned by the device. */
+    readonly response: DlpResponse
+  ) {
+    super(
+      response.constructor.name +
+        ` error 0x${response.errorCode.toString(16).padStart(2, '0')} ` +
+        `${DlpRespErrorCode[response.errorCode]}: ` +
+        response.errorMessage
+    );
+    // Restore prototype chain, which is broken when extending Error in ES5.
+    Object.setPrototypeOf(this, new.target.prototype);
+    this.name = new.target.name;
+  }
+
+  /** Error code returned by the device. */
+  get errorCode(): DlpRespErrorCode {
+    return this.response.errorCode;
+  }
+
+  /** Human-readable message corresponding to the error code. */
+  get errorMessage() {
+    return this.response.errorMessage;
+  }
+
+  /** Create an error for a DLP response, using the subclass corresponding to
+   * the response's error code if any. */
+  static create(request: DlpRequest<any>, response: DlpResponse) {
+    const errorType =
+      DLP_RESPONSE_ERROR_TYPES[response.errorCode] ?? DlpResponseError;
+    return new errorType(request, response);
+  }
+}
+
+/** DLP error indicating that the requested item was not found. */
+export class DlpNotFoundError extends DlpResponseError {}
+
+/** DLP error indicating that the device is out of memory or storage space. */
+export class DlpNotEnoughSpaceError extends DlpResponseError {}
+
+/** DLP error indicating that the database is read-only or in ROM. */
+export class DlpReadOnlyError extends DlpResponseError {}
+
+/** DLP error indicating that the database or file already exists. */
+export class DlpAlreadyExistsError extends DlpResponseError {}
+
+/** DLP error indicating that the sync was cancelled by the user. */
+export class DlpCancelSyncError extends DlpResponseError {}
+
+/** Error classes corresponding to DLP error codes. */
+const DLP_RESPONSE_ERROR_TYPES: {
+  [key in DlpRespErrorCode]?: typeof DlpResponseError;
+} = {
+  [DlpRespErrorCode.NOT_FOUND]: DlpNotFoundError,
+  [DlpRespErrorCode.MEMORY]: DlpNotEnoughSpaceError,
+  [DlpRespErrorCode.NOT_ENOUGH_SPACE]: DlpNotEnoughSpaceError,
+  [DlpRespErrorCode.READ_ONLY]: DlpReadOnlyError,
+  [DlpRespErrorCode.ALREADY_EXISTS]: DlpAlreadyExistsError,
+  [DlpRespErrorCode.CANCEL_SYNC]: DlpCancelSyncError,
+};
+
 /** Common logic for parsing DLP args. */
 function parseDlpArgs(
   dlpRequestOrResponse: DlpRequest<DlpResponse> | DlpResponse,
@@ -293,6 +461,41 @@ function parseDlpArgs(
   return readOffset;
 }
 
+/** Read the argument IDs in a serialized DLP request or response, without
+ * parsing the arguments themselves.
+ *
+ * This is used to determine the request or response class to use for parsing
+ * when multiple classes share the same function ID.
+ */
+export function readDlpArgIds(buffer: Buffer): Array<number> {
+  const reader = SmartBuffer.fromBuffer(buffer);
+  const isResponse = !!(reader.readUInt8() & DLP_RESPONSE_TYPE_BITMASK);
+  const numDlpArgs = reader.readUInt8();
+  if (isResponse) {
+    reader.readUInt16BE(); // errorCode
+  }
+  const argIds: Array<number> = [];
+  for (let i = 0; i < numDlpArgs; ++i) {
+    const argTypeBits = buffer[reader.readOffset] & DLP_ARG_TYPE_BITMASK;
+    const argTypeSpec = DlpArgTypesEntries.find(
+      ([_, {bitmask}]) => argTypeBits === bitmask
+    );
+    if (!argTypeSpec) {
+      throw new Error(
+        'Could not determine argument ID type: ' +
+          `0x${buffer[reader.readOffset].toString(16)}`
+      );
+    }
+    const {headerLength, parseFromHeader} = argTypeSpec[1];
+    const {argId, dataLength} = parseFromHeader(
+      reader.readBuffer(headerLength)
+    );
+    argIds.push(argId);
+    reader.readOffset += dataLength;
+  }
+  return argIds;
+}
+
 /** Common logic for converting DLP args to JSON. */
 function getDlpArgsAsJson(
   dlpRequestOrResponse: DlpRequest<DlpResponse> | DlpResponse
@@ -383,7 +586,7 @@ export function optDlpArg<ValueT>(
 }
 
 /** Extract DlpArgSpec's defined via dlpArg on a DlpRequest or DlpResponse. */
-function getDlpArgSpecs(targetInstance: any) {
+export function getDlpArgSpecs(targetInstance: any) {
   return (targetInstance[DLP_ARG_SPECS_METADATA_KEY] ??
     []) as Array<DlpArgSpec>;
 }
@@ -588,6 +791,19 @@ class DlpArg extends SObject {
   }
 }
 
+/** Dates deserialized from a DLP timestamp with a zero year. */
+const unsetDlpDates = new WeakSet<Date>();
+
+/** Returns whether a date was deserialized from a DLP timestamp with a zero
+ * year, which denotes "no date" or "don't change".
+ *
+ * This distinguishes a zero year from an actual timestamp of 1904-01-01, both
+ * of which are deserialized as PDB_EPOCH.
+ */
+export function isUnsetDlpDateTime(date: Date) {
+  return unsetDlpDates.has(date);
+}
+
 /** Timestamp value in DLP requests and responses.
  *
  * Unlike normal database timestamps found in database files and Palm OS APIs,
@@ -606,7 +822,9 @@ export class DlpDateTimeType extends SerializableWrapper<Date> {
     const readOffset = obj.deserialize(buffer, opts);
     if (obj.year === 0) {
       this.value.setTime(PDB_EPOCH.getTime());
+      unsetDlpDates.add(this.value);
     } else {
+      unsetDlpDates.delete(this.value);
       this.value.setFullYear(obj.year, obj.month - 1, obj.day);
       this.value.setHours(obj.hour, obj.minute, obj.second);
       this.value.setMilliseconds(0);
@@ -616,7 +834,9 @@ export class DlpDateTimeType extends SerializableWrapper<Date> {
 
   serialize(opts?: SerializeOptions): Buffer {
     const obj = new DlpDateTimeObject();
-    if (this.value !== PDB_EPOCH) {
+    // PDB_EPOCH is serialized as a zero year, which denotes "no date" or
+    // "don't change". Compare by value, as fields are initialized with copies.
+    if (this.value.getTime() !== PDB_EPOCH.getTime()) {
       obj.year = this.value.getFullYear();
       obj.month = this.value.getMonth() + 1;
       obj.day = this.value.getDate();
@@ -0,0 +1,166 @@
+/** Invoking Palm OS system traps via the DLP ProcessRPC command.
+ *
+ * References:
+ *   - pilot-link's RPC implementation:
+ *     https://github.com/jichu4n/pilot-link/blob/master/libpisock/rpc.c
+ *   - pilot-link's dlp_GetROMToken() and dlp_ReadFeature() functions:
+ *     https://github.com/jichu4n/pilot-link/blob/master/libpisock/dlp.c
+ *   - Palm OS system trap numbers:
+ *     https://github.com/jichu4n/palm-os-sdk/blob/master/sdk-5r3/include/Core/CoreTraps.h
+ *
+ * @module
+ */
+import {
+  DlpProcessRPCReqType,
+  DlpProcessRPCRespType,
+  DlpRPCParamType,
+} from './dlp-commands';
+import type {DlpConnection} from './sync-connections';
+
+/** Palm OS system trap numbers supported by {@link DlpRpcClient}. */
+export enum SysTrap {
+  MemMove = 0xa026,
+  DmNumDatabases = 0xa043,
+  FtrGet = 0xa27b,
+  SysBatteryInfo = 0xa324,
+  HwrGetROMToken = 0xa340,
+}
+
+/** ROM token containing the device serial number. */
+export const ROM_TOKEN_SERIAL_NUMBER = 'snum';
+
+/** Battery information returned by SysBatteryInfo. */
+export interface RpcBatteryInfo {
+  /** Current battery voltage in volts. */
+  voltage: number;
+  /** Voltage at which the device displays a low battery warning. */
+  warnThreshold: number;
+  /** Voltage at which the device shuts down. */
+  criticalThreshold: number;
+  /** Battery kind (SysBatteryKind enum value). */
+  kind: number;
+  /** Whether the device is plugged in to external power. */
+  pluggedIn: boolean;
+  /** Remaining battery level in percent. */
+  percent: number;
+}
+
+/** Typed wrappers for invoking system traps on a Palm OS device. */
+export class DlpRpcClient {
+  constructor(
+    /** DLP connection to the Palm OS device. */
+    private readonly dlpConnection: DlpConnection
+  ) {}
+
+  /** Invoke a system trap with the given parameters. */
+  async callTrap(
+    trap: number,
+    params: Array<DlpRPCParamType> = []
+  ): Promise<DlpProcessRPCRespType> {
+    return await this.dlpConnection.execute(
+      DlpProcessRPCReqType.with({trap, params})
+    );
+  }
+
+  /** Get the number of databases on a memory card (DmNumDatabases). */
+  async getNumDatabases(cardNo = 0): Promise<number> {
+    const {d0} = await this.callTrap(SysTrap.DmNumDatabases, [
+      DlpRPCParamType.uint16(cardNo),
+    ]);
+    return d0 & 0xffff;
+  }
+
+  /** Get the value of a feature (FtrGet).
+   *
+   * Returns null if the feature does not exist.
+   */
+  async getFeature(
+    creator: string,
+    featureNum: number
+  ): Promise<number | null> {
+    const {d0, params} = await this.callTrap(SysTrap.FtrGet, [
+      DlpRPCParamType.uint32(typeIdToNumber(creator)),
+      DlpRPCParamType.uint16(featureNum),
+      DlpRPCParamType.ref(4),
+    ]);
+    return d0 & 0xffff ? null : params[2].data.readUInt32BE(0);
+  }
+
+  /** Read a ROM token (HwrGetROMToken).
+   *
+   * Returns null if the token does not exist.
+   */
+  async getRomToken(token: string, cardNo = 0): Promise<Buffer | null> {
+    const {d0, params} = await this.callTrap(SysTrap.HwrGetROMToken, [
+      DlpRPCParamType.uint16(cardNo),
+      DlpRPCParamType.uint32(typeIdToNumber(token)),
+      DlpRPCParamType.ref(4),
+      DlpRPCParamType.ref(2),
+    ]);
+    if (d0 & 0xffff) {
+      return null;
+    }
+    const dataPtr = params[2].data.readUInt32BE(0);
+    const size = params[3].data.readUInt16BE(0);
+    // HwrGetROMToken only returns a pointer to the token data, so we need to
+    // copy it into a buffer using MemMove.
+    const {params: memMoveParams} = await this.callTrap(SysTrap.MemMove, [
+      DlpRPCParamType.ref(size),
+      DlpRPCParamType.uint32(dataPtr),
+      DlpRPCParamType.uint32(size),
+    ]);
+    return memMoveParams[0].data;
+  }
+
+  /** Get the device serial number from the ROM token.
+   *
+   * Returns null if the device does not have a serial number, such as
+   * devices without a flash ROM or POSE / emulators.
+   */
+  async getSerialNumber(): Promise<string | null> {
+    const data = await this.getRomToken(ROM_TOKEN_SERIAL_NUMBER);
+    if (!data) {
+      return null;
+    }
+    // Uninitialized ROM tokens are filled with 0xff.
+    const end = data.findIndex((b) => b === 0 || b === 0xff);
+    const serialNumber = data
+      .subarray(0, end === -1 ? data.length : end)
+      .toString('latin1');
+    return serialNumber || null;
+  }
+
+  /** Get battery information (SysBatteryInfo). */
+  async getBatteryInfo(): Promise<RpcBatteryInfo> {
+    const {d0, params} = await this.callTrap(SysTrap.SysBatteryInfo, [
+      // set = false
+      DlpRPCParamType.uint8(0),
+      // warnThresholdP
+      DlpRPCParamType.ref(2),
+      // criticalThresholdP
+      DlpRPCParamType.ref(2),
+      // maxTicksP
+      DlpRPCParamType.ref(2),
+      // kindP
+      DlpRPCParamType.ref(1),
+      // pluggedIn
+      DlpRPCParamType.ref(1),
+      // percentP
+      DlpRPCParamType.ref(1),
+    ]);
+    // Voltages are in hundredths of a volt.
+    return {
+      voltage: (d0 & 0xffff) / 100,
+      warnThreshold: params[1].data.readUInt16BE(0) / 100,
+      criticalThreshold: params[2].data.readUInt16BE(0) / 100,
+      kind: params[4].data.readUInt8(0),
+      pluggedIn: !!params[5].data.readUInt8(0),
+      percent: params[6].data.readUInt8(0),
+    };
+  }
+}
+
+/** Convert a 4-character type ID such as 'snum' to a 32-bit integer. */
+function typeIdToNumber(typeId: string) {
+  return Buffer.from(typeId, 'latin1').readUInt32BE(0);
+}
@@ -0,0 +1,86 @@
+import fs from 'fs-extra';
+import {DlpFuncId} from './dlp-commands';
+import {DlpRequest, DlpResponse, DlpResponseError} from './dlp-protocol';
+import {DlpConnection, DlpInterceptorContext} from './sync-connections';
+
+/** Utility class for recording a decoded transcript of DLP requests and
+ * responses on a DlpConnection.
+ *
+ * Unlike `StreamRecorder`, which captures raw transport bytes, this
+ * records each exchange as its `toJSON()` representation. The transcript can
+ * be written out as JSONL, with one exchange per line.
+ */
+export class DlpTranscriptRecorder {
+  /** Recorded exchanges. */
+  entries: Array<DlpTranscriptEntry> = [];
+
+  /** Start recording exchanges on a DlpConnection.
+   *
+   * Returns a function that stops recording.
+   */
+  record(dlpConnection: DlpConnection) {
+    return dlpConnection.use({
+      onResponse: (response, request, context) => {
+        this.addEntry(request, context, {response: response.toJSON()});
+      },
+      onError: (error, request, context) => {
+        const {name, message} =
+          error instanceof Error ? error : new Error(`${error}`);
+        this.addEntry(request, context, {
+          // Include the device's response for DLP error responses.
+          ...(error instanceof DlpResponseError
+            ? {response: error.response.toJSON()}
+            : {}),
+          error: {name, message},
+        });
+      },
+    });
+  }
+
+  /** Returns the transcript in JSONL format. */
+  toJSONL() {
+    return this.entries
+      .map((entry) => JSON.stringify(entry, encodeBuffers) + '\n')
+      .join('');
+  }
+
+  /** Write out the transcript to a JSONL file. */
+  async writeFile(filePath: string) {
+    await fs.writeFile(filePath, this.toJSONL());
+  }
+
+  private addEntry(
+    request: DlpRequest<DlpResponse>,
+    {startTime, durationMs}: DlpInterceptorContext,
+    result: Pick<DlpTranscriptEntry, 'response' | 'error'>
+  ) {
+    this.entries.push({
+      timestamp: new Date(startTime).toISOString(),
+      durationMs,
+      command: DlpFuncId[request.funcId] ?? `0x${request.funcId.toString(16)}`,
+      request: request.toJSON(),
+      ...result,
+    });
+  }
+}
+
+/** A recorded DLP exchange. */
+export interface DlpTranscriptEntry {
+  /** Time at which the request was issued, in ISO 8601 format. */
+  timestamp: string;
+  /** Time taken to complete the exchange, in milliseconds. */
+  durationMs: number;
+  /** Name of the DLP command. */
+  command: string;
+  /** JSON representation of the request. */
+  request: Object;
+  /** JSON representation of the response, if the exchange completed. */
+  response?: Object;
+  /** Error thrown by the exchange, if any. */
+  error?: {name: string; message: string};
+}
+
+/** JSON.stringify replacer that encodes Buffers as hex strings. */
+function encodeBuffers(this: any, key: string, value: any) {
+  return this[key] instanceof Buffer ? this[key].toString('hex') : value;
+}
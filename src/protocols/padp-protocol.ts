@@ -15,10 +15,11 @@ import {SmartBuffer} from 'smart-buffer';
 import {Duplex, DuplexOptions} from 'stream';
 import {
   createSlpDatagramStream,
+  SlpCrcError,
   SlpDatagram,
   SlpDatagramHeader,
-  SlpDatagramStream,
   SlpDatagramType,
+  SlpMultiplexer,
   SlpSocketId,
 } from './slp-protocol';
 
@@ -132,16 +133,17 @@ export class PadpDatagram extends SerializableWrapper<Buffer> {
   }
 }
 
-/** How long to wait for an ACK before resending.
+/** Default time to wait for an ACK before resending.
  *
  * From Palm OS SDK.
  */
-const PADP_ACK_WAIT_MS = 2000;
-/** Number of times to retry sending a PADP datagram before assuming failure.
+export const PADP_ACK_WAIT_MS = 2000;
+/** Default number of times to try sending a PADP datagram before assuming
+ * failure.
  *
  * From Palm OS SDK.
  */
-const PADP_MAX_RETRIES = 10;
+export const PADP_MAX_RETRIES = 10;
 /** Maximum amount of data that can be sent in a single PADP packet (excluding
  * header).
  *
@@ -166,17 +168,75 @@ const PADP_MAX_PKT_DATA_SIZE = 1024;
  */
 const PADP_PACKET_DATA_SIZE = PADP_MAX_PKT_DATA_SIZE / 2;
 
+/** Options for {@link PadpStream}. */
+export interface PadpStreamOptions extends DuplexOptions {
+  /** Number of times to try sending a PADP datagram before assuming failure
+   * (default: PADP_MAX_RETRIES). Must be at least 1. */
+  maxRetries?: number;
+  /** Time to wait for an ACK before resending a PADP datagram, in
+   * milliseconds (default: PADP_ACK_WAIT_MS). Must be positive. */
+  ackTimeoutMs?: number;
+  /** Whether to answer SLP loopback datagrams on the link (default: false).
+   *
+   * Unlike a standalone {@link SlpMultiplexer}, this is off by default for
+   * HotSync. Palm devices and emulators send a loopback datagram at the start
+   * of a serial HotSync session, which the Palm HotSync desktop does not
+   * answer, and the device does not expect a reply. Answering it would change
+   * the traffic on the link compared to the reference desktop, as captured in
+   * the recorded serial sessions used in tests. Turn this on when sharing the
+   * link with other protocols that rely on loopback, e.g. Remote Console.
+   */
+  answerSlpLoopback?: boolean;
+}
+
+/** Link statistics for a {@link PadpStream}. */
+export interface PadpStreamStats {
+  /** Number of PADP DATA datagrams sent, excluding retries. */
+  datagramsSent: number;
+  /** Number of PADP DATA datagrams received, excluding duplicates. */
+  datagramsReceived: number;
+  /** Number of times a PADP DATA datagram had to be resent. */
+  retries: number;
+  /** Number of duplicate PADP DATA datagrams received and ignored. */
+  duplicatesIgnored: number;
+  /** Number of SLP datagrams received that failed CRC validation. */
+  crcErrors: number;
+  /** Total bytes of SLP datagrams sent, including ACKs and retries. */
+  bytesSent: number;
+  /** Total bytes of SLP datagrams received, including ACKs and
+   * duplicates. */
+  bytesReceived: number;
+}
+
 /** PADP stream over a raw data stream.
  *
  * The input stream is expected to yield complete SLP datagrams. The output is a
  * stream of assembled PADP message data.
  */
 export class PadpStream extends Duplex {
-  constructor(rawStream: Duplex, opts?: DuplexOptions) {
+  constructor(rawStream: Duplex, opts: PadpStreamOptions = {}) {
     super(opts);
-    this.slpDatagramStream = createSlpDatagramStream(rawStream);
-    this.slpDatagramStream.on('data', this.onReceiveSlpDatagram.bind(this));
-    this.slpDatagramStream.on('error', (e) =>
+    this.maxRetries = opts.maxRetries ?? PADP_MAX_RETRIES;
+    this.ackTimeoutMs = opts.ackTimeoutMs ?? PADP_ACK_WAIT_MS;
+    if (!Number.isInteger(this.maxRetries) || this.maxRetries < 1) {
+      throw new Error(
+        `Invalid PADP maxRetries: ${this.maxRetries} (must be an integer >= 1)`
+      );
+    }
+    if (!(this.ackTimeoutMs > 0)) {
+      throw new Error(
+        `Invalid PADP ackTimeoutMs: ${this.ackTimeoutMs} (must be > 0)`
+      );
+    }
+    this.slpMultiplexer = new SlpMultiplexer(
+      createSlpDatagramStream(rawStream),
+      {answerLoopback: opts.answerSlpLoopback ?? false}
+    );
+    this.slpMultiplexer.addHandler(
+      {socketId: SlpSocketId.DLP, type: SlpDatagramType.PADP},
+      this.onReceiveSlpDatagram.bind(this)
+    );
+    this.slpMultiplexer.slpDatagramStream.on('error', (e) =>
       this.emit('error', new Error(e.message, {cause: e}))
     );
   }
@@ -196,22 +256,25 @@ export class PadpStream extends Duplex {
 
   /** Handle receiving a new SLP datagram. */
   onReceiveSlpDatagram(chunk: Buffer) {
-    const slpDatagram = SlpDatagram.from(chunk);
+    this.stats.bytesReceived += chunk.length;
+    let slpDatagram: SlpDatagram;
+    try {
+      slpDatagram = SlpDatagram.from(chunk);
+    } catch (e) {
+      if (!(e instanceof SlpCrcError)) {
+        throw e;
+      }
+      // Drop corrupted datagrams. As we don't send an ACK, the sender will
+      // retry.
+      ++this.stats.crcErrors;
+      this.log(`--- Ignoring SLP datagram: ${e.message}`);
+      return;
+    }
     this.log(
       `<<< ${SlpDatagramType[slpDatagram.header.type]} ` +
         `xid ${slpDatagram.header.xid}: ` +
         chunk.toString('hex')
     );
-    switch (slpDatagram.header.type) {
-      case SlpDatagramType.LOOPBACK:
-        // Ignore
-        return;
-      case SlpDatagramType.PADP:
-        break;
-      default:
-        this.emitReadError('Unexpected SLP datagram type', {slpDatagram});
-        return;
-    }
 
     const padpDatagram = PadpDatagram.from(slpDatagram.value);
 
@@ -260,12 +323,14 @@ export class PadpStream extends Duplex {
       // sizeOrOffset. Our ACK either got lost or didn't arrive on time, so
       // the Palm device is retrying sending the same datagram. We will ignore
       // this datagram but will send back another ACK.
+      ++this.stats.duplicatesIgnored;
       this.log(
         '--- Ignoring duplicate PADP xid ' +
           `${slpDatagram.header.xid} ` +
           `[@${padpDatagram.header.sizeOrOffset.value}]`
       );
     } else {
+      ++this.stats.datagramsReceived;
       // If we just sent a message and we're still waiting for the ACK, but then
       // receive a DATA message that has the same XID, it means the current
       // message is the reply to our earlier message and the ACK from the Palm
@@ -360,27 +425,25 @@ export class PadpStream extends Duplex {
 
     // Send ACK after processing a DATA datagram.
     const ackSlpDatagram = this.createAckSlpDatagram(slpDatagram, padpDatagram);
+    const ackSlpDatagramBuffer = ackSlpDatagram.serialize();
     this.lastProcessedPadpDataChunk = chunk;
     this.log(
       `>>> ACK xid ${ackSlpDatagram.header.xid} ` +
         `[@${padpDatagram.header.sizeOrOffset.value}]: ` +
-        ackSlpDatagram.serialize().toString('hex')
+        ackSlpDatagramBuffer.toString('hex')
     );
-    this.slpDatagramStream.write(
-      ackSlpDatagram.serialize(),
-      'buffer' as BufferEncoding,
-      (e) => {
-        if (e) {
-          this.emit(
-            'error',
-            new Error(
-              `Error sending ACK xid ${ackSlpDatagram.header.xid}: ${e}`,
-              {cause: e}
-            )
-          );
-        }
+    this.stats.bytesSent += ackSlpDatagramBuffer.length;
+    this.slpMultiplexer.write(ackSlpDatagramBuffer, (e) => {
+      if (e) {
+        this.emit(
+          'error',
+          new Error(
+            `Error sending ACK xid ${ackSlpDatagram.header.xid}: ${e}`,
+            {cause: e}
+          )
+        );
       }
-    );
+    });
   }
 
   async _write(
@@ -428,8 +491,30 @@ export class PadpStream extends Duplex {
       slpDatagram.value = padpDatagram.serialize();
 
       let error: Error | null = null;
-      for (let retryId = 0; retryId < PADP_MAX_RETRIES; ++retryId) {
+      for (let retryId = 0; retryId < this.maxRetries; ++retryId) {
         error = null;
+        if (retryId > 0) {
+          ++this.stats.retries;
+        } else {
+          ++this.stats.datagramsSent;
+        }
+
+        // Register the ACK listener before writing, as the ACK may arrive
+        // before the write callback is invoked.
+        if (this.ackListener) {
+          // This should not happen since we won't call callback() until we
+          // receive the ACK, so there should never be multiple concurrent writes.
+          callback(new Error('Internal error: multiple concurrent writes'));
+          return;
+        }
+        const ackPromise = new Promise<void>((resolve, reject) => {
+          this.ackListener = {
+            resolve,
+            reject,
+            xid,
+            sizeOrOffset: padpDatagram.header.sizeOrOffset.value,
+          };
+        });
 
         // Write SLP and wait for confirmation.
         const slpDatagramBuffer = slpDatagram.serialize();
@@ -440,45 +525,33 @@ export class PadpStream extends Duplex {
             slpDatagramBuffer.toString('hex') +
             (retryId > 0 ? ` (try #${retryId + 1})` : '')
         );
+        this.stats.bytesSent += slpDatagramBuffer.length;
         try {
           await new Promise<void>((resolve, reject) =>
-            this.slpDatagramStream.write(
-              slpDatagramBuffer,
-              'buffer' as BufferEncoding,
-              (error) => (error ? reject(error) : resolve())
+            this.slpMultiplexer.write(slpDatagramBuffer, (error) =>
+              error ? reject(error) : resolve()
             )
           );
         } catch (e: any) {
           error = new Error(`Error sending PADP xid ${xid}: ${e.message}`);
           this.log(`--- ${error.message}`);
+          this.ackListener = null;
           continue;
         }
 
         // Wait for next ack.
-        if (this.ackListener) {
-          // This should not happen since we won't call callback() until we
-          // receive the ACK, so there should never be multiple concurrent writes.
-          callback(new Error('Internal error: multiple concurrent writes'));
-          return;
-        }
         this.log(
           `--- Waiting for ACK on xid ${xid} ` +
             `${i + 1}/${pieces.length} ` +
             `[@${padpDatagram.header.sizeOrOffset.value}]`
         );
+        let ackTimeout: ReturnType<typeof setTimeout> | undefined;
         try {
           await new Promise<void>((resolve, reject) => {
-            this.ackListener = {
-              resolve,
-              reject,
-              xid,
-              sizeOrOffset: padpDatagram.header.sizeOrOffset.value,
-            };
-            setTimeout(
+            ackPromise.then(resolve, reject);
+            ackTimeout = setTimeout(
               () => reject(new Error('Timeout')),
-              // Use a smaller timeout when running inside tests to avoid
-              // hanging test workers.
-              process.env.JEST_WORKER_ID ? 100 : PADP_ACK_WAIT_MS
+              this.ackTimeoutMs
             );
           });
         } catch (e: any) {
@@ -488,6 +561,8 @@ export class PadpStream extends Duplex {
           this.log(`--- ${error.message}`);
           this.ackListener = null;
           continue;
+        } finally {
+          clearTimeout(ackTimeout);
         }
 
         // Successfully sent message and received ACK.
@@ -497,9 +572,7 @@ export class PadpStream extends Duplex {
       // If we exhausted the number of retries and still ended up with an error,
       // return that to the caller.
       if (error) {
-        this.log(
-          `--- PADP xid ${xid} failed after ${PADP_MAX_RETRIES} retries`
-        );
+        this.log(`--- PADP xid ${xid} failed after ${this.maxRetries} retries`);
         callback(error);
         return;
       }
@@ -561,8 +634,12 @@ export class PadpStream extends Duplex {
 
   private log = debug('palm-sync').extend('padp');
 
-  /** Underlying SLP datagram stream. */
-  private slpDatagramStream: SlpDatagramStream;
+  /** SLP multiplexer for the underlying link.
+   *
+   * PADP datagrams on the DLP socket are handled by this stream. Handlers for
+   * other sockets can be registered here to share the same link.
+   */
+  readonly slpMultiplexer: SlpMultiplexer;
 
   /** Current message being read. */
   private currentMessage: {
@@ -587,4 +664,21 @@ export class PadpStream extends Duplex {
   /** Most recently processed SLP datagram of type PADP DATA. This is used for
    * deduplicating messages in case our ACK gets lost. */
   private lastProcessedPadpDataChunk: Buffer = Buffer.alloc(0);
+
+  /** Number of times to try sending a PADP datagram before assuming failure. */
+  private readonly maxRetries: number;
+
+  /** Time to wait for an ACK before resending a PADP datagram. */
+  private readonly ackTimeoutMs: number;
+
+  /** Link statistics for this stream. */
+  readonly stats: PadpStreamStats = {
+    datagramsSent: 0,
+    datagramsReceived: 0,
+    retries: 0,
+    duplicatesIgnored: 0,
+    crcErrors: 0,
+    bytesSent: 0,
+    bytesReceived: 0,
+  };
 }
@@ -172,10 +172,7 @@ export class SlpDatagram extends SerializableWrapper<Buffer> {
     const expectedCrc = crc16(buffer.slice(0, reader.readOffset));
     const crc = reader.readUInt16BE();
     if (crc !== expectedCrc) {
-      throw new Error(
-        `Invalid SLP CRC: ` +
-          `expected ${expectedCrc.toString(16)}, got ${crc.toString(16)}`
-      );
+      throw new SlpCrcError(expectedCrc, crc);
     }
     return reader.readOffset;
   }
@@ -208,6 +205,24 @@ export class SlpDatagram extends SerializableWrapper<Buffer> {
   }
 }
 
+/** Error thrown when an SLP datagram fails CRC validation. */
+export class SlpCrcError extends Error {
+  constructor(
+    /** CRC computed from the datagram. */
+    readonly expectedCrc: number,
+    /** CRC included in the datagram. */
+    readonly actualCrc: number
+  ) {
+    super(
+      `Invalid SLP CRC: ` +
+        `expected ${expectedCrc.toString(16)}, got ${actualCrc.toString(16)}`
+    );
+    // Restore prototype chain, which is broken when extending Error in ES5.
+    Object.setPrototypeOf(this, new.target.prototype);
+    this.name = 'SlpCrcError';
+  }
+}
+
 /** Transformer for reading SLP datagrams.
  *
  * Note that, unlike other streams, the output of this transformer is not
@@ -404,3 +419,154 @@ export function createSlpDatagramStream(rawStream: Duplex): SlpDatagramStream {
   );
   return slpDatagramStream;
 }
+
+/** Handler for SLP datagrams received through an {@link SlpMultiplexer}.
+ *
+ * Receives the complete serialized SLP datagram along with its parsed header.
+ */
+export type SlpDatagramHandler = (
+  chunk: Buffer,
+  header: SlpDatagramHeader
+) => void;
+
+/** Criteria for routing SLP datagrams to a handler.
+ *
+ * Omitted fields match any value.
+ */
+export interface SlpRoute {
+  /** Destination socket ID. */
+  socketId?: SlpSocketId | number;
+  /** Datagram type. */
+  type?: SlpDatagramType;
+}
+
+/** Options for {@link SlpMultiplexer}. */
+export interface SlpMultiplexerOptions {
+  /** Whether to answer loopback datagrams automatically (default: true).
+   *
+   * Note that PadpStream turns this off by default to match the Palm HotSync
+   * desktop; see `PadpStreamOptions.answerSlpLoopback`.
+   */
+  answerLoopback?: boolean;
+}
+
+/** Routes SLP datagrams to handlers by socket ID and datagram type.
+ *
+ * This allows multiple protocols, such as PADP for HotSync alongside Remote
+ * Console or Remote UI, to share the same serial link. Loopback datagrams are
+ * answered automatically.
+ */
+export class SlpMultiplexer {
+  constructor(
+    /** Underlying SLP datagram stream. */
+    readonly slpDatagramStream: SlpDatagramStream,
+    {answerLoopback = true}: SlpMultiplexerOptions = {}
+  ) {
+    this.shouldAnswerLoopback = answerLoopback;
+    this.slpDatagramStream.on('data', this.onReceiveSlpDatagram.bind(this));
+  }
+
+  /** Register a handler for SLP datagrams matching a route.
+   *
+   * If multiple handlers match a datagram, they are invoked in order of
+   * registration. Returns a function that unregisters the handler.
+   */
+  addHandler(route: SlpRoute, handler: SlpDatagramHandler) {
+    const entry = {route, handler};
+    this.handlers.push(entry);
+    return () => {
+      const index = this.handlers.indexOf(entry);
+      if (index >= 0) {
+        this.handlers.splice(index, 1);
+      }
+    };
+  }
+
+  /** Write a serialized SLP datagram to the link. */
+  write(chunk: Buffer, callback?: (error?: Error | null) => void) {
+    const header = SlpDatagramHeader.from(chunk);
+    if (header.type === SlpDatagramType.LOOPBACK) {
+      // Don't answer the reply to our own loopback datagram.
+      this.sentLoopbackXids.add(header.xid);
+    }
+    this.slpDatagramStream.write(chunk, 'buffer' as BufferEncoding, callback);
+  }
+
+  /** Handle receiving a new SLP datagram. */
+  private onReceiveSlpDatagram(chunk: Buffer) {
+    const header = SlpDatagramHeader.from(chunk);
+    if (header.type === SlpDatagramType.LOOPBACK) {
+      if (this.sentLoopbackXids.has(header.xid)) {
+        this.sentLoopbackXids.delete(header.xid);
+      } else if (this.shouldAnswerLoopback) {
+        this.answerLoopback(chunk);
+      }
+    }
+    const handlers = this.handlers.filter(
+      ({route: {socketId, type}}) =>
+        (socketId === undefined || socketId === header.destSocketId) &&
+        (type === undefined || type === header.type)
+    );
+    if (!handlers.length) {
+      if (header.type !== SlpDatagramType.LOOPBACK) {
+        this.log(
+          `--- Ignoring ${SlpDatagramType[header.type] ?? header.type} ` +
+            `datagram for socket ${header.destSocketId}: ` +
+            chunk.toString('hex')
+        );
+      }
+      return;
+    }
+    for (const {handler} of handlers) {
+      handler(chunk, header);
+    }
+  }
+
+  /** Echo a loopback datagram back to the sender. */
+  private answerLoopback(chunk: Buffer) {
+    let datagram: SlpDatagram;
+    try {
+      datagram = SlpDatagram.from(chunk);
+    } catch (e) {
+      this.log(
+        `--- Ignoring LOOPBACK datagram: ` +
+          (e instanceof Error ? e.message : `${e}`)
+      );
+      return;
+    }
+    const reply = new SlpDatagram();
+    reply.header = SlpDatagramHeader.with({
+      destSocketId: datagram.header.srcSocketId,
+      srcSocketId: datagram.header.destSocketId,
+      type: SlpDatagramType.LOOPBACK,
+      xid: datagram.header.xid,
+    });
+    reply.value = datagram.value;
+    this.log(`>>> LOOPBACK xid ${reply.header.xid}`);
+    this.slpDatagramStream.write(
+      reply.serialize(),
+      'buffer' as BufferEncoding,
+      (e) => {
+        if (e) {
+          this.log(`--- Error answering LOOPBACK: ${e.message}`);
+        }
+      }
+    );
+  }
+
+  /** Whether to answer loopback datagrams automatically. */
+  shouldAnswerLoopback: boolean;
+
+  /** Transaction IDs of loopback datagrams we sent that have not been
+   * answered yet. */
+  private readonly sentLoopbackXids = new Set<number>();
+
+  /** Registered handlers. */
+  private readonly handlers: Array<{
+    route: SlpRoute;
+    handler: SlpDatagramHandler;
+  }> = [];
+
+  /** Debugger. */
+  private log = debug('palm-sync').extend('slp');
+}
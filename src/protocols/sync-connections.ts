@@ -1,4 +1,5 @@
 import debug from 'debug';
+import {EventEmitter} from 'events';
 import {Socket} from 'net';
 import pEvent from 'p-event';
 import {DEFAULT_ENCODING} from 'palm-pdb';
@@ -9,6 +10,7 @@ import {
   CMP_MAX_BAUD_RATE,
   doCmpHandshake,
 } from './cmp-protocol';
+import {DeviceCapabilities} from './device-capabilities';
 import {
   DlpEndOfSyncReqType,
   DlpReadSysInfoReqType,
@@ -16,13 +18,23 @@ import {
   DlpReadUserInfoReqType,
   DlpReadUserInfoRespType,
 } from './dlp-commands';
-import {DlpRequest, DlpRespErrorCode, DlpResponseType} from './dlp-protocol';
+import {
+  DlpAbortError,
+  DlpRequest,
+  DlpRespErrorCode,
+  DlpResponse,
+  DlpResponseError,
+  DlpResponseType,
+  DlpTimeoutError,
+  DlpUnsupportedRequestError,
+} from './dlp-protocol';
+import {DlpRpcClient} from './dlp-rpc';
 import {
   NetSyncDatagramStream,
   createNetSyncDatagramStream,
 } from './net-sync-protocol';
-import {PadpStream} from './padp-protocol';
-import {StreamRecorder} from './stream-recorder';
+import {PadpStream, PadpStreamStats} from './padp-protocol';
+import {DataEvent, DataEventType, StreamRecorder} from './stream-recorder';
 
 /** Options for DlpConnection. */
 export interface DlpConnectionOptions {
@@ -30,38 +42,196 @@ export interface DlpConnectionOptions {
   requestSerializeOptions?: SerializeOptions;
   /** Deserialization options for DLP responses. */
   responseDeserializeOptions?: DeserializeOptions;
+  /** Maximum time to wait for each DLP response in milliseconds.
+   *
+   * No timeout by default. Can be overridden per request in `execute()`.
+   */
+  requestTimeoutMs?: number;
+  /** Maximum duration of the whole HotSync session in milliseconds, measured
+   * from when the connection is established.
+   *
+   * No timeout by default.
+   */
+  sessionTimeoutMs?: number;
+  /** Whether to record serialized DLP requests and responses in
+   * `DlpConnection.recorder` (default: false).
+   *
+   * As every datagram is kept in memory for the duration of the session, this
+   * should only be enabled for debugging and testing.
+   */
+  recordDlpData?: boolean;
+}
+
+/** Options for reading data in DlpConnection. */
+export interface DlpReadOptions {
+  /** Maximum time to wait for a response in milliseconds, overriding
+   * `requestTimeoutMs` in DlpConnectionOptions. */
+  timeoutMs?: number;
+  /** Signal for cancelling the request. */
+  signal?: AbortSignal;
+}
+
+/** Options for `DlpConnection.execute()`. */
+export interface DlpExecuteOptions extends DlpReadOptions {
+  /** Whether to throw an error when the response has a non-zero error code.
+   *
+   * By default, `execute()` will throw an error when the response has a
+   * non-zero error code.
+   *
+   * If `ignoreErrorCode` is set to true, `execute()` will ignore non-zero error
+   * codes and return the response as-is.
+   *
+   * If `ignoreErrorCode` is set to one or more error codes, `execute()` will
+   * ignore those specific error codes but will still throw an error for
+   * other error codes.
+   */
+  ignoreErrorCode?: boolean | DlpRespErrorCode | Array<DlpRespErrorCode>;
+}
+
+/** Information about a DLP exchange passed to {@link DlpInterceptor} hooks. */
+export interface DlpInterceptorContext {
+  /** The connection executing the request. */
+  connection: DlpConnection;
+  /** Time at which `execute()` was called, as returned by `Date.now()`. */
+  startTime: number;
+  /** Time elapsed since `execute()` was called, in milliseconds. */
+  durationMs: number;
+}
+
+/** Hooks for observing or modifying DLP exchanges on a DlpConnection.
+ *
+ * See `DlpConnection.use()`.
+ */
+export interface DlpInterceptor {
+  /** Invoked before a request is sent.
+   *
+   * May return a replacement request, or throw to fail the request without
+   * sending it.
+   */
+  onRequest?: (
+    request: DlpRequest<any>,
+    context: DlpInterceptorContext
+  ) => DlpRequest<any> | void | Promise<DlpRequest<any> | void>;
+  /** Invoked after a response is received, including error responses ignored
+   * via `ignoreErrorCode`.
+   *
+   * May return a replacement response.
+   */
+  onResponse?: (
+    response: DlpResponse,
+    request: DlpRequest<any>,
+    context: DlpInterceptorContext
+  ) => DlpResponse | void | Promise<DlpResponse | void>;
+  /** Invoked when executing a request fails. The error is rethrown to the
+   * caller afterwards. */
+  onError?: (
+    error: unknown,
+    request: DlpRequest<any>,
+    context: DlpInterceptorContext
+  ) => void | Promise<void>;
 }
 
 /** Connection to a Palm OS device using the DLP protocol.
  *
  * This class provides a high-level interface for executing DLP commands.
+ *
+ * Emits the following events:
+ *
+ *   - abort (Error) - When the connection is torn down due to a
+ *     {@link DlpTimeoutError} or {@link DlpAbortError}
  */
-export class DlpConnection {
+export class DlpConnection extends EventEmitter {
   constructor(
     /** Underlying transport stream. */
     private readonly transport: Duplex,
     /** Additional options. */
     private readonly opts: DlpConnectionOptions = {}
-  ) {}
+  ) {
+    super();
+    this.sessionDeadline =
+      opts.sessionTimeoutMs === undefined
+        ? null
+        : Date.now() + opts.sessionTimeoutMs;
+    this.recorder = opts.recordDlpData ? new StreamRecorder() : null;
+  }
 
+  /** Send a DLP request and wait for the response.
+   *
+   * Throws DlpUnsupportedRequestError without sending the request if the
+   * device's DLP version is too old for the request.
+   */
   async execute<DlpRequestT extends DlpRequest<any>>(
     request: DlpRequestT,
-    opts: {
-      /** Whether to throw an error when the response has a non-zero error code.
-       *
-       * By default, `execute()` will throw an error when the response has a
-       * non-zero error code.
-       *
-       * If `ignoreErrorCode` is set to true, `execute()` will ignore non-zero error
-       * codes and return the response as-is.
-       *
-       * If `ignoreErrorCode` is set to one or more error codes, `execute()` will
-       * ignore those specific error codes but will still throw an error for
-       * other error codes.
-       */
-      ignoreErrorCode?: boolean | DlpRespErrorCode | Array<DlpRespErrorCode>;
-    } = {}
+    opts: DlpExecuteOptions = {}
   ): Promise<DlpResponseType<DlpRequestT>> {
+    const startTime = Date.now();
+    const getContext = () => ({
+      connection: this,
+      startTime,
+      durationMs: Date.now() - startTime,
+    });
+    try {
+      for (const {onRequest} of this.interceptors) {
+        if (onRequest) {
+          request = ((await onRequest(request, getContext())) ??
+            request) as DlpRequestT;
+        }
+      }
+      let response: DlpResponseType<DlpRequestT> = await this.sendRequest(
+        request,
+        opts
+      );
+      for (const {onResponse} of this.interceptors) {
+        if (onResponse) {
+          response = ((await onResponse(response, request, getContext())) ??
+            response) as DlpResponseType<DlpRequestT>;
+        }
+      }
+      return response;
+    } catch (e) {
+      for (const {onError} of this.interceptors) {
+        await onError?.(e, request, getContext());
+      }
+      throw e;
+    }
+  }
+
+  /** Register an interceptor that observes or modifies every DLP exchange.
+   *
+   * Interceptors are invoked in the order they were registered. Returns a
+   * function that unregisters the interceptor.
+   */
+  use(interceptor: DlpInterceptor) {
+    this.interceptors.push(interceptor);
+    return () => {
+      const index = this.interceptors.indexOf(interceptor);
+      if (index >= 0) {
+        this.interceptors.splice(index, 1);
+      }
+    };
+  }
+
+  /** Serialize and send a request, and wait for the response. */
+  private async sendRequest<DlpRequestT extends DlpRequest<any>>(
+    request: DlpRequestT,
+    opts: DlpExecuteOptions
+  ): Promise<DlpResponseType<DlpRequestT>> {
+    if (this.abortError) {
+      throw this.abortError;
+    }
+    if (opts.signal?.aborted) {
+      throw new DlpAbortError(request, opts.signal.reason);
+    }
+    // Capabilities are not yet known while reading sysInfo at the start of a
+    // session, in which case we send the request as-is.
+    if (this.capabilities && !this.capabilities.supportsRequest(request)) {
+      const error = new DlpUnsupportedRequestError(
+        request,
+        this.capabilities.dlpVersion
+      );
+      this.log(`--- ${error.message}`);
+      throw error;
+    }
     const requestBuffer = request.serialize({
       encoding: DEFAULT_ENCODING,
       ...this.opts.requestSerializeOptions,
@@ -71,8 +241,30 @@ export class DlpConnection {
         `    ${JSON.stringify(request.toJSON())}`
     );
 
+    this.recorder?.dataEvents.push(
+      new DataEvent(DataEventType.WRITE, requestBuffer)
+    );
     this.transport.write(requestBuffer);
-    const responseBuffer = (await pEvent(this.transport, 'data')) as Buffer;
+    return await this.readResponse(request, opts);
+  }
+
+  /** Wait for and parse the next DLP response for a request.
+   *
+   * This is used internally by `execute()`, and can be used directly for DLP
+   * commands that send more than one response for a single request, such as
+   * VFSFileWrite.
+   */
+  async readResponse<DlpRequestT extends DlpRequest<any>>(
+    request: DlpRequestT,
+    opts: {
+      /** See `execute()`. */
+      ignoreErrorCode?: boolean | DlpRespErrorCode | Array<DlpRespErrorCode>;
+    } & DlpReadOptions = {}
+  ): Promise<DlpResponseType<DlpRequestT>> {
+    const responseBuffer = await this.readData(request, opts);
+    this.recorder?.dataEvents.push(
+      new DataEvent(DataEventType.READ, responseBuffer)
+    );
 
     this.log(
       `<<< ${request.responseType.name} ${responseBuffer.toString('hex')}`
@@ -94,12 +286,8 @@ export class DlpConnection {
     if (response.errorCode === DlpRespErrorCode.NONE) {
       this.log(`    ${JSON.stringify(response.toJSON())}`);
     } else {
-      const errorMessage =
-        request.responseType.name +
-        ` error 0x${response.errorCode.toString(16).padStart(2, '0')} ` +
-        `${DlpRespErrorCode[response.errorCode]}: ` +
-        response.errorMessage;
-      this.log(`    ${errorMessage}`);
+      const error = DlpResponseError.create(request, response);
+      this.log(`    ${error.message}`);
       if (
         !opts.ignoreErrorCode ||
         (typeof opts.ignoreErrorCode === 'number' &&
@@ -107,15 +295,135 @@ export class DlpConnection {
         (Array.isArray(opts.ignoreErrorCode) &&
           !opts.ignoreErrorCode.includes(response.errorCode))
       ) {
-        throw new Error(errorMessage);
+        throw error;
       }
     }
 
     return response;
   }
 
+  /** Read raw data sent by the device outside of a DLP response.
+   *
+   * Some DLP commands, such as VFSFileRead, transfer bulk data as raw messages
+   * following the DLP response.
+   */
+  async readRawData(
+    numBytes: number,
+    opts: DlpReadOptions = {}
+  ): Promise<Buffer> {
+    const chunks: Array<Buffer> = [];
+    let numBytesRead = 0;
+    while (numBytesRead < numBytes) {
+      const chunk = await this.readData(null, opts);
+      chunks.push(chunk);
+      numBytesRead += chunk.length;
+    }
+    this.log(`<<< Raw data (${numBytesRead} bytes)`);
+    if (numBytesRead > numBytes) {
+      throw new Error(
+        `Received more raw data than expected: ` +
+          `expected ${numBytes} bytes, got ${numBytesRead}`
+      );
+    }
+    return Buffer.concat(chunks);
+  }
+
+  /** Send raw data to the device outside of a DLP request.
+   *
+   * Some DLP commands, such as VFSFileWrite, transfer bulk data as raw messages
+   * following the DLP request.
+   */
+  async writeRawData(data: Buffer) {
+    this.log(`>>> Raw data (${data.length} bytes)`);
+    this.transport.write(data);
+  }
+
+  /** Tear down the connection, e.g. after a timeout.
+   *
+   * All subsequent requests will fail with the provided error.
+   */
+  abort(error: Error) {
+    if (this.abortError) {
+      return;
+    }
+    this.log(`--- Aborting connection: ${error.message}`);
+    this.abortError = error;
+    this.transport.destroy();
+    this.emit('abort', error);
+  }
+
+  /** Wait for the next datagram from the transport, subject to timeouts and
+   * cancellation. */
+  private async readData(
+    request: DlpRequest<any> | null,
+    opts: DlpReadOptions
+  ): Promise<Buffer> {
+    if (this.abortError) {
+      throw this.abortError;
+    }
+    const {signal} = opts;
+    let timeoutMs = opts.timeoutMs ?? this.opts.requestTimeoutMs;
+    if (this.sessionDeadline !== null) {
+      const remainingMs = Math.max(this.sessionDeadline - Date.now(), 0);
+      timeoutMs =
+        timeoutMs === undefined
+          ? remainingMs
+          : Math.min(timeoutMs, remainingMs);
+    }
+
+    const dataPromise = pEvent(this.transport, 'data');
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let onAbort: (() => void) | undefined;
+    try {
+      return (await new Promise((resolve, reject) => {
+        dataPromise.then(resolve, reject);
+        if (timeoutMs !== undefined) {
+          const error = new DlpTimeoutError(request, timeoutMs);
+          timer = setTimeout(() => reject(error), timeoutMs);
+        }
+        if (signal) {
+          onAbort = () => reject(new DlpAbortError(request, signal.reason));
+          signal.addEventListener('abort', onAbort);
+        }
+      })) as Buffer;
+    } catch (e) {
+      if (e instanceof DlpTimeoutError || e instanceof DlpAbortError) {
+        this.abort(e);
+      }
+      throw e;
+    } finally {
+      dataPromise.cancel();
+      clearTimeout(timer);
+      if (signal && onAbort) {
+        signal.removeEventListener('abort', onAbort);
+      }
+    }
+  }
+
   private log = debug('palm-sync').extend('dlp');
 
+  /** Error that caused the connection to be torn down, if any. */
+  abortError: Error | null = null;
+
+  /** Recorder for serialized DLP requests and responses.
+   *
+   * Unlike `SyncConnection.recorder`, this records DLP datagrams rather than
+   * raw transport data, and does not include raw data transfers. The recorded
+   * events can be decoded with `decodeDlpDataEvents()`.
+   *
+   * Only available if `recordDlpData` is enabled in DlpConnectionOptions.
+   */
+  readonly recorder: StreamRecorder | null;
+
+  /** Interceptors registered via `use()`. */
+  private readonly interceptors: Array<DlpInterceptor> = [];
+
+  /** Time at which the session times out, or null if no session timeout. */
+  private readonly sessionDeadline: number | null;
+
+  /** Typed wrappers for invoking system traps on the device via ProcessRPC. */
+  readonly rpc = new DlpRpcClient(this);
+
   /** System information about the Palm OS device.
    *
    * Configured at the beginning of a HotSync session, so application level
@@ -129,10 +437,49 @@ export class DlpConnection {
    * sync logic can assume this information is available by the time it runs.
    */
   userInfo!: DlpReadUserInfoRespType;
+
+  /** Capabilities of the Palm OS device.
+   *
+   * Configured at the beginning of a HotSync session based on sysInfo, so
+   * application level sync logic can assume this information is available by
+   * the time it runs.
+   */
+  capabilities!: DeviceCapabilities;
+}
+
+/** Events emitted by DlpConnection. */
+export interface DlpConnectionEvents {
+  abort: (error: Error) => void;
+}
+
+// Bind events to DlpConnection type signature.
+export declare interface DlpConnection {
+  on<U extends keyof DlpConnectionEvents>(
+    event: U,
+    listener: DlpConnectionEvents[U]
+  ): this;
+  emit<U extends keyof DlpConnectionEvents>(
+    event: U,
+    ...args: Parameters<DlpConnectionEvents[U]>
+  ): boolean;
 }
 
 /** Options for SyncConnection. */
-export interface SyncConnectionOptions extends DlpConnectionOptions {}
+export interface SyncConnectionOptions extends DlpConnectionOptions {
+  /** Whether to query additional device capabilities at the beginning of a
+   * HotSync session (default: false).
+   *
+   * Support for individual DLP commands, such as `supportsFindDb` and
+   * `supportsStreamRecords`, is always computed from ReadSysInfo. Probing
+   * additionally populates information that requires extra DLP requests, such
+   * as Expansion / VFS Manager versions and storage info, and refines
+   * `supportsVfs` accordingly. It's off by default to avoid adding round trips
+   * to every HotSync session; the palm-sync CLI turns it on.
+   *
+   * See {@link DeviceCapabilities.probe}.
+   */
+  probeDeviceCapabilities?: boolean;
+}
 
 /** Base class for HotSync connections.
  *
@@ -154,6 +501,9 @@ export abstract class SyncConnection<DlpStreamT extends Duplex = Duplex> {
       this.recorder.record(this.rawStream)
     );
     this.dlpConnection = new DlpConnection(this.dlpTransportStream, this.opts);
+    // Close the underlying connection if the DLP connection is torn down, e.g.
+    // due to a timeout.
+    this.dlpConnection.on('abort', () => this.rawStream.destroy());
 
     this.log(`Connection established`);
 
@@ -191,16 +541,35 @@ export abstract class SyncConnection<DlpStreamT extends Duplex = Duplex> {
     this.dlpConnection.sysInfo = await this.dlpConnection.execute(
       new DlpReadSysInfoReqType()
     );
+    this.dlpConnection.capabilities = DeviceCapabilities.fromSysInfo(
+      this.dlpConnection.sysInfo
+    );
     this.dlpConnection.userInfo = await this.dlpConnection.execute(
       new DlpReadUserInfoReqType()
     );
+    if (this.opts.probeDeviceCapabilities) {
+      await this.dlpConnection.capabilities.probe(this.dlpConnection);
+    }
   }
 
   /** Common DLP operations to run at the end of a HotSync session. */
   async end() {
+    if (this.dlpConnection.abortError) {
+      this.log('Skipping end of sync as the connection was aborted');
+      return;
+    }
     await this.dlpConnection.execute(new DlpEndOfSyncReqType());
   }
 
+  /** Link statistics for this session, or null if not supported by the
+   * transport.
+   *
+   * Currently only available for serial connections.
+   */
+  get linkStats(): PadpStreamStats | null {
+    return null;
+  }
+
   /** Logger. */
   protected readonly log = debug('palm-sync').extend('sync');
 
@@ -218,6 +587,21 @@ export abstract class SyncConnection<DlpStreamT extends Duplex = Duplex> {
 export interface SerialSyncConnectionOptions extends SyncConnectionOptions {
   /** Maximum baud rate supported by the server. */
   maxBaudRate?: number;
+  /** Number of times to try sending a PADP datagram before assuming failure
+   * (default: PADP_MAX_RETRIES).
+   *
+   * Slow IR-to-serial adapters and long cables may need more retries.
+   */
+  padpMaxRetries?: number;
+  /** Time to wait for a PADP ACK before resending, in milliseconds (default:
+   * PADP_ACK_WAIT_MS). */
+  padpAckTimeoutMs?: number;
+  /** Whether to answer SLP loopback datagrams on the link (default: false,
+   * matching the Palm HotSync desktop).
+   *
+   * See `PadpStreamOptions.answerSlpLoopback`.
+   */
+  answerSlpLoopback?: boolean;
 }
 
 /** Serial protocol stack - SLP, PADP, CMP. */
@@ -232,7 +616,16 @@ export class SerialSyncConnection extends SyncConnection<PadpStream> {
   }
 
   protected override createDlpTransportStream(rawStream: Duplex): PadpStream {
-    return new PadpStream(rawStream);
+    const {
+      padpMaxRetries,
+      padpAckTimeoutMs,
+      answerSlpLoopback,
+    }: SerialSyncConnectionOptions = this.opts;
+    return new PadpStream(rawStream, {
+      maxRetries: padpMaxRetries,
+      ackTimeoutMs: padpAckTimeoutMs,
+      answerSlpLoopback,
+    });
   }
   override async doHandshake() {
     const {baudRate} = await doCmpHandshake(
@@ -249,6 +642,24 @@ export class SerialSyncConnection extends SyncConnection<PadpStream> {
    * after handshake.
    */
   baudRate = CMP_INITIAL_BAUD_RATE;
+
+  /** Number of times a PADP datagram had to be resent in this session. */
+  get padpRetryCount() {
+    return this.dlpTransportStream.stats.retries;
+  }
+
+  /** SLP multiplexer for the serial link.
+   *
+   * Handlers for non-DLP sockets, such as Remote Console, can be registered
+   * here to share the link with HotSync.
+   */
+  get slpMultiplexer() {
+    return this.dlpTransportStream.slpMultiplexer;
+  }
+
+  override get linkStats(): PadpStreamStats {
+    return {...this.dlpTransportStream.stats};
+  }
 }
 
 /** NetSync protocol stack - NetSync. */
@@ -292,32 +703,32 @@ export class NetSyncConnection extends SyncConnection<NetSyncDatagramStream> {
 }
 
 /** Magic handshake request 1 from client to server. */
-const NET_SYNC_HANDSHAKE_REQUEST_1 = Buffer.from([
+export const NET_SYNC_HANDSHAKE_REQUEST_1 = Buffer.from([
   0x90, 0x01, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00, 0x20, 0x00, 0x00, 0x00,
   0x08, 0x01, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00,
 ]);
 /** Magic handshake response 1 from server to client. */
-const NET_SYNC_HANDSHAKE_RESPONSE_1 = Buffer.from([
+export const NET_SYNC_HANDSHAKE_RESPONSE_1 = Buffer.from([
   0x12, 0x01, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00, 0x20, 0x00, 0x00, 0x00,
   0x24, 0xff, 0xff, 0xff, 0xff, 0x3c, 0x00, 0x3c, 0x00, 0x00, 0x00, 0x00, 0x00,
   0x00, 0x00, 0x00, 0x00, 0xc0, 0xa8, 0x01, 0x21, 0x04, 0x27, 0x00, 0x00, 0x00,
   0x00, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00,
 ]);
 /** Magic handshake request 2 from client to server. */
-const NET_SYNC_HANDSHAKE_REQUEST_2 = Buffer.from([
+export const NET_SYNC_HANDSHAKE_REQUEST_2 = Buffer.from([
   0x92, 0x01, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00, 0x20, 0x00, 0x00, 0x00,
   0x24, 0xff, 0xff, 0xff, 0xff, 0x00, 0x3c, 0x00, 0x3c, 0x40, 0x00, 0x00, 0x00,
   0x01, 0x00, 0x00, 0x00, 0xc0, 0xa8, 0xa5, 0x1e, 0x04, 0x01, 0x00, 0x00, 0x00,
   0x00, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00,
 ]);
 /** Magic handshake response 2 from server to client. */
-const NET_SYNC_HANDSHAKE_RESPONSE_2 = Buffer.from([
+export const NET_SYNC_HANDSHAKE_RESPONSE_2 = Buffer.from([
   0x13, 0x01, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00, 0x20, 0x00, 0x00, 0x00,
   0x20, 0xff, 0xff, 0xff, 0xff, 0x00, 0x3c, 0x00, 0x3c, 0x00, 0x00, 0x00, 0x00,
   0x00, 0x00, 0x00, 0x01, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00,
   0x00, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00,
 ]);
 /** Magic handshake request 3 from client to server. */
-const NET_SYNC_HANDSHAKE_REQUEST_3 = Buffer.from([
+export const NET_SYNC_HANDSHAKE_REQUEST_3 = Buffer.from([
   0x93, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00,
 ]);
@@ -1,8 +1,10 @@
+import os from 'os';
 import {
   DlpReadDBListFlags,
   DlpReadDBListReqType,
 } from '../protocols/dlp-commands';
 import {NetSyncConnection} from '../protocols/sync-connections';
+import {NetSyncInfo} from '../sync-utils/netsync-info';
 import {TcpSyncServer} from './tcp-sync-server';
 
 /** HotSync port to listen on. */
@@ -17,6 +19,25 @@ export class NetworkSyncServer extends TcpSyncServer<NetSyncConnection> {
   port = NET_SYNC_PORT;
 }
 
+/** Get the network HotSync configuration that points a device at this
+ * machine, using its host name and first external IPv4 address.
+ */
+export function getLocalNetSyncInfo(): NetSyncInfo {
+  const addresses = Object.values(os.networkInterfaces())
+    .flatMap((addressInfos) => addressInfos ?? [])
+    .filter(({family, internal}) => family === 'IPv4' && !internal);
+  if (addresses.length === 0) {
+    throw new Error('Could not find an external IPv4 address');
+  }
+  const {address, netmask} = addresses[0];
+  return {
+    lanSyncOn: true,
+    syncPcName: os.hostname(),
+    syncPcAddr: address,
+    syncPcMask: netmask,
+  };
+}
+
 if (require.main === module) {
   const syncServer = new NetworkSyncServer(async (dlpConnection) => {
     const readDbListResp = await dlpConnection.execute(
@@ -100,7 +100,7 @@ export class SerialSyncServer extends SyncServer {
     }
 
     await connection.end();
-    this.emit('disconnect', connection);
+    this.emit('disconnect', connection, connection.linkStats);
   }
 
   private async run() {
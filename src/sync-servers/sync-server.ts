@@ -1,4 +1,5 @@
 import {EventEmitter} from 'events';
+import {PadpStreamStats} from '../protocols/padp-protocol';
 import {
   DlpConnection,
   SyncConnection,
@@ -13,7 +14,8 @@ export type SyncFn = (connection: DlpConnection) => Promise<void>;
  * Emits the following events:
  *
  *   - connect ({@link SyncConnection}) - When new HotSync connection is established
- *   - disconnect ({@link SyncConnection}) - When HotSync connection is complete
+ *   - disconnect ({@link SyncConnection}, {@link PadpStreamStats} | null) - When
+ *     HotSync connection is complete, with link statistics for the session
  */
 export abstract class SyncServer extends EventEmitter {
   constructor(
@@ -38,7 +40,10 @@ export abstract class SyncServer extends EventEmitter {
 /** Events emitted by SyncServer. */
 export interface SyncServerEvents {
   connect: (connection: SyncConnection) => void;
-  disconnect: (connection: SyncConnection) => void;
+  disconnect: (
+    connection: SyncConnection,
+    linkStats: PadpStreamStats | null
+  ) => void;
 }
 
 // Bind events to SyncServer type signature.
@@ -64,7 +64,7 @@ export abstract class TcpSyncServer<
     }
 
     await connection.end();
-    this.emit('disconnect', connection);
+    this.emit('disconnect', connection, connection.linkStats);
   }
 
   /** Debugger. */
@@ -335,7 +335,7 @@ export class UsbSyncServer extends SyncServer {
     }
 
     await connection.end();
-    this.emit('disconnect', connection);
+    this.emit('disconnect', connection, connection.linkStats);
   }
 
   /** Wait for a supported USB device.
@@ -237,7 +237,7 @@ export class WebSerialSyncServer extends SyncServer {
     }
 
     await connection.end();
-    this.emit('disconnect', connection);
+    this.emit('disconnect', connection, connection.linkStats);
   }
 
   private log = debug('palm-sync').extend('web-serial');
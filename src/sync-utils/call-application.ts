@@ -0,0 +1,70 @@
+/** Calling application entry points on a Palm OS device using HotSync.
+ *
+ * References:
+ *   - pilot-link's dlp_CallApplication() function:
+ *     https://github.com/jichu4n/pilot-link/blob/master/libpisock/dlp.c
+ *
+ * @module
+ */
+import debug from 'debug';
+import {
+  DlpCallApplicationReqType,
+  DlpCallApplicationReqTypeV10,
+} from '../protocols/dlp-commands';
+import {DlpConnection} from '../protocols/sync-connections';
+
+const log = debug('palm-sync').extend('call-application');
+
+/** Result of {@link callApplication}. */
+export interface CallApplicationResult {
+  /** Result code returned by the application. */
+  resultCode: number;
+  /** Result data returned by the application. */
+  resultData: Buffer;
+}
+
+/** Call an application on the device with a custom launch code.
+ *
+ * Uses the Palm OS 2.0 request format when supported by the device, and falls
+ * back to the Palm OS 1.0 format otherwise, in which case the app type is
+ * ignored.
+ */
+export async function callApplication(
+  dlpConnection: DlpConnection,
+  /** Creator ID of the application. */
+  creator: string,
+  /** Type of the application database, typically 'appl'. */
+  type: string,
+  /** Launch code to call the application with. */
+  action: number,
+  /** Custom parameter data passed to the application. */
+  paramData: Buffer = Buffer.alloc(0)
+): Promise<CallApplicationResult> {
+  if (!Number.isInteger(action) || action < 0 || action > 0xffff) {
+    throw new Error(
+      `Invalid launch code ${action}: must be an integer from 0 to 65535`
+    );
+  }
+  log(
+    `Calling application ${creator} / ${type} with action ${action} ` +
+      `(${paramData.length} bytes)`
+  );
+  if (
+    dlpConnection.capabilities &&
+    !dlpConnection.capabilities.supportsCallApplicationV2
+  ) {
+    if (paramData.length > 0xffff) {
+      throw new Error(
+        `Parameter data too large for device: ${paramData.length} bytes`
+      );
+    }
+    const {resultCode, resultData} = await dlpConnection.execute(
+      DlpCallApplicationReqTypeV10.with({creator, action, paramData})
+    );
+    return {resultCode, resultData};
+  }
+  const {resultCode, resultData} = await dlpConnection.execute(
+    DlpCallApplicationReqType.with({creator, type, action, paramData})
+  );
+  return {resultCode, resultData};
+}
@@ -0,0 +1,289 @@
+/** Managing record categories of a database on a Palm OS device using HotSync.
+ *
+ * Category labels are stored in the database's AppInfo block using the
+ * standard category structure (palm-pdb's {@link AppInfoType}), while each
+ * record stores the index of its category in its attributes. The helpers here
+ * keep both in sync.
+ *
+ * @module
+ */
+import debug from 'debug';
+import {
+  AppInfoType,
+  Category,
+  CATEGORY_LABEL_LENGTH,
+  NUM_CATEGORIES,
+} from 'palm-pdb';
+import {SArray, SStringNT, SUInt8} from 'serio';
+import {
+  DlpCloseDBReqType,
+  DlpDeleteRecordByCategoryReqType,
+  DlpMoveCategoryReqType,
+  DlpOpenDBMode,
+  DlpOpenDBReqType,
+  DlpReadAppBlockReqType,
+  DlpWriteAppBlockReqType,
+} from '../protocols/dlp-commands';
+import {DlpConnection} from '../protocols/sync-connections';
+
+const log = debug('palm-sync').extend('categories');
+
+/** Index of the "Unfiled" category, which cannot be removed. */
+export const UNFILED_CATEGORY_INDEX = 0;
+
+/** Information about a category in a database. */
+export interface CategoryInfo {
+  /** Index of the category, as stored in record attributes. */
+  index: number;
+  /** Name of the category. */
+  label: string;
+  /** Unique ID of the category. */
+  uniqId: number;
+}
+
+/** Options for category operations. */
+export interface CategoryOptions {
+  /** Card number on the Palm OS device (typically 0). */
+  cardNo?: number;
+}
+
+/** A category specified either by index or by label.
+ *
+ * As labels may consist of digits (e.g. "2024"), an index that is not a
+ * defined category falls back to matching a label equal to the index.
+ */
+export type CategorySpec = number | string;
+
+/** List the categories defined in a database. */
+export async function readCategories(
+  dlpConnection: DlpConnection,
+  /** Database name. */
+  name: string,
+  opts: CategoryOptions = {}
+): Promise<Array<CategoryInfo>> {
+  return await withCategories(
+    dlpConnection,
+    name,
+    {...opts, write: false},
+    async (appInfo) => getCategoryInfoList(appInfo)
+  );
+}
+
+/** Rename a category in a database. */
+export async function renameCategory(
+  dlpConnection: DlpConnection,
+  /** Database name. */
+  name: string,
+  /** Category to rename. */
+  category: CategorySpec,
+  /** New name of the category. */
+  label: string,
+  opts: CategoryOptions = {}
+) {
+  await withCategories(
+    dlpConnection,
+    name,
+    {...opts, write: true},
+    async (appInfo) => {
+      const index = resolveCategory(appInfo, category);
+      if (!label || label.length >= CATEGORY_LABEL_LENGTH) {
+        throw new Error(
+          `Category name must be 1 to ${CATEGORY_LABEL_LENGTH - 1} characters`
+        );
+      }
+      if (
+        getCategoryInfoList(appInfo).some(
+          (info) => info.index !== index && info.label === label
+        )
+      ) {
+        throw new Error(`Category "${label}" already exists in ${name}`);
+      }
+      log(`Renaming category ${index} in ${name} to "${label}"`);
+      Object.assign(appInfo.categories[index], {label, isRenamed: true});
+    }
+  );
+}
+
+/** Move all records in a category to another category, and remove the source
+ * category.
+ *
+ * This is used to merge two categories.
+ */
+export async function moveCategory(
+  dlpConnection: DlpConnection,
+  /** Database name. */
+  name: string,
+  /** Category to move records out of. */
+  fromCategory: CategorySpec,
+  /** Category to move records into. */
+  toCategory: CategorySpec,
+  opts: CategoryOptions = {}
+) {
+  await withCategories(
+    dlpConnection,
+    name,
+    {...opts, write: true},
+    async (appInfo, dbId) => {
+      const fromIndex = resolveCategory(appInfo, fromCategory);
+      const toIndex = resolveCategory(appInfo, toCategory);
+      if (fromIndex === toIndex) {
+        throw new Error('Cannot move a category into itself');
+      }
+      assertRemovable(fromIndex);
+      log(`Moving records in ${name} from category ${fromIndex} to ${toIndex}`);
+      await dlpConnection.execute(
+        DlpMoveCategoryReqType.with({
+          dbId,
+          fromCategory: fromIndex,
+          toCategory: toIndex,
+        })
+      );
+      clearCategory(appInfo, fromIndex);
+    }
+  );
+}
+
+/** Delete all records in a category and remove the category.
+ *
+ * Requires Palm OS 2.0 and above.
+ */
+export async function deleteCategory(
+  dlpConnection: DlpConnection,
+  /** Database name. */
+  name: string,
+  /** Category to delete. */
+  category: CategorySpec,
+  opts: CategoryOptions = {}
+) {
+  await withCategories(
+    dlpConnection,
+    name,
+    {...opts, write: true},
+    async (appInfo, dbId) => {
+      const index = resolveCategory(appInfo, category);
+      assertRemovable(index);
+      log(`Deleting records in ${name} in category ${index}`);
+      await dlpConnection.execute(
+        DlpDeleteRecordByCategoryReqType.with({dbId, category: index})
+      );
+      clearCategory(appInfo, index);
+    }
+  );
+}
+
+/** Open a database, parse its categories, and run the provided function.
+ *
+ * If `write` is true, the updated categories are written back to the AppInfo
+ * block, preserving any app-specific data that follows them.
+ */
+async function withCategories<T>(
+  dlpConnection: DlpConnection,
+  name: string,
+  opts: CategoryOptions & {write: boolean},
+  fn: (appInfo: AppInfoType, dbId: number) => Promise<T>
+): Promise<T> {
+  const {cardNo = 0, write} = opts;
+  const {dbId} = await dlpConnection.execute(
+    DlpOpenDBReqType.with({
+      cardNo,
+      name,
+      mode: DlpOpenDBMode.with({read: true, write, secret: true}),
+    })
+  );
+  try {
+    const {data} = await dlpConnection.execute(
+      DlpReadAppBlockReqType.with({dbId})
+    );
+    const appInfo = parseAppInfo(data);
+    const result = await fn(appInfo, dbId);
+    if (write) {
+      const appInfoData = appInfo.serialize();
+      await dlpConnection.execute(
+        DlpWriteAppBlockReqType.with({
+          dbId,
+          data: Buffer.concat([appInfoData, data.subarray(appInfoData.length)]),
+        })
+      );
+    }
+    return result;
+  } finally {
+    await dlpConnection.execute(DlpCloseDBReqType.with({dbId}));
+  }
+}
+
+/** Parse the categories in an AppInfo block.
+ *
+ * AppInfoType stops at the first unused category slot, but slots can be cleared
+ * individually (e.g. by moveCategory and deleteCategory). To avoid dropping
+ * the categories that follow when writing the AppInfo block back, we fill in
+ * all NUM_CATEGORIES slots from the raw data.
+ */
+function parseAppInfo(data: Buffer) {
+  const appInfo = AppInfoType.from(data);
+  const renamedCategories = data.readUInt16BE(0);
+  const labelsOffset = 2;
+  const uniqIdsOffset = labelsOffset + NUM_CATEGORIES * CATEGORY_LABEL_LENGTH;
+  const labels: Array<string> = SArray.of(
+    SStringNT.ofLength(CATEGORY_LABEL_LENGTH)
+  )
+    .ofLength(NUM_CATEGORIES)
+    .from(data.subarray(labelsOffset)).value;
+  const uniqIds: Array<number> = SArray.of(SUInt8)
+    .ofLength(NUM_CATEGORIES)
+    .from(data.subarray(uniqIdsOffset)).value;
+  appInfo.categories = labels.map((label, i) =>
+    Category.with({
+      label,
+      uniqId: uniqIds[i],
+      isRenamed: !!(renamedCategories & (1 << i)),
+    })
+  );
+  return appInfo;
+}
+
+/** Returns the categories with a non-empty label. */
+function getCategoryInfoList(appInfo: AppInfoType): Array<CategoryInfo> {
+  return appInfo.categories
+    .map(({label, uniqId}, index) => ({index, label, uniqId}))
+    .filter(({label}) => !!label);
+}
+
+/** Resolve a category specified by index or label to its index. */
+function resolveCategory(appInfo: AppInfoType, category: CategorySpec) {
+  if (
+    typeof category === 'number' &&
+    Number.isInteger(category) &&
+    category >= 0 &&
+    category < NUM_CATEGORIES &&
+    appInfo.categories[category].label
+  ) {
+    return category;
+  }
+  const label = `${category}`;
+  const index = appInfo.categories.findIndex(
+    (info) => !!info.label && info.label === label
+  );
+  if (index < 0) {
+    throw new Error(
+      typeof category === 'number'
+        ? `Category ${category} not found`
+        : `Category "${category}" not found`
+    );
+  }
+  return index;
+}
+
+function assertRemovable(index: number) {
+  if (index === UNFILED_CATEGORY_INDEX) {
+    throw new Error('Cannot remove the Unfiled category');
+  }
+}
+
+/** Mark a category slot as unused. */
+function clearCategory(appInfo: AppInfoType, index: number) {
+  Object.assign(appInfo.categories[index], {
+    label: '',
+    uniqId: 0,
+    isRenamed: false,
+  });
+}
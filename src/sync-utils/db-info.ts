@@ -0,0 +1,138 @@
+/** Changing database metadata on a Palm OS device using HotSync.
+ *
+ * @module
+ */
+import debug from 'debug';
+import {DatabaseAttrs} from 'palm-pdb';
+import {
+  DLP_SET_DB_INFO_NO_VERSION_CHANGE,
+  DlpCloseDBReqType,
+  DlpFuncId,
+  DlpOpenDBMode,
+  DlpOpenDBReqType,
+  DlpSetDBInfoReqType,
+} from '../protocols/dlp-commands';
+import {DlpConnection} from '../protocols/sync-connections';
+
+const log = debug('palm-sync').extend('db-info');
+
+/** Database attribute flags that can be changed with {@link setDbInfo}. */
+export type SettableDbAttrs = Pick<
+  DatabaseAttrs,
+  | 'appInfoDirty'
+  | 'backup'
+  | 'okToInstallNewer'
+  | 'resetAfterInstall'
+  | 'copyPrevention'
+  | 'hidden'
+>;
+
+/** Changes to database metadata. Fields that are not specified are left
+ * unchanged. */
+export interface DbInfoChanges {
+  /** New database name. */
+  name?: string;
+  /** New database type. */
+  type?: string;
+  /** New database creator. */
+  creator?: string;
+  /** New database version, from 0 to 65534. */
+  version?: number;
+  /** New creation date. */
+  creationDate?: Date;
+  /** New modification date. */
+  modificationDate?: Date;
+  /** New last backup date. */
+  lastBackupDate?: Date;
+  /** Attribute flags to set (true) or clear (false).
+   *
+   * Note that `hidden` is not documented as supported by SetDBInfo, and may be
+   * ignored by some devices.
+   */
+  attributes?: Partial<SettableDbAttrs>;
+}
+
+/** Largest database version that can be set with SetDBInfo.
+ *
+ * 0xffff is reserved to mean "don't change".
+ */
+export const MAX_DB_VERSION = DLP_SET_DB_INFO_NO_VERSION_CHANGE - 1;
+
+/** Whether a value can be set as a database version with SetDBInfo. */
+export function isValidDbVersion(version: number) {
+  return Number.isInteger(version) && version >= 0 && version <= MAX_DB_VERSION;
+}
+
+/** Change the metadata of a database on the device.
+ *
+ * Requires DLP 1.2 (Palm OS 3.0) and above.
+ */
+export async function setDbInfo(
+  dlpConnection: DlpConnection,
+  /** Current database name. */
+  name: string,
+  changes: DbInfoChanges,
+  opts: {
+    /** Card number on the Palm OS device (typically 0). */
+    cardNo?: number;
+  } = {}
+) {
+  const {cardNo = 0} = opts;
+  if (
+    dlpConnection.capabilities &&
+    !dlpConnection.capabilities.supportsCommand(DlpFuncId.SetDBInfo)
+  ) {
+    throw new Error('Changing database info requires Palm OS 3.0 or later');
+  }
+  if (changes.version !== undefined && !isValidDbVersion(changes.version)) {
+    throw new Error(
+      `Invalid database version ${changes.version}: must be an integer ` +
+        `from 0 to ${MAX_DB_VERSION}`
+    );
+  }
+
+  const req = new DlpSetDBInfoReqType();
+  for (const [flag, value] of Object.entries(changes.attributes ?? {}) as Array<
+    [keyof SettableDbAttrs, boolean | undefined]
+  >) {
+    if (value !== undefined) {
+      (value ? req.setDbFlags : req.clrDbFlags)[flag] = true;
+    }
+  }
+  if (changes.version !== undefined) {
+    req.dbVersion = changes.version;
+  }
+  if (changes.creationDate) {
+    req.crDate = changes.creationDate;
+  }
+  if (changes.modificationDate) {
+    req.modDate = changes.modificationDate;
+  }
+  if (changes.lastBackupDate) {
+    req.bckUpDate = changes.lastBackupDate;
+  }
+  if (changes.type) {
+    req.type = changes.type;
+  }
+  if (changes.creator) {
+    req.creator = changes.creator;
+  }
+  if (changes.name) {
+    req.name = changes.name;
+  }
+
+  const {dbId} = await dlpConnection.execute(
+    DlpOpenDBReqType.with({
+      cardNo,
+      name,
+      mode: DlpOpenDBMode.with({read: true, write: true, secret: true}),
+    })
+  );
+  try {
+    req.dbId = dbId;
+    log(`Setting database info for ${name}: ${JSON.stringify(changes)}`);
+    await dlpConnection.execute(req);
+  } finally {
+    await dlpConnection.execute(DlpCloseDBReqType.with({dbId}));
+  }
+}
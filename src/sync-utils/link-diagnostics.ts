@@ -0,0 +1,139 @@
+/** Measuring the quality of the link to a Palm OS device using DLP loopback
+ * tests.
+ *
+ * @module
+ */
+import debug from 'debug';
+import {DlpFuncId, DlpLoopBackTestReqType} from '../protocols/dlp-commands';
+import {DlpConnection} from '../protocols/sync-connections';
+
+const log = debug('palm-sync').extend('link-diagnostics');
+
+/** Default payload sizes to test, in bytes. */
+export const DEFAULT_LOOPBACK_PAYLOAD_SIZES = [
+  0, 64, 256, 1024, 4096, 16384, 65536,
+];
+
+/** Result of loopback tests with a single payload size. */
+export interface LoopbackTestResult {
+  /** Payload size in bytes. */
+  size: number;
+  /** Number of successful round trips. */
+  numRoundTrips: number;
+  /** Average round-trip time in milliseconds. */
+  avgRoundTripMs: number;
+  /** Minimum round-trip time in milliseconds. */
+  minRoundTripMs: number;
+  /** Maximum round-trip time in milliseconds. */
+  maxRoundTripMs: number;
+  /** Effective throughput in bytes per second, counting data in both
+   * directions. */
+  throughput: number;
+  /** Error encountered, if any. */
+  error: Error | null;
+}
+
+/** Result of {@link runLinkDiagnostics}. */
+export interface LinkDiagnosticsResult {
+  /** Results for each payload size tested. */
+  results: Array<LoopbackTestResult>;
+  /** Largest payload size that succeeded, or -1 if none succeeded. */
+  maxSuccessfulSize: number;
+}
+
+/** Options for {@link runLinkDiagnostics}. */
+export interface LinkDiagnosticsOptions {
+  /** Payload sizes to test, in bytes. */
+  sizes?: Array<number>;
+  /** Number of round trips for each payload size. */
+  iterations?: number;
+  /** Callback invoked after each payload size is tested. */
+  onResult?: (result: LoopbackTestResult) => void;
+}
+
+/** Send loopback test requests with increasing payload sizes and measure
+ * round-trip latency and throughput.
+ *
+ * Stops at the first payload size that fails, as the connection may no longer
+ * be usable afterwards.
+ *
+ * Requires DLP 1.3 (Palm OS 4.0) and above.
+ */
+export async function runLinkDiagnostics(
+  dlpConnection: DlpConnection,
+  opts: LinkDiagnosticsOptions = {}
+): Promise<LinkDiagnosticsResult> {
+  const {
+    sizes = DEFAULT_LOOPBACK_PAYLOAD_SIZES,
+    iterations = 3,
+    onResult,
+  } = opts;
+  if (
+    dlpConnection.capabilities &&
+    !dlpConnection.capabilities.supportsCommand(DlpFuncId.LoopBackTest)
+  ) {
+    throw new Error('Loopback tests require Palm OS 4.0 or later');
+  }
+
+  const results: Array<LoopbackTestResult> = [];
+  let maxSuccessfulSize = -1;
+  for (const size of [...sizes].sort((a, b) => a - b)) {
+    const result = await runLoopbackTest(dlpConnection, size, iterations);
+    results.push(result);
+    onResult?.(result);
+    if (result.error) {
+      break;
+    }
+    maxSuccessfulSize = size;
+  }
+  return {results, maxSuccessfulSize};
+}
+
+/** Run loopback tests with a single payload size. */
+async function runLoopbackTest(
+  dlpConnection: DlpConnection,
+  size: number,
+  iterations: number
+): Promise<LoopbackTestResult> {
+  const data = Buffer.alloc(size);
+  for (let i = 0; i < size; ++i) {
+    data[i] = i & 0xff;
+  }
+  const roundTripTimes: Array<number> = [];
+  let error: Error | null = null;
+  for (let i = 0; i < iterations; ++i) {
+    const startTime = performance.now();
+    try {
+      const resp = await dlpConnection.execute(
+        DlpLoopBackTestReqType.with({data})
+      );
+      if (!resp.data.equals(data)) {
+        throw new Error(
+          `Loopback data mismatch: sent ${size} bytes, ` +
+            `received ${resp.data.length} bytes`
+        );
+      }
+    } catch (e) {
+      error = e instanceof Error ? e : new Error(`${e}`);
+      break;
+    }
+    roundTripTimes.push(performance.now() - startTime);
+  }
+  const totalMs = roundTripTimes.reduce((sum, t) => sum + t, 0);
+  const numRoundTrips = roundTripTimes.length;
+  const result: LoopbackTestResult = {
+    size,
+    numRoundTrips,
+    avgRoundTripMs: numRoundTrips ? totalMs / numRoundTrips : 0,
+    minRoundTripMs: numRoundTrips ? Math.min(...roundTripTimes) : 0,
+    maxRoundTripMs: numRoundTrips ? Math.max(...roundTripTimes) : 0,
+    throughput: totalMs ? (2 * size * numRoundTrips * 1000) / totalMs : 0,
+    error,
+  };
+  log(
+    `Loopback ${size} bytes: ${numRoundTrips}/${iterations} OK, ` +
+      `avg ${result.avgRoundTripMs.toFixed(1)} ms` +
+      (error ? `, error: ${error.message}` : '')
+  );
+  return result;
+}
@@ -0,0 +1,66 @@
+/** Reading and writing network HotSync configuration on a Palm OS device.
+ *
+ * @module
+ */
+import debug from 'debug';
+import {
+  DlpNetSyncInfoModFlags,
+  DlpReadNetSyncInfoReqType,
+  DlpWriteNetSyncInfoReqType,
+} from '../protocols/dlp-commands';
+import {DlpConnection} from '../protocols/sync-connections';
+
+const log = debug('palm-sync').extend('netsync-info');
+
+/** Network HotSync configuration of a device. */
+export interface NetSyncInfo {
+  /** Whether LAN sync is enabled. */
+  lanSyncOn: boolean;
+  /** Sync PC host name. */
+  syncPcName: string;
+  /** Sync PC IP address. */
+  syncPcAddr: string;
+  /** Sync PC subnet mask. */
+  syncPcMask: string;
+}
+
+/** Read the network HotSync configuration of the device.
+ *
+ * Requires DLP 1.1 (Palm OS 2.0) and above.
+ */
+export async function readNetSyncInfo(
+  dlpConnection: DlpConnection
+): Promise<NetSyncInfo> {
+  const {lanSyncOn, syncPcName, syncPcAddr, syncPcMask} =
+    await dlpConnection.execute(DlpReadNetSyncInfoReqType.with({}));
+  return {lanSyncOn: !!lanSyncOn, syncPcName, syncPcAddr, syncPcMask};
+}
+
+/** Update the network HotSync configuration of the device.
+ *
+ * Only the fields specified in `info` are modified.
+ *
+ * Requires DLP 1.1 (Palm OS 2.0) and above.
+ */
+export async function writeNetSyncInfo(
+  dlpConnection: DlpConnection,
+  info: Partial<NetSyncInfo>
+) {
+  const {lanSyncOn, syncPcName, syncPcAddr, syncPcMask} = info;
+  const modFlags = DlpNetSyncInfoModFlags.with({
+    lanSyncOn: lanSyncOn !== undefined,
+    syncPcName: syncPcName !== undefined,
+    syncPcAddr: syncPcAddr !== undefined,
+    syncPcMask: syncPcMask !== undefined,
+  });
+  log(`Writing NetSync info: ${JSON.stringify(info)}`);
+  await dlpConnection.execute(
+    DlpWriteNetSyncInfoReqType.with({
+      modFlags,
+      lanSyncOn: lanSyncOn ? 1 : 0,
+      syncPcName: syncPcName ?? '',
+      syncPcAddr: syncPcAddr ?? '',
+      syncPcMask: syncPcMask ?? '',
+    })
+  );
+}
@@ -23,6 +23,7 @@ import {DeserializeOptions, SBuffer, Serializable} from 'serio';
 import {
   DlpCloseDBReqType,
   DlpDBInfoType,
+  DlpFindDBByNameReqType,
   DlpFindDBByOpenHandleReqType,
   DlpFindDBOptFlags,
   DlpOpenConduitReqType,
@@ -34,14 +35,25 @@ import {
   DlpReadOpenDBInfoReqType,
   DlpReadRecordByIndexReqType,
   DlpReadRecordRespType,
+  DlpReadRecordStreamReqType,
+  DlpReadRecordStreamRespType,
   DlpReadResourceByIndexReqType,
   DlpReadResourceRespType,
+  DlpReadResourceStreamReqType,
+  DlpReadResourceStreamRespType,
   DlpReadSortBlockReqType,
   DlpRecordAttrs,
+  DlpVFSExportDatabaseToFileReqType,
 } from '../protocols/dlp-commands';
-import {DlpRespErrorCode} from '../protocols/dlp-protocol';
+import {
+  DlpRequest,
+  DlpRespErrorCode,
+  DlpResponseError,
+  DlpResponseType,
+} from '../protocols/dlp-protocol';
 import {DlpConnection} from '../protocols/sync-connections';
 import {DatabaseStorageInterface} from '../database-storage/database-storage-interface';
+import {VfsClient, getVfsDbFileName, joinVfsPath} from './vfs-client';
 
 const log = debug('palm-sync').extend('read-db');
 const logFile = debug('palm-sync').extend('sync-file');
@@ -220,17 +232,28 @@ export async function readRawDb(
       mode: DlpOpenDBMode.with({read: true, secret: true}),
     })
   );
-  const findDbResp = await dlpConnection.execute(
-    DlpFindDBByOpenHandleReqType.with({
-      dbId,
-      optFlags: DlpFindDBOptFlags.with({getAttributes: true, getSize: true}),
-    }),
-    // Not supported on Palm OS 2.x and earlier.
-    {ignoreErrorCode: DlpRespErrorCode.ILLEGAL_REQ}
-  );
+  // FindDB is not supported on Palm OS 2.x and earlier. If device capabilities
+  // are unknown, we try anyway and ignore the error.
+  const findDbResp =
+    dlpConnection.capabilities && !dlpConnection.capabilities.supportsFindDb
+      ? null
+      : await dlpConnection.execute(
+          DlpFindDBByOpenHandleReqType.with({
+            dbId,
+            optFlags: DlpFindDBOptFlags.with({
+              getAttributes: true,
+              getSize: true,
+            }),
+          }),
+          {ignoreErrorCode: DlpRespErrorCode.ILLEGAL_REQ}
+        );
+  const findDbInfo =
+    findDbResp && findDbResp.errorCode === DlpRespErrorCode.NONE
+      ? findDbResp
+      : null;
   const dbInfo =
     dbInfoArg ??
-    (findDbResp.errorCode === DlpRespErrorCode.NONE ? findDbResp.info : null) ??
+    findDbInfo?.info ??
     (await findDatabaseUsingDlpReadDBList(dlpConnection, name, {cardNo}));
   // This should not be possible because we have already opened the database
   // successfully above.
@@ -254,9 +277,9 @@ export async function readRawDb(
   //         size is non-zero.
   let appInfoBlock: Buffer | null = null;
   if (
-    findDbResp.errorCode !== DlpRespErrorCode.NONE ||
-    findDbResp.appBlkSize > 0 ||
-    findDbResp.info.miscFlags.ramBased
+    !findDbInfo ||
+    findDbInfo.appBlkSize > 0 ||
+    findDbInfo.info.miscFlags.ramBased
   ) {
     log('Reading AppInfo block');
     const appInfoBlockResp = await dlpConnection.execute(
@@ -279,9 +302,9 @@ export async function readRawDb(
   // Weirdly, pilot-link does not read the SortInfo block, but coldsync does.
   let sortInfoBlock: Buffer | null = null;
   if (
-    findDbResp.errorCode !== DlpRespErrorCode.NONE ||
-    findDbResp.sortBlkSize > 0 ||
-    findDbResp.info.miscFlags.ramBased
+    !findDbInfo ||
+    findDbInfo.sortBlkSize > 0 ||
+    findDbInfo.info.miscFlags.ramBased
   ) {
     log('Reading SortInfo block');
     const sortInfoBlockResp = await dlpConnection.execute(
@@ -307,28 +330,26 @@ export async function readRawDb(
   };
 
   // 4. Read records.
-  const numRecords =
-    findDbResp.errorCode === DlpRespErrorCode.NONE
-      ? findDbResp.numRecords
-      : (await dlpConnection.execute(DlpReadOpenDBInfoReqType.with({dbId})))
-          .numRec;
+  const numRecords = findDbInfo
+    ? findDbInfo.numRecords
+    : (await dlpConnection.execute(DlpReadOpenDBInfoReqType.with({dbId})))
+        .numRec;
   if (dbInfo.dbFlags.resDB) {
     const records: Array<RawPrcRecord> = [];
     for (let i = 0; i < numRecords; ++i) {
       log(`Reading resource ${i + 1} of ${numRecords}`);
-      const readResourceResp = await dlpConnection.execute(
-        DlpReadResourceByIndexReqType.with({dbId, index: i})
+      records.push(
+        createRawPrcRecordFromReadRecordResp(
+          await readResourceByIndex(dlpConnection, dbId, i)
+        )
       );
-      records.push(createRawPrcRecordFromReadRecordResp(readResourceResp));
     }
     db = RawPrcDatabase.with({...dbFields, records});
   } else {
     const records: Array<RawPdbRecord> = [];
     for (let i = 0; i < numRecords; ++i) {
       log(`Reading record ${i + 1} of ${numRecords}`);
-      const readRecordResp = await dlpConnection.execute(
-        DlpReadRecordByIndexReqType.with({dbId, index: i})
-      );
+      const readRecordResp = await readRecordByIndex(dlpConnection, dbId, i);
       if (
         (readRecordResp.attributes.delete ||
           readRecordResp.attributes.archive) &&
@@ -350,6 +371,149 @@ export async function readRawDb(
   return db;
 }
 
+/** Read a record by index.
+ *
+ * On DLP 1.4 and above, ReadRecord fails for records larger than 64k, so we
+ * fall back to ReadRecordStream in that case.
+ */
+async function readRecordByIndex(
+  dlpConnection: DlpConnection,
+  dbId: number,
+  index: number
+): Promise<DlpReadRecordRespType | DlpReadRecordStreamRespType> {
+  return await executeWithStreamFallback(
+    dlpConnection,
+    DlpReadRecordByIndexReqType.with({dbId, index}),
+    () => DlpReadRecordStreamReqType.with({dbId, index})
+  );
+}
+
+/** Read a resource by index.
+ *
+ * On DLP 1.4 and above, ReadResource fails for resources larger than 64k, so
+ * we fall back to ReadResourceStream in that case.
+ */
+async function readResourceByIndex(
+  dlpConnection: DlpConnection,
+  dbId: number,
+  index: number
+): Promise<DlpReadResourceRespType | DlpReadResourceStreamRespType> {
+  return await executeWithStreamFallback(
+    dlpConnection,
+    DlpReadResourceByIndexReqType.with({dbId, index}),
+    () => DlpReadResourceStreamReqType.with({dbId, index})
+  );
+}
+
+/** Execute a record or resource request, retrying with the corresponding
+ * stream request if the device reports that the entry is too large.
+ *
+ * Other errors are rethrown as-is. If the stream request also fails, its error
+ * is thrown with the original error as the cause.
+ */
+async function executeWithStreamFallback<
+  DlpRequestT extends DlpRequest<any>,
+  DlpStreamRequestT extends DlpRequest<any>,
+>(
+  dlpConnection: DlpConnection,
+  request: DlpRequestT,
+  createStreamRequest: () => DlpStreamRequestT
+): Promise<DlpResponseType<DlpRequestT> | DlpResponseType<DlpStreamRequestT>> {
+  try {
+    return await dlpConnection.execute(request);
+  } catch (e) {
+    if (
+      !dlpConnection.capabilities?.supportsStreamRecords ||
+      !(e instanceof DlpResponseError) ||
+      e.errorCode !== DlpRespErrorCode.LIMIT_EXCEEDED
+    ) {
+      throw e;
+    }
+    const streamRequest = createStreamRequest();
+    log(`Retrying with ${streamRequest.constructor.name}: ${e.errorMessage}`);
+    try {
+      return await dlpConnection.execute(streamRequest);
+    } catch (streamError) {
+      if (streamError instanceof Error && streamError.cause === undefined) {
+        streamError.cause = e;
+      }
+      throw streamError;
+    }
+  }
+}
+
+/** Read a PDB / PRC file from an expansion card. */
+export async function readDbFromCard(
+  dlpConnection: DlpConnection,
+  /** Path of the PDB / PRC file on the card. */
+  filePath: string,
+  opts: {
+    /** Volume reference number of the card (default: first mounted volume). */
+    volRefNum?: number;
+  } & DeserializeOptions = {}
+): Promise<RawPdbDatabase | RawPrcDatabase> {
+  const vfsClient = new VfsClient(dlpConnection);
+  const volRefNum = opts.volRefNum ?? (await vfsClient.getDefaultVolRefNum());
+  log(`Reading database from ${filePath} on volume ${volRefNum}`);
+  await dlpConnection.execute(DlpOpenConduitReqType.with());
+  const buffer = await vfsClient.readFile(volRefNum, filePath);
+  const header = DatabaseHdrType.from(buffer, opts);
+  return header.attributes.resDB
+    ? RawPrcDatabase.from(buffer, opts)
+    : RawPdbDatabase.from(buffer, opts);
+}
+
+/** Directory on expansion cards for database backups. */
+export const CARD_BACKUP_DIR = '/PALM/Backup';
+
+/** Back up a database in RAM to a PDB / PRC file on an expansion card.
+ *
+ * This uses VFSExportDatabaseToFile, so the database is written by the device
+ * directly without being transferred over the HotSync connection.
+ *
+ * @returns Path of the file on the card.
+ */
+export async function exportDbToCard(
+  dlpConnection: DlpConnection,
+  /** Database name to export. */
+  name: string,
+  opts: {
+    /** Card number on the Palm OS device (typically 0). */
+    cardNo?: number;
+    /** Volume reference number of the card (default: first mounted volume). */
+    volRefNum?: number;
+    /** Directory on the card to write to (default: /PALM/Backup). */
+    dirPath?: string;
+  } = {}
+): Promise<string> {
+  const {cardNo = 0, dirPath = CARD_BACKUP_DIR} = opts;
+  const vfsClient = new VfsClient(dlpConnection);
+  const volRefNum = opts.volRefNum ?? (await vfsClient.getDefaultVolRefNum());
+  await dlpConnection.execute(DlpOpenConduitReqType.with());
+  const {localId, info} = await dlpConnection.execute(
+    DlpFindDBByNameReqType.with({
+      cardNo,
+      name,
+      optFlags: DlpFindDBOptFlags.with({getAttributes: true}),
+    })
+  );
+  const filePath = joinVfsPath(
+    dirPath,
+    getVfsDbFileName(name, info.dbFlags.resDB)
+  );
+  log(`Exporting database ${name} to ${filePath} on volume ${volRefNum}`);
+  await vfsClient.createDir(volRefNum, dirPath, {recursive: true});
+  await dlpConnection.execute(
+    DlpVFSExportDatabaseToFileReqType.with({
+      volRefNum,
+      cardNo,
+      localId,
+      path: filePath,
+    })
+  );
+  return filePath;
+}
+
 /** Find a database by name for Palm OS 2.x and earlier using DlpReadDBList.
  *
  * Based on pilot-link's dlp_FindDBInfo:
@@ -417,7 +581,7 @@ export function createDatabaseHeaderFromDlpDBInfoType(
 
 /** Convert DlpReadRecordRespType to RawPdbRecord. */
 export function createRawPdbRecordFromReadRecordResp(
-  resp: DlpReadRecordRespType
+  resp: DlpReadRecordRespType | DlpReadRecordStreamRespType
 ): RawPdbRecord {
   const entry = RecordEntryType.with({
     attributes: DlpRecordAttrs.toRecordAttrs(resp.attributes, resp.category),
@@ -428,7 +592,7 @@ export function createRawPdbRecordFromReadRecordResp(
 
 /** Convert DlpReadResourceRespType to RawPrcRecord. */
 export function createRawPrcRecordFromReadRecordResp(
-  resp: DlpReadResourceRespType
+  resp: DlpReadResourceRespType | DlpReadResourceStreamRespType
 ): RawPrcRecord {
   const entry = RsrcEntryType.with({
     type: resp.type,
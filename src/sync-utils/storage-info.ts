@@ -0,0 +1,148 @@
+/** Reading memory usage information from a Palm OS device using HotSync.
+ *
+ * @module
+ */
+import debug from 'debug';
+import {
+  DlpCardInfoType,
+  DlpCloseDBReqType,
+  DlpFindDBByOpenHandleReqType,
+  DlpFindDBOptFlags,
+  DlpOpenDBMode,
+  DlpOpenDBReqType,
+  DlpReadStorageInfoReqType,
+} from '../protocols/dlp-commands';
+import {DlpRespErrorCode} from '../protocols/dlp-protocol';
+import {DlpConnection} from '../protocols/sync-connections';
+import {readDbList} from './read-db';
+
+const log = debug('palm-sync').extend('storage-info');
+
+/** Information about a memory card on the device. */
+export interface StorageCardInfo {
+  /** Card information. */
+  cardInfo: DlpCardInfoType;
+  /** Number of databases in ROM (DLP 1.1 and above). */
+  romDbCount: number;
+  /** Number of databases in RAM (DLP 1.1 and above). */
+  ramDbCount: number;
+}
+
+/** Memory used by a single database. */
+export interface DbStorageUsage {
+  /** Database name. */
+  name: string;
+  /** Database type. */
+  type: string;
+  /** Database creator. */
+  creator: string;
+  /** Number of records or resources. */
+  numRecords: number;
+  /** Total bytes used by the database. */
+  totalBytes: number;
+  /** Bytes used by record or resource data. */
+  dataBytes: number;
+  /** Size of AppInfo block. */
+  appBlkSize: number;
+  /** Size of SortInfo block. */
+  sortBlkSize: number;
+}
+
+/** Read information about all memory cards on the device.
+ *
+ * Note that this refers to the internal memory cards of the device (typically
+ * only card 0), not expansion cards.
+ */
+export async function readStorageInfo(
+  dlpConnection: DlpConnection
+): Promise<Array<StorageCardInfo>> {
+  const cards: Array<StorageCardInfo> = [];
+  let startCardNo = 0;
+  for (;;) {
+    const resp = await dlpConnection.execute(
+      DlpReadStorageInfoReqType.with({startCardNo}),
+      {ignoreErrorCode: DlpRespErrorCode.NOT_FOUND}
+    );
+    if (resp.errorCode === DlpRespErrorCode.NOT_FOUND) {
+      break;
+    }
+    const {romDBCount: romDbCount, ramDBCount: ramDbCount} = resp;
+    cards.push(
+      ...resp.cardInfo.map((cardInfo) => ({cardInfo, romDbCount, ramDbCount}))
+    );
+    if (!resp.more || resp.cardInfo.length === 0) {
+      break;
+    }
+    startCardNo = resp.lastCardNo + 1;
+  }
+  log(`Found ${cards.length} cards`);
+  return cards;
+}
+
+/** Read the memory used by each database in RAM, sorted largest first.
+ *
+ * Requires DlpFindDB, i.e. Palm OS 3.0 and above.
+ */
+export async function readDbStorageUsage(
+  dlpConnection: DlpConnection,
+  opts: {
+    /** Card number on the Palm OS device (typically 0). */
+    cardNo?: number;
+  } = {}
+): Promise<Array<DbStorageUsage>> {
+  const {cardNo = 0} = opts;
+  if (
+    dlpConnection.capabilities &&
+    !dlpConnection.capabilities.supportsFindDb
+  ) {
+    throw new Error('Reading database sizes requires Palm OS 3.0 or later');
+  }
+  const dbInfoList = await readDbList(
+    dlpConnection,
+    {ram: true, rom: false},
+    {cardNo}
+  );
+  const usage: Array<DbStorageUsage> = [];
+  for (const {name, type, creator} of dbInfoList) {
+    const openDbResp = await dlpConnection.execute(
+      DlpOpenDBReqType.with({
+        cardNo,
+        name,
+        mode: DlpOpenDBMode.with({read: true, secret: true}),
+      }),
+      {
+        ignoreErrorCode: [
+          DlpRespErrorCode.DATABASE_OPEN,
+          DlpRespErrorCode.CANT_OPEN,
+        ],
+      }
+    );
+    if (openDbResp.errorCode !== DlpRespErrorCode.NONE) {
+      log(`Skipping database ${name}: ${openDbResp.errorMessage}`);
+      continue;
+    }
+    const {dbId} = openDbResp;
+    try {
+      const {numRecords, totalBytes, dataBytes, appBlkSize, sortBlkSize} =
+        await dlpConnection.execute(
+          DlpFindDBByOpenHandleReqType.with({
+            dbId,
+            optFlags: DlpFindDBOptFlags.with({getSize: true}),
+          })
+        );
+      usage.push({
+        name,
+        type,
+        creator,
+        numRecords,
+        totalBytes,
+        dataBytes,
+        appBlkSize,
+        sortBlkSize,
+      });
+    } finally {
+      await dlpConnection.execute(DlpCloseDBReqType.with({dbId}));
+    }
+  }
+  return usage.sort((a, b) => b.totalBytes - a.totalBytes);
+}
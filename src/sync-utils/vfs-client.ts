@@ -0,0 +1,522 @@
+/** Accessing files on expansion cards (VFS volumes) using HotSync.
+ *
+ * References:
+ *   - pilot-link's VFS functions in dlp.c:
+ *     https://github.com/jichu4n/pilot-link/blob/master/libpisock/dlp.c
+ *   - pilot-link's pilot-xfer VFS support:
+ *     https://github.com/jichu4n/pilot-link/blob/master/src/pilot-xfer.c
+ *
+ * @module
+ */
+import debug from 'debug';
+import pEvent from 'p-event';
+import {Writable} from 'stream';
+import {
+  DLP_VFS_ITERATOR_START,
+  DLP_VFS_ITERATOR_STOP,
+  DlpVFSDirCreateReqType,
+  DlpVFSDirEntryEnumerateReqType,
+  DlpVFSFileAttrs,
+  DlpVFSFileCloseReqType,
+  DlpVFSFileCreateReqType,
+  DlpVFSFileDateType,
+  DlpVFSFileDeleteReqType,
+  DlpVFSFileOpenReqType,
+  DlpVFSFileReadReqType,
+  DlpVFSFileRenameReqType,
+  DlpVFSFileResizeReqType,
+  DlpVFSFileSetAttributesReqType,
+  DlpVFSFileSetDateReqType,
+  DlpVFSFileSizeReqType,
+  DlpVFSFileWriteReqType,
+  DlpVFSGetDefaultDirReqType,
+  DlpVFSOpenMode,
+  DlpVFSVolumeEnumerateReqType,
+  DlpVFSVolumeFormatReqType,
+  DlpVFSVolumeGetLabelReqType,
+  DlpVFSVolumeInfoReqType,
+  DlpVFSVolumeInfoRespType,
+  DlpVFSVolumeSetLabelReqType,
+  DlpVFSVolumeSizeReqType,
+} from '../protocols/dlp-commands';
+import {DlpRespErrorCode} from '../protocols/dlp-protocol';
+import {DlpConnection} from '../protocols/sync-connections';
+
+const log = debug('palm-sync').extend('vfs');
+
+/** Maximum number of bytes to transfer in a single VFS read or write. */
+export const VFS_TRANSFER_CHUNK_SIZE = 32 * 1024;
+
+/** A mounted VFS volume. */
+export interface VfsVolume {
+  /** Volume reference number. */
+  volRefNum: number;
+  /** Volume information. */
+  info: DlpVFSVolumeInfoRespType;
+}
+
+/** A file or directory on a VFS volume. */
+export interface VfsFileEntry {
+  /** Name of the file or directory. */
+  name: string;
+  /** Full path of the file or directory. */
+  path: string;
+  /** File attributes. */
+  attributes: DlpVFSFileAttrs;
+}
+
+/** High-level interface for accessing files on VFS volumes. */
+export class VfsClient {
+  constructor(
+    /** DLP connection to the Palm OS device. */
+    private readonly dlpConnection: DlpConnection
+  ) {}
+
+  /** Get the list of mounted volumes. */
+  async getVolumes(): Promise<Array<VfsVolume>> {
+    const {errorCode, volRefNums} = await this.dlpConnection.execute(
+      DlpVFSVolumeEnumerateReqType.with(),
+      {ignoreErrorCode: DlpRespErrorCode.NOT_FOUND}
+    );
+    if (errorCode === DlpRespErrorCode.NOT_FOUND) {
+      return [];
+    }
+    const volumes: Array<VfsVolume> = [];
+    for (const volRefNum of volRefNums) {
+      const info = await this.dlpConnection.execute(
+        DlpVFSVolumeInfoReqType.with({volRefNum})
+      );
+      volumes.push({volRefNum, info});
+    }
+    return volumes;
+  }
+
+  /** Get the volume reference number of the first mounted volume. */
+  async getDefaultVolRefNum(): Promise<number> {
+    const volumes = await this.getVolumes();
+    if (volumes.length === 0) {
+      throw new Error('No expansion card volumes found');
+    }
+    return volumes[0].volRefNum;
+  }
+
+  /** Get the label of a volume. */
+  async getLabel(volRefNum: number): Promise<string> {
+    const {label} = await this.dlpConnection.execute(
+      DlpVFSVolumeGetLabelReqType.with({volRefNum})
+    );
+    return label;
+  }
+
+  /** Set the label of a volume. */
+  async setLabel(volRefNum: number, label: string) {
+    await this.dlpConnection.execute(
+      DlpVFSVolumeSetLabelReqType.with({volRefNum, label})
+    );
+  }
+
+  /** Get the used and total size of a volume in bytes. */
+  async getVolumeSize(
+    volRefNum: number
+  ): Promise<{used: number; total: number}> {
+    const {volumeSizeUsed, volumeSizeTotal} = await this.dlpConnection.execute(
+      DlpVFSVolumeSizeReqType.with({volRefNum})
+    );
+    return {used: volumeSizeUsed, total: volumeSizeTotal};
+  }
+
+  /** Get the default directory on a volume for a file type.
+   *
+   * Returns null if no default directory is registered for the file type.
+   */
+  async getDefaultDir(
+    volRefNum: number,
+    fileType: string
+  ): Promise<string | null> {
+    const {errorCode, path} = await this.dlpConnection.execute(
+      DlpVFSGetDefaultDirReqType.with({volRefNum, fileType}),
+      {ignoreErrorCode: DlpRespErrorCode.NOT_FOUND}
+    );
+    return errorCode === DlpRespErrorCode.NOT_FOUND ? null : path;
+  }
+
+  /** Format a volume, erasing all data on it.
+   *
+   * The volume is remounted after formatting, so its volume reference number
+   * will usually change. Returns the list of volumes after formatting.
+   */
+  async format(volRefNum: number): Promise<Array<VfsVolume>> {
+    const info = await this.dlpConnection.execute(
+      DlpVFSVolumeInfoReqType.with({volRefNum})
+    );
+    log(`Formatting volume ${volRefNum}`);
+    await this.dlpConnection.execute(
+      DlpVFSVolumeFormatReqType.with({
+        volRefNum,
+        mountClass: info.mountClass,
+        slotLibRefNum: info.slotLibRefNum,
+        slotRefNum: info.slotRefNum,
+      })
+    );
+    return await this.getVolumes();
+  }
+
+  /** List the entries in a directory. */
+  async listDir(
+    volRefNum: number,
+    dirPath: string
+  ): Promise<Array<VfsFileEntry>> {
+    const entries: Array<VfsFileEntry> = [];
+    const {fileRef: dirRef} = await this.dlpConnection.execute(
+      DlpVFSFileOpenReqType.with({
+        volRefNum,
+        openMode: DlpVFSOpenMode.with({read: true}),
+        path: dirPath,
+      })
+    );
+    try {
+      let dirIterator = DLP_VFS_ITERATOR_START;
+      do {
+        const resp = await this.dlpConnection.execute(
+          DlpVFSDirEntryEnumerateReqType.with({dirRef, dirIterator}),
+          {ignoreErrorCode: DlpRespErrorCode.NOT_FOUND}
+        );
+        if (
+          resp.errorCode === DlpRespErrorCode.NOT_FOUND ||
+          resp.entries.length === 0
+        ) {
+          break;
+        }
+        for (const {name, attributes} of resp.entries) {
+          entries.push({name, path: joinVfsPath(dirPath, name), attributes});
+        }
+        dirIterator = resp.dirIterator;
+      } while (dirIterator !== DLP_VFS_ITERATOR_STOP);
+    } finally {
+      await this.dlpConnection.execute(
+        DlpVFSFileCloseReqType.with({fileRef: dirRef})
+      );
+    }
+    return entries;
+  }
+
+  /** Recursively list all files and directories under a directory. */
+  async walk(volRefNum: number, dirPath: string): Promise<Array<VfsFileEntry>> {
+    const entries: Array<VfsFileEntry> = [];
+    for (const entry of await this.listDir(volRefNum, dirPath)) {
+      entries.push(entry);
+      if (entry.attributes.directory) {
+        entries.push(...(await this.walk(volRefNum, entry.path)));
+      }
+    }
+    return entries;
+  }
+
+  /** Get the size of a file in bytes. */
+  async getFileSize(volRefNum: number, filePath: string): Promise<number> {
+    return await this.withFile(volRefNum, filePath, async (fileRef) => {
+      const {fileSize} = await this.dlpConnection.execute(
+        DlpVFSFileSizeReqType.with({fileRef})
+      );
+      return fileSize;
+    });
+  }
+
+  /** Read the contents of a file into a stream.
+   *
+   * The stream is not closed after the file has been read.
+   *
+   * @returns Number of bytes read.
+   */
+  async readFileToStream(
+    volRefNum: number,
+    filePath: string,
+    stream: Writable
+  ): Promise<number> {
+    return await this.withFile(volRefNum, filePath, async (fileRef) => {
+      const {fileSize} = await this.dlpConnection.execute(
+        DlpVFSFileSizeReqType.with({fileRef})
+      );
+      log(`Reading ${filePath} (${fileSize} bytes)`);
+      let numBytesRead = 0;
+      while (numBytesRead < fileSize) {
+        const {numBytes} = await this.dlpConnection.execute(
+          DlpVFSFileReadReqType.with({
+            fileRef,
+            numBytes: Math.min(
+              fileSize - numBytesRead,
+              VFS_TRANSFER_CHUNK_SIZE
+            ),
+          })
+        );
+        if (numBytes === 0) {
+          break;
+        }
+        const data = await this.dlpConnection.readRawData(numBytes);
+        if (!stream.write(data)) {
+          await pEvent(stream, 'drain');
+        }
+        numBytesRead += data.length;
+      }
+      return numBytesRead;
+    });
+  }
+
+  /** Read the contents of a file into a buffer. */
+  async readFile(volRefNum: number, filePath: string): Promise<Buffer> {
+    const chunks: Array<Buffer> = [];
+    await this.readFileToStream(
+      volRefNum,
+      filePath,
+      new Writable({
+        write(chunk: Buffer, encoding, callback) {
+          chunks.push(chunk);
+          callback();
+        },
+      })
+    );
+    return Buffer.concat(chunks);
+  }
+
+  /** Write data to a file, creating it if it doesn't exist.
+   *
+   * Large files are sent in chunks of VFS_TRANSFER_CHUNK_SIZE bytes.
+   */
+  async writeFile(
+    volRefNum: number,
+    filePath: string,
+    data: Buffer,
+    opts: {
+      /** Whether to overwrite an existing file (default true). */
+      overwrite?: boolean;
+    } = {}
+  ) {
+    const {overwrite = true} = opts;
+    const {errorCode} = await this.dlpConnection.execute(
+      DlpVFSFileCreateReqType.with({volRefNum, path: filePath}),
+      {ignoreErrorCode: overwrite ? DlpRespErrorCode.ALREADY_EXISTS : false}
+    );
+    log(
+      `Writing ${filePath} (${data.length} bytes)` +
+        (errorCode === DlpRespErrorCode.ALREADY_EXISTS ? ', overwriting' : '')
+    );
+    await this.withFile(
+      volRefNum,
+      filePath,
+      async (fileRef) => {
+        if (errorCode === DlpRespErrorCode.ALREADY_EXISTS) {
+          await this.dlpConnection.execute(
+            DlpVFSFileResizeReqType.with({fileRef, newSize: 0})
+          );
+        }
+        await this.writeToFile(fileRef, data);
+      },
+      DlpVFSOpenMode.with({read: true, write: true, exclusive: true})
+    );
+  }
+
+  /** Create a directory.
+   *
+   * If recursive is true, missing parent directories are created as well and
+   * it is not an error if the directory already exists.
+   */
+  async createDir(
+    volRefNum: number,
+    dirPath: string,
+    opts: {recursive?: boolean} = {}
+  ) {
+    if (opts.recursive) {
+      const pieces = dirPath.split('/').filter((piece) => piece);
+      for (let i = 1; i <= pieces.length; ++i) {
+        await this.dlpConnection.execute(
+          DlpVFSDirCreateReqType.with({
+            volRefNum,
+            path: `/${pieces.slice(0, i).join('/')}`,
+          }),
+          {ignoreErrorCode: DlpRespErrorCode.ALREADY_EXISTS}
+        );
+      }
+    } else {
+      await this.dlpConnection.execute(
+        DlpVFSDirCreateReqType.with({volRefNum, path: dirPath})
+      );
+    }
+  }
+
+  /** Delete a file or empty directory. */
+  async delete(volRefNum: number, filePath: string) {
+    await this.dlpConnection.execute(
+      DlpVFSFileDeleteReqType.with({volRefNum, path: filePath})
+    );
+  }
+
+  /** Move or rename a file.
+   *
+   * VFSFileRename can only rename a file within the same directory, so moving
+   * a file to a different directory is done by copying and then deleting the
+   * original. The copy is streamed in chunks, and is deleted again if it fails
+   * part way. Moving a directory to a different directory is not supported.
+   */
+  async move(volRefNum: number, srcPath: string, destPath: string) {
+    if (getVfsDirName(srcPath) === getVfsDirName(destPath)) {
+      await this.dlpConnection.execute(
+        DlpVFSFileRenameReqType.with({
+          volRefNum,
+          path: srcPath,
+          newName: getVfsBaseName(destPath),
+        })
+      );
+      return;
+    }
+
+    const srcName = getVfsBaseName(srcPath);
+    const srcEntry = (
+      await this.listDir(volRefNum, getVfsDirName(srcPath))
+    ).find(({name}) => name === srcName);
+    if (srcEntry?.attributes.directory) {
+      throw new Error(
+        `Cannot move directory ${srcPath} to a different directory`
+      );
+    }
+    // Fails with DlpAlreadyExistsError if the destination already exists.
+    await this.dlpConnection.execute(
+      DlpVFSFileCreateReqType.with({volRefNum, path: destPath})
+    );
+    log(`Copying ${srcPath} to ${destPath}`);
+    try {
+      await this.withFile(
+        volRefNum,
+        destPath,
+        async (fileRef) => {
+          const stream = this.createFileWriteStream(fileRef);
+          await this.readFileToStream(volRefNum, srcPath, stream);
+          stream.end();
+        },
+        DlpVFSOpenMode.with({read: true, write: true, exclusive: true})
+      );
+    } catch (e) {
+      log(`Deleting partial copy ${destPath}`);
+      try {
+        await this.delete(volRefNum, destPath);
+      } catch (deleteError) {
+        log(
+          `Could not delete ${destPath}: ` +
+            (deleteError instanceof Error
+              ? deleteError.message
+              : `${deleteError}`)
+        );
+      }
+      throw e;
+    }
+    await this.delete(volRefNum, srcPath);
+  }
+
+  /** Set the attributes of a file. */
+  async setAttributes(
+    volRefNum: number,
+    filePath: string,
+    attributes: DlpVFSFileAttrs
+  ) {
+    await this.withFile(
+      volRefNum,
+      filePath,
+      async (fileRef) => {
+        await this.dlpConnection.execute(
+          DlpVFSFileSetAttributesReqType.with({fileRef, attributes})
+        );
+      },
+      DlpVFSOpenMode.with({read: true, write: true, exclusive: true})
+    );
+  }
+
+  /** Set a timestamp of a file. */
+  async setDate(
+    volRefNum: number,
+    filePath: string,
+    whichDate: DlpVFSFileDateType,
+    date: Date
+  ) {
+    await this.withFile(
+      volRefNum,
+      filePath,
+      async (fileRef) => {
+        await this.dlpConnection.execute(
+          DlpVFSFileSetDateReqType.with({fileRef, whichDate, date})
+        );
+      },
+      DlpVFSOpenMode.with({read: true, write: true, exclusive: true})
+    );
+  }
+
+  /** Write data to an open file in chunks of VFS_TRANSFER_CHUNK_SIZE bytes. */
+  private async writeToFile(fileRef: number, data: Buffer) {
+    for (
+      let offset = 0;
+      offset < data.length;
+      offset += VFS_TRANSFER_CHUNK_SIZE
+    ) {
+      const chunk = data.subarray(offset, offset + VFS_TRANSFER_CHUNK_SIZE);
+      const request = DlpVFSFileWriteReqType.with({
+        fileRef,
+        numBytes: chunk.length,
+      });
+      await this.dlpConnection.execute(request);
+      await this.dlpConnection.writeRawData(chunk);
+      await this.dlpConnection.readResponse(request);
+    }
+  }
+
+  /** Create a stream that writes to an open file.
+   *
+   * The stream doesn't buffer any data, so writers that wait for 'drain' (such
+   * as readFileToStream) won't send other DLP requests while a write is in
+   * progress.
+   */
+  private createFileWriteStream(fileRef: number) {
+    return new Writable({
+      highWaterMark: 0,
+      write: (chunk: Buffer, encoding, callback) => {
+        this.writeToFile(fileRef, chunk).then(() => callback(), callback);
+      },
+    });
+  }
+
+  /** Open a file, run a function on it, and close the file. */
+  private async withFile<T>(
+    volRefNum: number,
+    filePath: string,
+    fn: (fileRef: number) => Promise<T>,
+    openMode = DlpVFSOpenMode.with({read: true})
+  ): Promise<T> {
+    const {fileRef} = await this.dlpConnection.execute(
+      DlpVFSFileOpenReqType.with({volRefNum, openMode, path: filePath})
+    );
+    try {
+      return await fn(fileRef);
+    } finally {
+      await this.dlpConnection.execute(DlpVFSFileCloseReqType.with({fileRef}));
+    }
+  }
+}
+
+/** Join a VFS directory path and a file name. */
+export function joinVfsPath(dirPath: string, name: string) {
+  return `${dirPath.replace(/\/+$/, '')}/${name}`;
+}
+
+/** Returns the directory portion of a VFS path. */
+export function getVfsDirName(filePath: string) {
+  const i = filePath.lastIndexOf('/');
+  return i <= 0 ? '/' : filePath.substring(0, i);
+}
+
+/** Returns the last portion of a VFS path. */
+export function getVfsBaseName(filePath: string) {
+  return filePath.substring(filePath.lastIndexOf('/') + 1);
+}
+
+/** Returns the file name to use for a database stored on a VFS volume. */
+export function getVfsDbFileName(name: string, isResourceDb: boolean) {
+  // '/' is not allowed in VFS file names, but may appear in database names.
+  return `${name.replace(/\//g, '_')}.${isResourceDb ? 'prc' : 'pdb'}`;
+}
@@ -19,20 +19,25 @@ import {
 } from 'palm-pdb';
 import {Serializable, SerializeOptions} from 'serio';
 import {
+  DLP_MAX_NON_STREAM_ENTRY_SIZE,
   DlpCloseDBReqType,
   DlpCreateDBReqType,
   DlpDeleteDBReqType,
   DlpOpenConduitReqType,
   DlpRecordAttrs,
   DlpResetSystemReqType,
+  DlpVFSImportDatabaseFromFileReqType,
   DlpWriteAppBlockReqType,
   DlpWriteRecordReqType,
+  DlpWriteRecordStreamReqType,
   DlpWriteResourceReqType,
+  DlpWriteResourceStreamReqType,
   DlpWriteSortBlockReqType,
 } from '../protocols/dlp-commands';
 import {DlpRespErrorCode} from '../protocols/dlp-protocol';
 import {DlpConnection} from '../protocols/sync-connections';
 import {DatabaseStorageInterface} from '../database-storage/database-storage-interface';
+import {VfsClient, getVfsDbFileName, joinVfsPath} from './vfs-client';
 
 const log = debug('palm-sync').extend('write-db');
 const logFile = debug('palm-sync').extend('sync-file');
@@ -106,9 +111,21 @@ export async function writeRawDb(
   log(`Writing database ${db.header.name} to card ${cardNo}`);
   await dlpConnection.execute(DlpOpenConduitReqType.with());
 
-  // TODO: pilot-link's pi_file_install() function checks the size of records,
-  // and aborts if trying to install records exceeds 64k in size to an older
-  // device (DLP version 1.4 / Palm OS 5.2 or later). We should do the same.
+  // Records and resources larger than 64k can only be written with the stream
+  // commands, which require DLP 1.4 (Palm OS 5.2) or later. Similar to
+  // pilot-link's pi_file_install(), we abort early if the device doesn't
+  // support the size of a record.
+  const maxRecordSize =
+    dlpConnection.capabilities?.maxRecordSize ?? DLP_MAX_NON_STREAM_ENTRY_SIZE;
+  for (const record of db.records) {
+    if (record.data.length > maxRecordSize) {
+      throw new Error(
+        `Database ${db.header.name} contains a record of ` +
+          `${record.data.length} bytes, which exceeds the maximum record ` +
+          `size supported by the device`
+      );
+    }
+  }
 
   // Whether to reset the device after install.
   let shouldReset =
@@ -162,9 +179,15 @@ export async function writeRawDb(
     for (let i = 0; i < db.records.length; i++) {
       log(`Writing resource ${i + 1} of ${db.records.length}`);
       const record = db.records[i];
-      await dlpConnection.execute(
-        createWriteResourceReqFromRawPrcRecord(dbId, record)
-      );
+      if (record.data.length > DLP_MAX_NON_STREAM_ENTRY_SIZE) {
+        await dlpConnection.execute(
+          createWriteResourceStreamReqFromRawPrcRecord(dbId, record)
+        );
+      } else {
+        await dlpConnection.execute(
+          createWriteResourceReqFromRawPrcRecord(dbId, record)
+        );
+      }
       // If we see a 'boot' section, we should reset the system.
       if (record.entry.type === 'boot') {
         shouldReset = true;
@@ -177,9 +200,15 @@ export async function writeRawDb(
     for (let i = 0; i < db.records.length; i++) {
       log(`Writing record ${i + 1} of ${db.records.length}`);
       const record = db.records[i];
-      await dlpConnection.execute(
-        createWriteRecordReqFromRawPdbRecord(dbId, record)
-      );
+      if (record.data.length > DLP_MAX_NON_STREAM_ENTRY_SIZE) {
+        await dlpConnection.execute(
+          createWriteRecordStreamReqFromRawPdbRecord(dbId, record)
+        );
+      } else {
+        await dlpConnection.execute(
+          createWriteRecordReqFromRawPdbRecord(dbId, record)
+        );
+      }
     }
   }
 
@@ -192,6 +221,79 @@ export async function writeRawDb(
   await dlpConnection.execute(DlpCloseDBReqType.with({dbId}));
 }
 
+/** Options to {@link writeDbToCard}. */
+export interface WriteDbToCardOptions {
+  /** Volume reference number of the card (default: first mounted volume). */
+  volRefNum?: number;
+  /** Directory on the card to write to (default: /PALM/Launcher). */
+  dirPath?: string;
+  /** Whether to overwrite an existing file with the same name.
+   *
+   * If false (the default), an error will be thrown if the file already
+   * exists on the card.
+   */
+  overwrite?: boolean;
+}
+
+/** Directory on expansion cards scanned by the Launcher for applications. */
+export const CARD_LAUNCHER_DIR = '/PALM/Launcher';
+
+/** Install a database as a PDB / PRC file on an expansion card.
+ *
+ * This is useful for applications that don't fit in RAM, which can be
+ * launched from the card directly if installed under /PALM/Launcher.
+ *
+ * @returns Path of the file on the card.
+ */
+export async function writeDbToCard(
+  dlpConnection: DlpConnection,
+  /** Database to write. */
+  db: RawPdbDatabase | RawPrcDatabase,
+  opts: WriteDbToCardOptions & SerializeOptions = {}
+): Promise<string> {
+  const {dirPath = CARD_LAUNCHER_DIR, overwrite = false} = opts;
+  const vfsClient = new VfsClient(dlpConnection);
+  const volRefNum = opts.volRefNum ?? (await vfsClient.getDefaultVolRefNum());
+  const filePath = joinVfsPath(
+    dirPath,
+    getVfsDbFileName(db.header.name, db.header.attributes.resDB)
+  );
+  log(
+    `Writing database ${db.header.name} to ${filePath} on volume ${volRefNum}`
+  );
+  await dlpConnection.execute(DlpOpenConduitReqType.with());
+  await vfsClient.createDir(volRefNum, dirPath, {recursive: true});
+  await vfsClient.writeFile(volRefNum, filePath, db.serialize(opts), {
+    overwrite,
+  });
+  return filePath;
+}
+
+/** Install a PDB / PRC file on an expansion card into RAM.
+ *
+ * This uses VFSImportDatabaseFromFile, so the file is read by the device
+ * directly without being transferred over the HotSync connection.
+ */
+export async function importDbFromCard(
+  dlpConnection: DlpConnection,
+  /** Path of the PDB / PRC file on the card. */
+  filePath: string,
+  opts: {
+    /** Volume reference number of the card (default: first mounted volume). */
+    volRefNum?: number;
+  } = {}
+) {
+  const volRefNum =
+    opts.volRefNum ??
+    (await new VfsClient(dlpConnection).getDefaultVolRefNum());
+  log(`Importing database from ${filePath} on volume ${volRefNum}`);
+  await dlpConnection.execute(DlpOpenConduitReqType.with());
+  const {cardNo, localId} = await dlpConnection.execute(
+    DlpVFSImportDatabaseFromFileReqType.with({volRefNum, path: filePath})
+  );
+  return {cardNo, localId};
+}
+
 export function createWriteRecordReqFromRawPdbRecord(
   dbId: number,
   record: RawPdbRecord
@@ -219,3 +321,31 @@ export function createWriteResourceReqFromRawPrcRecord(
     data: record.data,
   });
 }
+
+export function createWriteRecordStreamReqFromRawPdbRecord(
+  dbId: number,
+  record: RawPdbRecord
+) {
+  const {attributes, category} = DlpRecordAttrs.fromRecordAttrs(
+    record.entry.attributes
+  );
+  return DlpWriteRecordStreamReqType.with({
+    dbId,
+    recordId: record.entry.uniqueId,
+    attributes,
+    category,
+    data: record.data,
+  });
+}
+
+export function createWriteResourceStreamReqFromRawPrcRecord(
+  dbId: number,
+  record: RawPrcRecord
+) {
+  return DlpWriteResourceStreamReqType.with({
+    dbId,
+    type: record.entry.type,
+    id: record.entry.resourceId,
+    data: record.data,
+  });
+}
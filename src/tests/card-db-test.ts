@@ -0,0 +1,30 @@
+import assert from 'assert';
+import fs from 'fs-extra';
+import {RawPrcDatabase} from 'palm-pdb';
+import path from 'path';
+import {DlpDeleteDBReqType} from '../protocols/dlp-commands';
+import {DlpRespErrorCode} from '../protocols/dlp-protocol';
+import {DlpConnection} from '../protocols/sync-connections';
+import {exportDbToCard, readDbFromCard} from '../sync-utils/read-db';
+import {importDbFromCard, writeDbToCard} from '../sync-utils/write-db';
+
+const TEST_DATA_DIR = path.join(__dirname, 'testdata');
+
+export async function run(dlpConnection: DlpConnection) {
+  const db = RawPrcDatabase.from(
+    await fs.readFile(path.join(TEST_DATA_DIR, 'SrcEdit.prc'))
+  );
+
+  // Install to card, then read it back.
+  const cardPath = await writeDbToCard(dlpConnection, db, {overwrite: true});
+  const dbFromCard = await readDbFromCard(dlpConnection, cardPath);
+  assert.strictEqual(dbFromCard.header.name, db.header.name);
+  assert.strictEqual(dbFromCard.records.length, db.records.length);
+
+  // Import into RAM, then export back to the card.
+  await dlpConnection.execute(DlpDeleteDBReqType.with({name: db.header.name}), {
+    ignoreErrorCode: DlpRespErrorCode.NOT_FOUND,
+  });
+  await importDbFromCard(dlpConnection, cardPath);
+  await exportDbToCard(dlpConnection, db.header.name);
+}
@@ -0,0 +1,174 @@
+import {
+  AppInfoType,
+  Category,
+  DatabaseHdrType,
+  RawPdbDatabase,
+  RawPdbRecord,
+  RecordAttrs,
+  RecordEntryType,
+} from 'palm-pdb';
+import {SBuffer} from 'serio';
+import {
+  deleteCategory,
+  moveCategory,
+  readCategories,
+  renameCategory,
+} from '../sync-utils/categories';
+import {VirtualPalmDevice} from '../virtual-device/virtual-palm-device';
+import {runVirtualSync} from './virtual-device-utils';
+
+/** App-specific data following the categories in the AppInfo block. */
+const APP_DATA = Buffer.from('app data');
+
+/** Create a virtual device with a database using standard categories. */
+function createDevice() {
+  const appInfo = new AppInfoType();
+  appInfo.categories = ['Unfiled', 'Business', '2024', '5'].map(
+    (label, uniqId) => Category.with({label, uniqId})
+  );
+  const device = new VirtualPalmDevice();
+  device.databases.push(
+    RawPdbDatabase.with({
+      header: DatabaseHdrType.with({
+        name: 'TestDB',
+        type: 'DATA',
+        creator: 'test',
+      }),
+      appInfo: SBuffer.of(
+        Buffer.concat([appInfo.serialize(), APP_DATA]) as Buffer
+      ),
+      records: [0, 1, 1, 2, 3].map((category, i) =>
+        RawPdbRecord.with({
+          entry: RecordEntryType.with({
+            uniqueId: i + 1,
+            attributes: RecordAttrs.with({category}),
+          }),
+          data: Buffer.from(`Record ${i + 1}`),
+        })
+      ),
+    })
+  );
+  return device;
+}
+
+/** Returns the categories of a virtual device's database. */
+function getAppInfo(device: VirtualPalmDevice) {
+  return AppInfoType.from(device.findDb('TestDB')!.appInfo!.value);
+}
+
+/** Returns the category of each record in a virtual device's database. */
+function getRecordCategories(device: VirtualPalmDevice) {
+  return (device.findDb('TestDB') as RawPdbDatabase).records.map(
+    ({entry}) => entry.attributes.category
+  );
+}
+
+describe('categories', function () {
+  test('read categories', async function () {
+    await runVirtualSync(createDevice(), async (dlpConnection) => {
+      expect(
+        (await readCategories(dlpConnection, 'TestDB')).map(
+          ({index, label}) => [index, label]
+        )
+      ).toStrictEqual([
+        [0, 'Unfiled'],
+        [1, 'Business'],
+        [2, '2024'],
+        [3, '5'],
+      ]);
+    });
+  });
+
+  test('rename category', async function () {
+    const device = createDevice();
+    await runVirtualSync(device, async (dlpConnection) => {
+      await renameCategory(dlpConnection, 'TestDB', 1, 'Work');
+      await renameCategory(dlpConnection, 'TestDB', 'Work', 'Office');
+      await expect(
+        renameCategory(dlpConnection, 'TestDB', 'Office', 'Unfiled')
+      ).rejects.toThrow('Category "Unfiled" already exists in TestDB');
+      await expect(
+        renameCategory(dlpConnection, 'TestDB', 'Office', 'x'.repeat(16))
+      ).rejects.toThrow('Category name must be 1 to 15 characters');
+      await expect(
+        renameCategory(dlpConnection, 'TestDB', 'Missing', 'Other')
+      ).rejects.toThrow('Category "Missing" not found');
+      await expect(
+        renameCategory(dlpConnection, 'TestDB', 7, 'Other')
+      ).rejects.toThrow('Category 7 not found');
+    });
+    const appInfo = getAppInfo(device);
+    expect(appInfo.categories[1].label).toBe('Office');
+    expect(appInfo.categories[1].isRenamed).toBe(true);
+    expect(
+      device
+        .findDb('TestDB')!
+        .appInfo!.value.subarray(appInfo.getSerializedLength())
+    ).toStrictEqual(APP_DATA);
+  });
+
+  test('fall back to label for undefined index', async function () {
+    const device = createDevice();
+    await runVirtualSync(device, async (dlpConnection) => {
+      // No category at index 5, so this matches the category labeled "5".
+      await renameCategory(dlpConnection, 'TestDB', 5, 'Five');
+      // Out of range as an index.
+      await renameCategory(dlpConnection, 'TestDB', 2024, 'Archive');
+      // Defined index takes precedence over labels.
+      await renameCategory(dlpConnection, 'TestDB', 2, 'Old');
+    });
+    expect(
+      getAppInfo(device)
+        .categories.slice(0, 4)
+        .map(({label}) => label)
+    ).toStrictEqual(['Unfiled', 'Business', 'Old', 'Five']);
+  });
+
+  test('move category', async function () {
+    const device = createDevice();
+    await runVirtualSync(device, async (dlpConnection) => {
+      await moveCategory(dlpConnection, 'TestDB', 'Business', 3);
+      await expect(moveCategory(dlpConnection, 'TestDB', 0, 3)).rejects.toThrow(
+        'Cannot remove the Unfiled category'
+      );
+      await expect(
+        moveCategory(dlpConnection, 'TestDB', 3, '5')
+      ).rejects.toThrow('Cannot move a category into itself');
+      expect(
+        (await readCategories(dlpConnection, 'TestDB')).map(({index}) => index)
+      ).toStrictEqual([0, 2, 3]);
+    });
+    expect(getRecordCategories(device)).toStrictEqual([0, 3, 3, 2, 3]);
+  });
+
+  test('delete category', async function () {
+    const device = createDevice();
+    await runVirtualSync(device, async (dlpConnection) => {
+      await deleteCategory(dlpConnection, 'TestDB', 'Business');
+      await expect(
+        deleteCategory(dlpConnection, 'TestDB', 'Unfiled')
+      ).rejects.toThrow('Cannot remove the Unfiled category');
+      expect(
+        (await readCategories(dlpConnection, 'TestDB')).map(({index}) => index)
+      ).toStrictEqual([0, 2, 3]);
+    });
+    expect(getRecordCategories(device)).toStrictEqual([0, 2, 3]);
+  });
+
+  test('keep categories after an unused slot', async function () {
+    const device = createDevice();
+    await runVirtualSync(device, async (dlpConnection) => {
+      await deleteCategory(dlpConnection, 'TestDB', 'Business');
+      await renameCategory(dlpConnection, 'TestDB', '2024', 'Archive');
+      expect(
+        (await readCategories(dlpConnection, 'TestDB')).map(
+          ({index, label}) => [index, label]
+        )
+      ).toStrictEqual([
+        [0, 'Unfiled'],
+        [2, 'Archive'],
+        [3, '5'],
+      ]);
+    });
+  });
+});
@@ -0,0 +1,103 @@
+import duplexify from 'duplexify';
+import pEvent from 'p-event';
+import {PassThrough} from 'stream';
+import {
+  CMP_INITIAL_BAUD_RATE,
+  CMP_XID,
+  CmpAbortDatagramAttrs,
+  CmpAbortError,
+  CmpBaudRateRejectedError,
+  CmpDatagram,
+  CmpDatagramType,
+  CmpVersionMismatchError,
+  doCmpDeviceHandshake,
+  doCmpHandshake,
+} from '../protocols/cmp-protocol';
+import {PadpStream} from '../protocols/padp-protocol';
+
+/** Create a pair of PADP streams connected to each other. */
+function createPadpStreamPair() {
+  const a = new PassThrough();
+  const b = new PassThrough();
+  return [
+    new PadpStream(duplexify(a, b)),
+    new PadpStream(duplexify(b, a)),
+  ] as const;
+}
+
+/** Write a CMP datagram to a PADP stream. */
+function writeCmpDatagram(stream: PadpStream, datagram: CmpDatagram) {
+  return new Promise<void>((resolve, reject) => {
+    stream.setNextXid(CMP_XID);
+    stream.write(datagram.serialize(), 'buffer' as BufferEncoding, (error) =>
+      error ? reject(error) : resolve()
+    );
+  });
+}
+
+describe('CMP handshake', function () {
+  test('negotiate baud rate', async function () {
+    const [desktopStream, deviceStream] = createPadpStreamPair();
+    const [desktopResult, deviceResult] = await Promise.all([
+      doCmpHandshake(desktopStream, 57600),
+      doCmpDeviceHandshake(deviceStream, {maxBaudRate: 115200}),
+    ]);
+    expect(desktopResult.baudRate).toBe(57600);
+    expect(deviceResult.baudRate).toBe(57600);
+  });
+
+  test('keep initial baud rate', async function () {
+    const [desktopStream, deviceStream] = createPadpStreamPair();
+    const [desktopResult, deviceResult] = await Promise.all([
+      doCmpHandshake(desktopStream, CMP_INITIAL_BAUD_RATE),
+      doCmpDeviceHandshake(deviceStream),
+    ]);
+    expect(desktopResult.baudRate).toBe(CMP_INITIAL_BAUD_RATE);
+    expect(deviceResult.baudRate).toBe(CMP_INITIAL_BAUD_RATE);
+  });
+
+  test('desktop rejects incompatible version', async function () {
+    const [desktopStream, deviceStream] = createPadpStreamPair();
+    const desktopPromise = doCmpHandshake(desktopStream);
+    const replyPromise = pEvent(deviceStream, 'data');
+    const wakeupDatagram = CmpDatagram.with({
+      type: CmpDatagramType.WAKEUP,
+      baudRate: CMP_INITIAL_BAUD_RATE,
+    });
+    wakeupDatagram.majorVersion = 2;
+    await writeCmpDatagram(deviceStream, wakeupDatagram);
+
+    await expect(desktopPromise).rejects.toThrow(CmpVersionMismatchError);
+    const abortDatagram = CmpDatagram.from(await replyPromise);
+    expect(abortDatagram.type).toBe(CmpDatagramType.ABORT);
+    expect(
+      (abortDatagram.attrs as CmpAbortDatagramAttrs).isProtocolVersionMismatch
+    ).toBe(true);
+  });
+
+  test('desktop handles ABORT instead of WAKEUP', async function () {
+    const [desktopStream, deviceStream] = createPadpStreamPair();
+    const desktopPromise = doCmpHandshake(desktopStream);
+    await writeCmpDatagram(
+      deviceStream,
+      CmpDatagram.with({
+        type: CmpDatagramType.ABORT,
+        attrs: CmpAbortDatagramAttrs.with({isProtocolVersionMismatch: true}),
+      })
+    );
+    const error = await desktopPromise.catch((e) => e);
+    expect(error).toBeInstanceOf(CmpAbortError);
+    expect(error.attrs.isProtocolVersionMismatch).toBe(true);
+  });
+
+  test('device rejects baud rate', async function () {
+    const [desktopStream, deviceStream] = createPadpStreamPair();
+    const desktopPromise = doCmpHandshake(desktopStream);
+    const error = await doCmpDeviceHandshake(deviceStream, {
+      supportedBaudRates: [9600, 19200],
+    }).catch((e) => e);
+    expect(error).toBeInstanceOf(CmpBaudRateRejectedError);
+    expect(error.baudRate).toBe(115200);
+    await desktopPromise.catch(() => {});
+  });
+});
@@ -0,0 +1,125 @@
+import {
+  DatabaseAttrs,
+  DatabaseHdrType,
+  DatabaseTimestamp,
+  PDB_EPOCH,
+  RawPdbDatabase,
+} from 'palm-pdb';
+import {DlpSetDBInfoReqType} from '../protocols/dlp-commands';
+import {DlpDateTimeType} from '../protocols/dlp-protocol';
+import {
+  isValidDbVersion,
+  MAX_DB_VERSION,
+  setDbInfo,
+} from '../sync-utils/db-info';
+import {VirtualPalmDevice} from '../virtual-device/virtual-palm-device';
+import {runVirtualSync} from './virtual-device-utils';
+
+/** Create a virtual device with a single database. */
+function createDevice() {
+  const device = new VirtualPalmDevice();
+  device.databases.push(
+    RawPdbDatabase.with({
+      header: DatabaseHdrType.with({
+        name: 'TestDB',
+        type: 'DATA',
+        creator: 'test',
+        version: 3,
+        creationDate: DatabaseTimestamp.of(new Date(2020, 0, 1)),
+        attributes: DatabaseAttrs.with({backup: true, hidden: true}),
+      }),
+    })
+  );
+  return device;
+}
+
+describe('db-info', function () {
+  test('isValidDbVersion', function () {
+    expect(MAX_DB_VERSION).toBe(65534);
+    for (const version of [0, 1, 65534]) {
+      expect(isValidDbVersion(version)).toBe(true);
+    }
+    for (const version of [-1, 65535, 70000, 1.5, NaN]) {
+      expect(isValidDbVersion(version)).toBe(false);
+    }
+  });
+
+  test('setDbInfo', async function () {
+    const device = createDevice();
+    const modificationDate = new Date(2024, 5, 1, 12, 30);
+    await runVirtualSync(device, async (dlpConnection) => {
+      await setDbInfo(dlpConnection, 'TestDB', {
+        version: 0,
+        modificationDate,
+        attributes: {
+          backup: false,
+          copyPrevention: true,
+          hidden: undefined,
+        },
+      });
+    });
+    const {header} = device.databases[0];
+    expect(header.version).toBe(0);
+    expect(header.modificationDate.value).toStrictEqual(modificationDate);
+    expect(header.attributes.backup).toBe(false);
+    expect(header.attributes.copyPrevention).toBe(true);
+    // Fields that were not specified are left unchanged.
+    expect(header.attributes.hidden).toBe(true);
+    expect(header.creationDate.value).toStrictEqual(new Date(2020, 0, 1));
+    expect(header.name).toBe('TestDB');
+    expect(header.type).toBe('DATA');
+    expect(header.creator).toBe('test');
+
+    await runVirtualSync(device, async (dlpConnection) => {
+      await setDbInfo(dlpConnection, 'TestDB', {
+        name: 'RenamedDB',
+        type: 'TEST',
+        creator: 'abcd',
+      });
+    });
+    expect(header.version).toBe(0);
+    expect(header.name).toBe('RenamedDB');
+    expect(header.type).toBe('TEST');
+    expect(header.creator).toBe('abcd');
+  });
+
+  test('setDbInfo leaves unspecified dates unchanged', async function () {
+    const device = createDevice();
+    const requests: Array<DlpSetDBInfoReqType> = [];
+    await runVirtualSync(device, async (dlpConnection) => {
+      dlpConnection.use({
+        onRequest: (request) => {
+          if (request instanceof DlpSetDBInfoReqType) {
+            requests.push(request);
+          }
+        },
+      });
+      await setDbInfo(dlpConnection, 'TestDB', {
+        modificationDate: new Date(2024, 5, 1),
+      });
+    });
+    expect(requests).toHaveLength(1);
+    const [{crDate, modDate, bckUpDate}] = requests;
+    // A zero year means "don't change".
+    const getYear = (date: Date) =>
+      DlpDateTimeType.of(date).serialize().readUInt16BE(0);
+    expect(getYear(crDate)).toBe(0);
+    expect(getYear(modDate)).toBe(2024);
+    expect(getYear(bckUpDate)).toBe(0);
+    const {header} = device.databases[0];
+    expect(header.creationDate.value).toStrictEqual(new Date(2020, 0, 1));
+    expect(header.lastBackupDate.value).toStrictEqual(new Date(PDB_EPOCH));
+  });
+
+  test('setDbInfo with invalid version', async function () {
+    const device = createDevice();
+    await runVirtualSync(device, async (dlpConnection) => {
+      for (const version of [-1, 65535]) {
+        await expect(
+          setDbInfo(dlpConnection, 'TestDB', {version})
+        ).rejects.toThrow(/Invalid database version/);
+      }
+    });
+    expect(device.databases[0].header.version).toBe(3);
+  });
+});
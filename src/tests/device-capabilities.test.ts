@@ -0,0 +1,90 @@
+import {DeviceCapabilities} from '../protocols/device-capabilities';
+import {
+  DlpCallApplicationReqType,
+  DlpCallApplicationReqTypeV10,
+  DlpFindDBByNameReqType,
+  DlpFuncId,
+  DlpReadSysInfoRespType,
+  DlpRomVersion,
+  DlpVFSVolumeEnumerateReqType,
+  DlpVersionType,
+} from '../protocols/dlp-commands';
+import {getDlpFuncIdMinVersion} from '../protocols/dlp-protocol';
+import {VirtualPalmDevice} from '../virtual-device/virtual-palm-device';
+import {runVirtualSync} from './virtual-device-utils';
+
+describe('device-capabilities', function () {
+  test('getDlpFuncIdMinVersion', function () {
+    expect(getDlpFuncIdMinVersion(DlpFuncId.ReadRecordIDList)).toBe(1.0);
+    expect(getDlpFuncIdMinVersion(DlpFuncId.ReadFeature)).toBe(1.1);
+    expect(getDlpFuncIdMinVersion(DlpFuncId.FindDB)).toBe(1.2);
+    expect(getDlpFuncIdMinVersion(DlpFuncId.VFSFileSize)).toBe(1.3);
+    expect(getDlpFuncIdMinVersion(DlpFuncId.ReadRecordStream)).toBe(1.4);
+  });
+
+  test('fromSysInfo', function () {
+    const palmOs5 = DeviceCapabilities.fromSysInfo(
+      DlpReadSysInfoRespType.with({
+        romSWVersion: DlpRomVersion.with({major: 5, minor: 4}),
+        dlpVer: DlpVersionType.with({major: 1, minor: 4}),
+        maxRecSize: 0xfffffe,
+      })
+    );
+    expect(palmOs5.osVersion).toBe(5.4);
+    expect(palmOs5.dlpVersion).toBe(1.4);
+    expect(palmOs5.maxRecordSize).toBe(0xfffffe);
+    expect(palmOs5.supportsStreamRecords).toBe(true);
+    expect(palmOs5.supportsVfs).toBe(true);
+
+    // Palm OS 1.0 doesn't report its DLP version.
+    const palmOs1 = DeviceCapabilities.fromSysInfo(
+      DlpReadSysInfoRespType.with({
+        romSWVersion: DlpRomVersion.with({major: 1, minor: 0}),
+      })
+    );
+    expect(palmOs1.dlpVersion).toBe(1.0);
+    expect(palmOs1.maxRecordSize).toBe(0xffff);
+    expect(palmOs1.supportsFindDb).toBe(false);
+    expect(palmOs1.supportsCallApplicationV2).toBe(false);
+  });
+
+  test('supportsRequest', function () {
+    const palmOs3 = DeviceCapabilities.fromSysInfo(
+      DlpReadSysInfoRespType.with({
+        romSWVersion: DlpRomVersion.with({major: 3, minor: 5}),
+        dlpVer: DlpVersionType.with({major: 1, minor: 2}),
+      })
+    );
+    expect(palmOs3.supportsRequest(new DlpFindDBByNameReqType())).toBe(true);
+    expect(palmOs3.supportsRequest(new DlpCallApplicationReqType())).toBe(true);
+    expect(palmOs3.supportsRequest(new DlpVFSVolumeEnumerateReqType())).toBe(
+      false
+    );
+    expect(new DlpCallApplicationReqTypeV10().minDlpVersion).toBe(1.0);
+    expect(new DlpCallApplicationReqType().minDlpVersion).toBe(1.1);
+  });
+
+  test('probeDeviceCapabilities', async function () {
+    const device = new VirtualPalmDevice();
+    device.dlpVersion = DlpVersionType.with({major: 1, minor: 4});
+    device.features.push({creator: 'psys', num: 2, value: 0x000a0000});
+    await runVirtualSync(device, async ({capabilities}) => {
+      expect(capabilities.isProbed).toBe(false);
+      expect(capabilities.storageInfo).toBeNull();
+    });
+    await runVirtualSync(
+      device,
+      async ({capabilities}) => {
+        expect(capabilities.isProbed).toBe(true);
+        expect(capabilities.processorId).toBe(0x000a0000);
+        expect(capabilities.vfsMgrVersion).toBeNull();
+        expect(capabilities.supportsVfs).toBe(false);
+        expect(capabilities.storageInfo?.cardInfo[0].cardName).toBe(
+          device.cardInfo.cardName
+        );
+      },
+      'net',
+      {probeDeviceCapabilities: true}
+    );
+  });
+});
@@ -0,0 +1,129 @@
+import {
+  decodeDlpDataEvents,
+  parseDlpRequest,
+  parseDlpResponse,
+} from '../protocols/dlp-command-registry';
+import {
+  DlpCallApplicationReqType,
+  DlpCallApplicationReqTypeV10,
+  DlpCallApplicationRespType,
+  DlpCallApplicationRespTypeV10,
+  DlpCloseAllDBsReqType,
+  DlpCloseDBReqType,
+  DlpDeleteAllRecordsReqType,
+  DlpDeleteRecordByCategoryReqType,
+  DlpDeleteRecordReqType,
+  DlpFuncId,
+  DlpOpenDBRespType,
+  DlpProcessRPCReqType,
+  DlpProcessRPCRespType,
+  DlpRPCParamType,
+  DlpReadRecordByIDReqType,
+  DlpReadRecordByIndexReqType,
+  DlpReadRecordRespType,
+} from '../protocols/dlp-commands';
+import {DlpRespErrorCode} from '../protocols/dlp-protocol';
+import {DataEvent, DataEventType} from '../protocols/stream-recorder';
+
+describe('dlp-command-registry', function () {
+  test('parse requests', function () {
+    for (const request of [
+      DlpCloseDBReqType.with({dbId: 3}),
+      new DlpCloseAllDBsReqType(),
+      DlpReadRecordByIDReqType.with({dbId: 1, recordId: 42}),
+      DlpReadRecordByIndexReqType.with({dbId: 1, index: 7}),
+      DlpDeleteRecordReqType.with({dbId: 1, recordId: 42}),
+      DlpDeleteAllRecordsReqType.with({dbId: 1}),
+      DlpDeleteRecordByCategoryReqType.with({dbId: 1, category: 2}),
+      DlpCallApplicationReqTypeV10.with({creator: 'memo', action: 1}),
+      DlpCallApplicationReqType.with({creator: 'memo', action: 1}),
+      DlpProcessRPCReqType.with({
+        trap: 0xa27b,
+        params: [DlpRPCParamType.uint16(1), DlpRPCParamType.ref(4)],
+      }),
+    ]) {
+      const buffer = request.serialize();
+      const parsedRequest = parseDlpRequest(buffer);
+      expect(parsedRequest).toBeInstanceOf(request.constructor);
+      expect(parsedRequest.serialize()).toStrictEqual(buffer);
+    }
+    expect(() => parseDlpRequest(Buffer.of(0x7f, 0))).toThrow(
+      'Unknown DLP function ID'
+    );
+  });
+
+  test('parse responses', function () {
+    const response = DlpOpenDBRespType.with({dbId: 5});
+    const parsedResponse = parseDlpResponse(
+      DlpFuncId.OpenDB,
+      response.serialize()
+    );
+    expect(parsedResponse).toBeInstanceOf(DlpOpenDBRespType);
+    expect(parsedResponse.toJSON()).toStrictEqual(response.toJSON());
+
+    expect(
+      parseDlpResponse(
+        DlpFuncId.CallApplication,
+        DlpCallApplicationRespTypeV10.with({action: 1}).serialize()
+      )
+    ).toBeInstanceOf(DlpCallApplicationRespTypeV10);
+    expect(
+      parseDlpResponse(
+        DlpFuncId.CallApplication,
+        DlpCallApplicationRespType.with({resultCode: 1}).serialize()
+      )
+    ).toBeInstanceOf(DlpCallApplicationRespType);
+
+    const errorResponse = parseDlpResponse(
+      new DlpReadRecordByIDReqType(),
+      Buffer.of(
+        DlpFuncId.ReadRecord | 0x80,
+        0, // argc
+        0, // error code
+        DlpRespErrorCode.NOT_FOUND
+      )
+    );
+    expect(errorResponse).toBeInstanceOf(DlpReadRecordRespType);
+    expect(errorResponse.errorCode).toBe(DlpRespErrorCode.NOT_FOUND);
+  });
+
+  test('ProcessRPC', function () {
+    const request = DlpProcessRPCReqType.with({
+      trap: 0xa27b,
+      params: [DlpRPCParamType.uint16(1), DlpRPCParamType.ref(4)],
+    });
+    const response = DlpProcessRPCRespType.with({
+      trap: 0xa27b,
+      d0: 1,
+      params: [
+        DlpRPCParamType.uint16(1),
+        DlpRPCParamType.ref(Buffer.of(1, 2, 3, 4)),
+      ],
+    });
+    for (const funcIdOrRequest of [DlpFuncId.ProcessRPC, request]) {
+      const parsedResponse = parseDlpResponse(
+        funcIdOrRequest,
+        response.serialize()
+      );
+      expect(parsedResponse).toBeInstanceOf(DlpProcessRPCRespType);
+      expect(parsedResponse.toJSON()).toStrictEqual(response.toJSON());
+    }
+
+    const decodedDataEvents = decodeDlpDataEvents([
+      new DataEvent(DataEventType.WRITE, request.serialize()),
+      new DataEvent(DataEventType.READ, response.serialize()),
+    ]);
+    expect(decodedDataEvents).toStrictEqual([
+      {
+        type: DataEventType.WRITE,
+        command: 'ProcessRPC',
+        value: request.toJSON(),
+      },
+      {
+        type: DataEventType.READ,
+        command: 'ProcessRPC',
+        value: response.toJSON(),
+      },
+    ]);
+  });
+});
@@ -0,0 +1,266 @@
+import {
+  DlpCallApplicationRespType,
+  DlpExpCardInfoReqType,
+  DlpExpCardInfoRespType,
+  DlpExpSlotEnumerateRespType,
+  DlpExpSlotMediaTypeRespType,
+  DlpVFSDirEntryEnumerateRespType,
+  DlpVFSDirEntryType,
+  DlpVFSFileAttrs,
+  DlpVFSFileRenameReqType,
+  DlpVFSGetDefaultDirRespType,
+  DlpVFSVolumeFormatReqType,
+  DlpWriteResourceStreamReqType,
+  DlpProcessRPCReqType,
+  DlpProcessRPCRespType,
+  DlpRPCParamType,
+} from '../protocols/dlp-commands';
+
+describe('dlp-commands', function () {
+  test('ExpSlotEnumerate', function () {
+    const response = DlpExpSlotEnumerateRespType.from(
+      Buffer.of(
+        0x3c | 0x80,
+        1, // argc
+        0, // error code
+        0, // error code
+        0x20, // arg ID
+        6, // arg length
+        ...[0, 2], // numSlots
+        ...[0, 1], // slotRefs[0]
+        ...[0, 2] // slotRefs[1]
+      )
+    );
+    expect(response.slotRefs).toStrictEqual([1, 2]);
+  });
+
+  test('ExpCardInfo', function () {
+    expect(DlpExpCardInfoReqType.with({slotRef: 1}).serialize()).toStrictEqual(
+      Buffer.of(0x3e, 1, 0x20, 2, 0, 1)
+    );
+    const response = DlpExpCardInfoRespType.with({
+      manufacturer: 'Acme',
+      product: 'SD 64MB',
+      deviceClass: 'Storage',
+      deviceUniqueId: '1234',
+    });
+    response.capabilityFlags.hasStorage = true;
+    const buffer = response.serialize();
+    expect(buffer.subarray(6, 14)).toStrictEqual(
+      Buffer.of(0, 0, 0, 1, 0, 4, 0, 0)
+    );
+    const parsedResponse = DlpExpCardInfoRespType.from(buffer);
+    expect(parsedResponse.capabilityFlags.hasStorage).toBe(true);
+    expect(parsedResponse.capabilityFlags.readOnly).toBe(false);
+    expect(parsedResponse.manufacturer).toBe('Acme');
+    expect(parsedResponse.product).toBe('SD 64MB');
+    expect(parsedResponse.deviceClass).toBe('Storage');
+    expect(parsedResponse.deviceUniqueId).toBe('1234');
+    expect(parsedResponse.getSerializedLength()).toBe(buffer.length);
+  });
+
+  test('ExpSlotMediaType', function () {
+    const response = DlpExpSlotMediaTypeRespType.from(
+      Buffer.of(0x5d | 0x80, 1, 0, 0, 0x20, 4, ...Buffer.from('sdig'))
+    );
+    expect(response.mediaType).toBe('sdig');
+  });
+
+  test('VFSDirEntryEnumerate', function () {
+    const response = DlpVFSDirEntryEnumerateRespType.with({
+      dirIterator: 2,
+      entries: [
+        DlpVFSDirEntryType.with({
+          attributes: DlpVFSFileAttrs.with({directory: true}),
+          name: 'PALM',
+        }),
+        DlpVFSDirEntryType.with({name: 'a.mp3'}),
+      ],
+    });
+    const buffer = response.serialize();
+    expect(buffer.subarray(6)).toStrictEqual(
+      Buffer.of(
+        ...[0, 0, 0, 2], // dirIterator
+        ...[0, 0, 0, 2], // numEntries
+        ...[0, 0, 0, 0x10], // attributes
+        ...Buffer.from('PALM\0'),
+        0, // padding
+        ...[0, 0, 0, 0], // attributes
+        ...Buffer.from('a.mp3\0')
+      )
+    );
+    const parsedResponse = DlpVFSDirEntryEnumerateRespType.from(buffer);
+    expect(parsedResponse.dirIterator).toBe(2);
+    expect(
+      parsedResponse.entries.map(({name, attributes}) => [
+        name,
+        attributes.directory,
+      ])
+    ).toStrictEqual([
+      ['PALM', true],
+      ['a.mp3', false],
+    ]);
+  });
+
+  test('VFSFileRename', function () {
+    expect(
+      DlpVFSFileRenameReqType.with({
+        volRefNum: 1,
+        path: '/a/b',
+        newName: 'c',
+      }).serialize()
+    ).toStrictEqual(
+      Buffer.of(
+        0x49,
+        1, // argc
+        0x20, // arg ID
+        11, // arg length
+        ...[0, 1], // volRefNum
+        ...[0, 2], // numNames
+        ...Buffer.from('/a/b\0c\0')
+      )
+    );
+  });
+
+  test('VFSGetDefaultDir', function () {
+    const response = DlpVFSGetDefaultDirRespType.from(
+      Buffer.of(
+        0x40 | 0x80,
+        1, // argc
+        0, // error code
+        0, // error code
+        0x20, // arg ID
+        17, // arg length
+        ...[0, 16], // path size
+        ...Buffer.from('/PALM/Launcher/\0')
+      )
+    );
+    expect(response.path).toStrictEqual('/PALM/Launcher/');
+    expect(response.serialize()).toStrictEqual(
+      DlpVFSGetDefaultDirRespType.with({path: '/PALM/Launcher/'}).serialize()
+    );
+  });
+
+  test('VFSVolumeFormat', function () {
+    expect(
+      DlpVFSVolumeFormatReqType.with({
+        volRefNum: 1,
+        slotLibRefNum: 7,
+        slotRefNum: 2,
+      }).serialize()
+    ).toStrictEqual(
+      Buffer.of(
+        0x54,
+        1, // argc
+        0x20, // arg ID
+        18, // arg length
+        ...[0, 0], // fsLibRefNum
+        ...[0, 12], // mount param size
+        0, // flags
+        0, // padding
+        ...[0, 1], // volRefNum
+        ...[0, 0], // reserved
+        ...Buffer.from('libs'), // mountClass
+        ...[0, 7], // slotLibRefNum
+        ...[0, 2] // slotRefNum
+      )
+    );
+  });
+
+  test('WriteResourceStream', function () {
+    const data = Buffer.alloc(0x10000, 0xab);
+    const request = DlpWriteResourceStreamReqType.with({
+      dbId: 1,
+      type: 'Tbmp',
+      id: 1000,
+      data,
+    });
+    const buffer = request.serialize();
+    expect(buffer.subarray(0, 16)).toStrictEqual(
+      Buffer.of(
+        0x5e,
+        1, // argc
+        0x40 | 0x20, // arg ID (long)
+        0, // padding
+        ...[0, 1, 0, 12], // arg length
+        1, // dbId
+        0, // padding
+        ...Buffer.from('Tbmp'), // type
+        ...[0x03, 0xe8] // id
+      )
+    );
+    expect(buffer.readUInt32BE(16)).toStrictEqual(data.length);
+    expect(buffer.subarray(20).equals(data)).toBe(true);
+    expect(DlpWriteResourceStreamReqType.from(buffer).data.equals(data)).toBe(
+      true
+    );
+  });
+
+  test('ProcessRPC', function () {
+    const request = DlpProcessRPCReqType.with({
+      trap: 0xa27b,
+      params: [
+        DlpRPCParamType.uint32(0x70737973), // 'psys'
+        DlpRPCParamType.uint16(1),
+        DlpRPCParamType.ref(4),
+      ],
+    });
+    const buffer = Buffer.of(
+      0x2d,
+      1,
+      ...[0, 0],
+      0x0a, // RPC request
+      0, // padding
+      ...[0xa2, 0x7b], // trap
+      ...[0, 0, 0, 0], // D0
+      ...[0, 0, 0, 0], // A0
+      ...[0, 3], // number of params
+      ...[1, 4, 0, 0, 0, 0], // params[2]
+      ...[0, 2, 0, 1], // params[1]
+      ...[0, 4, 0x70, 0x73, 0x79, 0x73] // params[0]
+    );
+    expect(request.serialize()).toStrictEqual(buffer);
+    expect(request.getSerializedLength()).toStrictEqual(buffer.length);
+    expect(DlpProcessRPCReqType.from(buffer).params).toStrictEqual(
+      request.params
+    );
+
+    const response = DlpProcessRPCRespType.from(
+      Buffer.of(
+        0x2d | 0x80,
+        1,
+        ...[0, 0], // error code
+        0x8a, // RPC reply
+        0, // padding
+        ...[0xa2, 0x7b], // trap
+        ...[0, 0, 0, 0], // D0
+        ...[0, 0, 0, 0], // A0
+        ...[0, 3], // number of params
+        ...[1, 4, 0x05, 0x00, 0x00, 0x01], // params[2]
+        ...[0, 2, 0, 1], // params[1]
+        ...[0, 4, 0x70, 0x73, 0x79, 0x73] // params[0]
+      )
+    );
+    expect(response.trap).toStrictEqual(0xa27b);
+    expect(response.params[2].data.readUInt32BE(0)).toStrictEqual(0x05000001);
+  });
+
+  test('CallApplication', function () {
+    const response = DlpCallApplicationRespType.from(
+      Buffer.of(
+        0x28 | 0x80,
+        1, // argc
+        0, // error code
+        0, // error code
+        0x21, // arg ID
+        20, // arg length
+        ...[0, 0, 0, 5], // resultCode
+        ...[0, 0, 0, 3], // resultSize
+        ...[0, 0, 0, 0, 0, 0, 0, 0], // padding
+        ...[1, 2, 3, 0] // resultData
+      )
+    );
+    expect(response.resultCode).toStrictEqual(5);
+    expect(response.resultData).toStrictEqual(Buffer.of(1, 2, 3));
+  });
+});
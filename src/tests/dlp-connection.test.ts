@@ -0,0 +1,157 @@
+import {Duplex} from 'stream';
+import {
+  DlpEndOfSyncReqType,
+  DlpEndOfSyncRespType,
+  DlpReadSysInfoReqType,
+} from '../protocols/dlp-commands';
+import {
+  DlpAbortError,
+  DlpNotFoundError,
+  DlpRespErrorCode,
+  DlpTimeoutError,
+} from '../protocols/dlp-protocol';
+import {DlpTranscriptRecorder} from '../protocols/dlp-transcript';
+import {DlpConnection} from '../protocols/sync-connections';
+
+/** Create a transport that never responds. */
+function createSilentTransport() {
+  return new Duplex({
+    read() {},
+    write(chunk, encoding, callback) {
+      callback();
+    },
+  });
+}
+
+/** Create a transport that responds to every request with the given
+ * response. */
+function createEchoTransport(response: Buffer) {
+  const transport: Duplex = new Duplex({
+    read() {},
+    write(chunk, encoding, callback) {
+      callback();
+      setImmediate(() => transport.push(response));
+    },
+  });
+  return transport;
+}
+
+describe('DlpConnection', function () {
+  test('interceptors', async function () {
+    const dlpConnection = new DlpConnection(
+      createEchoTransport(new DlpEndOfSyncRespType().serialize())
+    );
+    const onRequest = jest.fn();
+    const onResponse = jest.fn();
+    const onError = jest.fn();
+    const unregister = dlpConnection.use({onRequest, onResponse, onError});
+
+    const request = new DlpEndOfSyncReqType();
+    const response = await dlpConnection.execute(request);
+    expect(onRequest).toHaveBeenCalledWith(request, expect.anything());
+    expect(onResponse).toHaveBeenCalledWith(
+      response,
+      request,
+      expect.objectContaining({connection: dlpConnection})
+    );
+    expect(onError).not.toHaveBeenCalled();
+
+    // Interceptors can inject faults.
+    const unregisterFault = dlpConnection.use({
+      onResponse: (response) => {
+        response.errorCode = DlpRespErrorCode.NOT_FOUND;
+        throw new Error('Injected fault');
+      },
+    });
+    await expect(dlpConnection.execute(request)).rejects.toThrow(
+      'Injected fault'
+    );
+    expect(onError).toHaveBeenCalledTimes(1);
+    unregisterFault();
+
+    unregister();
+    await dlpConnection.execute(request);
+    expect(onRequest).toHaveBeenCalledTimes(2);
+  });
+
+  test('interceptor onError with error response', async function () {
+    const dlpConnection = new DlpConnection(
+      createEchoTransport(
+        DlpEndOfSyncRespType.with({
+          errorCode: DlpRespErrorCode.NOT_FOUND,
+        }).serialize()
+      )
+    );
+    const onError = jest.fn();
+    dlpConnection.use({onError});
+    await expect(
+      dlpConnection.execute(new DlpEndOfSyncReqType())
+    ).rejects.toBeInstanceOf(DlpNotFoundError);
+    expect(onError.mock.calls[0][0]).toBeInstanceOf(DlpNotFoundError);
+  });
+
+  test('transcript', async function () {
+    const dlpConnection = new DlpConnection(
+      createEchoTransport(
+        DlpEndOfSyncRespType.with({
+          errorCode: DlpRespErrorCode.NOT_FOUND,
+        }).serialize()
+      )
+    );
+    const recorder = new DlpTranscriptRecorder();
+    recorder.record(dlpConnection);
+    await dlpConnection.execute(new DlpEndOfSyncReqType(), {
+      ignoreErrorCode: true,
+    });
+    await expect(
+      dlpConnection.execute(new DlpEndOfSyncReqType())
+    ).rejects.toBeInstanceOf(DlpNotFoundError);
+
+    const lines = recorder
+      .toJSONL()
+      .trim()
+      .split('\n')
+      .map((line) => JSON.parse(line));
+    expect(lines).toHaveLength(2);
+    expect(lines[0]).toMatchObject({
+      command: 'EndOfSync',
+      response: {errorCode: DlpRespErrorCode.NOT_FOUND},
+    });
+    expect(lines[0].error).toBeUndefined();
+    expect(lines[1]).toMatchObject({
+      command: 'EndOfSync',
+      error: {name: 'DlpNotFoundError'},
+    });
+  });
+
+  test('request timeout', async function () {
+    const transport = createSilentTransport();
+    const dlpConnection = new DlpConnection(transport, {requestTimeoutMs: 10});
+    const abortListener = jest.fn();
+    dlpConnection.on('abort', abortListener);
+
+    await expect(
+      dlpConnection.execute(new DlpReadSysInfoReqType())
+    ).rejects.toBeInstanceOf(DlpTimeoutError);
+    expect(abortListener).toHaveBeenCalledTimes(1);
+    expect(abortListener.mock.calls[0][0]).toBeInstanceOf(DlpTimeoutError);
+    expect(transport.destroyed).toBe(true);
+
+    // Subsequent requests should fail immediately.
+    await expect(
+      dlpConnection.execute(new DlpReadSysInfoReqType())
+    ).rejects.toBeInstanceOf(DlpTimeoutError);
+    expect(abortListener).toHaveBeenCalledTimes(1);
+  });
+
+  test('abort signal', async function () {
+    const dlpConnection = new DlpConnection(createSilentTransport());
+    const abortController = new AbortController();
+    const resultPromise = dlpConnection.execute(new DlpReadSysInfoReqType(), {
+      signal: abortController.signal,
+    });
+    abortController.abort();
+    await expect(resultPromise).rejects.toBeInstanceOf(DlpAbortError);
+    expect(dlpConnection.abortError).toBeInstanceOf(DlpAbortError);
+  });
+});
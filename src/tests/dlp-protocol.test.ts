@@ -1,10 +1,15 @@
+import {PDB_EPOCH} from 'palm-pdb';
 import {SString, SStringNT, SUInt16BE, SUInt8} from 'serio';
 import {
   DLP_ARG_ID_BASE,
+  DlpDateTimeType,
   DlpRequest,
   DlpResponse,
   DlpRespErrorCode,
+  DlpNotFoundError,
+  DlpResponseError,
   dlpArg,
+  isUnsetDlpDateTime,
   optDlpArg,
 } from '../protocols/dlp-protocol';
 
@@ -158,4 +163,46 @@ describe('dlp-protocol', function () {
     expect(response3.str1).toStrictEqual('a'.repeat(100));
     expect(response3.str2).toStrictEqual('b'.repeat(200));
   });
+
+  test('response errors', function () {
+    const request = new EmptyDlpRequest();
+    const notFoundError = DlpResponseError.create(
+      request,
+      EmptyDlpResponse.with({errorCode: DlpRespErrorCode.NOT_FOUND})
+    );
+    expect(notFoundError).toBeInstanceOf(DlpNotFoundError);
+    expect(notFoundError).toBeInstanceOf(DlpResponseError);
+    expect(notFoundError.errorCode).toStrictEqual(DlpRespErrorCode.NOT_FOUND);
+    expect(notFoundError.request).toBe(request);
+    expect(notFoundError.message).toStrictEqual(
+      'EmptyDlpResponse error 0x05 NOT_FOUND: Not found'
+    );
+
+    const paramError = DlpResponseError.create(
+      request,
+      EmptyDlpResponse.with({errorCode: DlpRespErrorCode.PARAM})
+    );
+    expect(paramError.constructor).toBe(DlpResponseError);
+    expect(paramError.errorMessage).toStrictEqual('Invalid parameter');
+  });
+
+  test('DlpDateTimeType', function () {
+    expect(DlpDateTimeType.of(new Date(PDB_EPOCH)).serialize()).toStrictEqual(
+      Buffer.alloc(8)
+    );
+    const date = new Date(2024, 5, 1, 12, 30, 15);
+    expect(
+      DlpDateTimeType.from(DlpDateTimeType.of(date).serialize()).value
+    ).toStrictEqual(date);
+
+    const unsetDate = DlpDateTimeType.from(Buffer.alloc(8)).value;
+    expect(unsetDate).toStrictEqual(PDB_EPOCH);
+    expect(isUnsetDlpDateTime(unsetDate)).toBe(true);
+    // 1904-01-01 is deserialized to the same value, but is an actual date.
+    const epochDate = DlpDateTimeType.from(
+      Buffer.of(0x07, 0x70, 1, 1, 0, 0, 0, 0)
+    ).value;
+    expect(epochDate).toStrictEqual(PDB_EPOCH);
+    expect(isUnsetDlpDateTime(epochDate)).toBe(false);
+  });
 });
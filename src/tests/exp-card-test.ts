@@ -0,0 +1,40 @@
+import assert from 'assert';
+import debug from 'debug';
+import {
+  DlpConnection,
+  DlpExpCardInfoReqType,
+  DlpExpCardPresentReqType,
+  DlpExpSlotEnumerateReqType,
+  DlpExpSlotMediaTypeReqType,
+  DlpRespErrorCode,
+} from '..';
+
+const log = debug('palm-sync').extend('test');
+
+export async function run(dlpConnection: DlpConnection) {
+  const {slotRefs} = await dlpConnection.execute(
+    DlpExpSlotEnumerateReqType.with()
+  );
+  assert(slotRefs.length > 0);
+  for (const slotRef of slotRefs) {
+    const {mediaType} = await dlpConnection.execute(
+      DlpExpSlotMediaTypeReqType.with({slotRef})
+    );
+    const {errorCode} = await dlpConnection.execute(
+      DlpExpCardPresentReqType.with({slotRef}),
+      {ignoreErrorCode: DlpRespErrorCode.NOT_FOUND}
+    );
+    if (errorCode !== DlpRespErrorCode.NONE) {
+      log(`Slot ${slotRef} (${mediaType}): no card`);
+      continue;
+    }
+    const cardInfo = await dlpConnection.execute(
+      DlpExpCardInfoReqType.with({slotRef})
+    );
+    assert(cardInfo.capabilityFlags.hasStorage);
+    log(
+      `Slot ${slotRef} (${mediaType}): ` +
+        `${cardInfo.manufacturer} ${cardInfo.product} ${cardInfo.deviceClass}`
+    );
+  }
+}
@@ -0,0 +1,36 @@
+import {RawPrcDatabase} from 'palm-pdb';
+import {run as runCardDbTest} from './card-db-test';
+import {run as runExpCardTest} from './exp-card-test';
+import {createDeviceWithCard, runVirtualSync} from './virtual-device-utils';
+
+// There are no recorded sessions for exp-card-test, vfs-test and card-db-test
+// yet, as they require a device with an expansion card. Until then, they run
+// against VirtualPalmDevice here and in vfs-client.test.ts. To record one, run
+// e.g. `npm run record-sync-session -- usb exp-card-test` with a card inserted,
+// and recorded-tests.test.ts will pick it up automatically.
+describe('expansion card', function () {
+  for (const protocol of ['net', 'serial'] as const) {
+    describe(protocol, function () {
+      test('exp-card-test', async function () {
+        await runVirtualSync(createDeviceWithCard(), runExpCardTest, protocol);
+      });
+
+      test('card-db-test', async function () {
+        const device = createDeviceWithCard();
+        await runVirtualSync(device, runCardDbTest, protocol);
+        const {entries} = device.volumes[0];
+        const launcherData = entries.get('/PALM/Launcher/SrcEdit.prc')!.data!;
+        const backupData = entries.get('/PALM/Backup/SrcEdit.prc')!.data!;
+        // Compare with Buffer.equals(), as deep equality is slow for large
+        // buffers.
+        expect(backupData.equals(launcherData)).toBe(true);
+        expect(
+          device
+            .findDb('SrcEdit')!
+            .serialize()
+            .equals(RawPrcDatabase.from(launcherData).serialize())
+        ).toBe(true);
+      });
+    });
+  }
+});
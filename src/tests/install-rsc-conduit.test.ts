@@ -0,0 +1,144 @@
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import {
+  DatabaseAttrs,
+  DatabaseHdrType,
+  RawPdbDatabase,
+  RawPdbRecord,
+  RecordEntryType,
+} from 'palm-pdb';
+import {ConduitData} from '../conduits/conduit-interface';
+import {InstallNewResourcesConduit} from '../conduits/install-rsc-conduit';
+import {NodeDatabaseStorage} from '../database-storage/node-database-storage';
+import {DlpCreateDBReqType} from '../protocols/dlp-commands';
+import {DlpCancelSyncError, DlpRespErrorCode} from '../protocols/dlp-protocol';
+import {PalmDeviceIdentification} from '../sync-utils/sync-device';
+import {VirtualDlpError} from '../virtual-device/virtual-dlp-session';
+import {VirtualPalmDevice} from '../virtual-device/virtual-palm-device';
+import {runVirtualSync} from './virtual-device-utils';
+
+const USER_NAME = 'Test User';
+const DB_NAMES = ['DB1', 'DB2', 'DB3'];
+
+function createDb(name: string, attributes = new DatabaseAttrs()) {
+  return RawPdbDatabase.with({
+    header: DatabaseHdrType.with({
+      name,
+      type: 'DATA',
+      creator: 'test',
+      attributes,
+    }),
+    records: [
+      RawPdbRecord.with({
+        entry: RecordEntryType.with({uniqueId: 1}),
+        data: Buffer.from(name),
+      }),
+    ],
+  });
+}
+
+const conduitData: ConduitData = {
+  palmID: Object.assign(new PalmDeviceIdentification(), {userName: USER_NAME}),
+  dbList: null,
+  syncType: null,
+};
+
+describe('InstallNewResourcesConduit', function () {
+  let dbStg: NodeDatabaseStorage;
+  let storageDir: string;
+  let installDir: string;
+
+  beforeEach(async function () {
+    storageDir = await fs.mkdtemp(path.join(os.tmpdir(), 'palm-sync-test-'));
+    dbStg = new NodeDatabaseStorage(storageDir);
+    await dbStg.createUser(USER_NAME);
+    installDir = path.join(storageDir, USER_NAME, 'install');
+    for (const name of DB_NAMES) {
+      await fs.writeFile(
+        path.join(installDir, `${name}.pdb`),
+        createDb(name).serialize()
+      );
+    }
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(async function () {
+    jest.restoreAllMocks();
+    await fs.remove(storageDir);
+  });
+
+  test('continue after a database fails to install', async function () {
+    const device = new VirtualPalmDevice();
+    // Overwriting a database in ROM fails with READ_ONLY.
+    device.databases.push(
+      createDb('DB2', DatabaseAttrs.with({readOnly: true}))
+    );
+    await runVirtualSync(device, async (dlpConnection) => {
+      await new InstallNewResourcesConduit().execute(
+        dlpConnection,
+        conduitData,
+        dbStg
+      );
+    });
+    expect(
+      device.databases.map(({header}) => header.name).sort()
+    ).toStrictEqual(DB_NAMES);
+    expect(device.findDb('DB2')!.header.attributes.readOnly).toBe(true);
+    expect(await fs.readdir(installDir)).toStrictEqual(['DB2.pdb']);
+  });
+
+  test('stop after running out of space', async function () {
+    const device = new VirtualPalmDevice();
+    const createDbRequests: Array<string> = [];
+    device.setRequestHandler(DlpCreateDBReqType, (request) => {
+      createDbRequests.push(request.name);
+      throw new VirtualDlpError(DlpRespErrorCode.NOT_ENOUGH_SPACE);
+    });
+    await runVirtualSync(device, async (dlpConnection) => {
+      await new InstallNewResourcesConduit().execute(
+        dlpConnection,
+        conduitData,
+        dbStg
+      );
+    });
+    expect(createDbRequests).toStrictEqual(['DB1']);
+    expect(await fs.readdir(installDir)).toStrictEqual(
+      DB_NAMES.map((name) => `${name}.pdb`)
+    );
+  });
+
+  test('rethrow sync cancellation', async function () {
+    const device = new VirtualPalmDevice();
+    device.setRequestHandler(DlpCreateDBReqType, () => {
+      throw new VirtualDlpError(DlpRespErrorCode.CANCEL_SYNC);
+    });
+    await runVirtualSync(device, async (dlpConnection) => {
+      await expect(
+        new InstallNewResourcesConduit().execute(
+          dlpConnection,
+          conduitData,
+          dbStg
+        )
+      ).rejects.toThrow(DlpCancelSyncError);
+    });
+    expect(await fs.readdir(installDir)).toStrictEqual(
+      DB_NAMES.map((name) => `${name}.pdb`)
+    );
+  });
+
+  test('log errors reading the install list', async function () {
+    await fs.remove(installDir);
+    await runVirtualSync(new VirtualPalmDevice(), async (dlpConnection) => {
+      await new InstallNewResourcesConduit().execute(
+        dlpConnection,
+        conduitData,
+        dbStg
+      );
+    });
+    expect(console.error).toHaveBeenCalledWith(
+      'Failed to read install list! Skipping...',
+      expect.objectContaining({code: 'ENOENT'})
+    );
+  });
+});
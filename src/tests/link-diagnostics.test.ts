@@ -0,0 +1,54 @@
+import {
+  DlpLoopBackTestReqType,
+  DlpVersionType,
+} from '../protocols/dlp-commands';
+import {runLinkDiagnostics} from '../sync-utils/link-diagnostics';
+import {VirtualPalmDevice} from '../virtual-device/virtual-palm-device';
+import {runVirtualSync} from './virtual-device-utils';
+
+/** Create a DLP 1.3 virtual device that echoes loopback payloads of up to
+ * maxSize bytes. */
+function createDevice(maxSize = Infinity) {
+  const device = new VirtualPalmDevice();
+  device.dlpVersion = DlpVersionType.with({major: 1, minor: 3});
+  device.setRequestHandler(DlpLoopBackTestReqType, ({data}, response) => {
+    response.data = data.subarray(0, maxSize);
+  });
+  return device;
+}
+
+describe('link-diagnostics', function () {
+  test('run loopback tests', async function () {
+    const onResult = jest.fn();
+    await runVirtualSync(createDevice(), async (dlpConnection) => {
+      const {results, maxSuccessfulSize} = await runLinkDiagnostics(
+        dlpConnection,
+        {sizes: [1024, 0, 64], iterations: 2, onResult}
+      );
+      expect(results.map(({size}) => size)).toStrictEqual([0, 64, 1024]);
+      for (const result of results) {
+        expect(result).toMatchObject({numRoundTrips: 2, error: null});
+        expect(result.minRoundTripMs).toBeLessThanOrEqual(
+          result.maxRoundTripMs
+        );
+      }
+      expect(maxSuccessfulSize).toBe(1024);
+    });
+    expect(onResult).toHaveBeenCalledTimes(3);
+  });
+
+  test('stop at first failure', async function () {
+    await runVirtualSync(createDevice(100), async (dlpConnection) => {
+      const {results, maxSuccessfulSize} = await runLinkDiagnostics(
+        dlpConnection,
+        {sizes: [0, 64, 256, 1024]}
+      );
+      expect(results.map(({size}) => size)).toStrictEqual([0, 64, 256]);
+      expect(results[2].numRoundTrips).toBe(0);
+      expect(results[2].error?.message).toBe(
+        'Loopback data mismatch: sent 256 bytes, received 100 bytes'
+      );
+      expect(maxSuccessfulSize).toBe(64);
+    });
+  });
+});
@@ -0,0 +1,37 @@
+import {readNetSyncInfo, writeNetSyncInfo} from '../sync-utils/netsync-info';
+import {VirtualPalmDevice} from '../virtual-device/virtual-palm-device';
+import {runVirtualSync} from './virtual-device-utils';
+
+describe('netsync-info', function () {
+  test('read and write NetSync info', async function () {
+    const device = new VirtualPalmDevice();
+    device.netSyncInfo = {
+      lanSyncOn: false,
+      syncPcName: 'desktop',
+      syncPcAddr: '192.168.1.2',
+      syncPcMask: '255.255.255.0',
+    };
+    await runVirtualSync(device, async (dlpConnection) => {
+      expect(await readNetSyncInfo(dlpConnection)).toStrictEqual(
+        device.netSyncInfo
+      );
+      await writeNetSyncInfo(dlpConnection, {
+        lanSyncOn: true,
+        syncPcAddr: '10.0.0.5',
+      });
+      expect(await readNetSyncInfo(dlpConnection)).toStrictEqual({
+        lanSyncOn: true,
+        syncPcName: 'desktop',
+        syncPcAddr: '10.0.0.5',
+        syncPcMask: '255.255.255.0',
+      });
+      await writeNetSyncInfo(dlpConnection, {lanSyncOn: false, syncPcName: ''});
+    });
+    expect(device.netSyncInfo).toStrictEqual({
+      lanSyncOn: false,
+      syncPcName: '',
+      syncPcAddr: '10.0.0.5',
+      syncPcMask: '255.255.255.0',
+    });
+  });
+});
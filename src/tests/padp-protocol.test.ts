@@ -0,0 +1,104 @@
+import duplexify from 'duplexify';
+import pEvent from 'p-event';
+import {Duplex, PassThrough} from 'stream';
+import {PadpStream} from '../protocols/padp-protocol';
+
+/** Write a message to a PADP stream and wait for it to be ACKed. */
+function writeMessage(stream: PadpStream, data: Buffer) {
+  return new Promise<void>((resolve, reject) =>
+    stream.write(data, 'buffer' as BufferEncoding, (error) =>
+      error ? reject(error) : resolve()
+    )
+  );
+}
+
+describe('PadpStream', function () {
+  test('link statistics', async function () {
+    const a = new PassThrough();
+    const b = new PassThrough();
+    const sender = new PadpStream(duplexify(a, b));
+    const receiverRawStream = duplexify(b, a);
+    const receiver = new PadpStream(receiverRawStream);
+
+    // Message spanning multiple PADP datagrams.
+    const data = Buffer.alloc(1200, 0xab);
+    const receivePromise = pEvent(receiver, 'data');
+    await writeMessage(sender, data);
+    expect(await receivePromise).toStrictEqual(data);
+
+    expect(sender.stats).toMatchObject({
+      datagramsSent: 3,
+      datagramsReceived: 0,
+      retries: 0,
+      crcErrors: 0,
+    });
+    expect(receiver.stats).toMatchObject({
+      datagramsSent: 0,
+      datagramsReceived: 3,
+      duplicatesIgnored: 0,
+      crcErrors: 0,
+    });
+    expect(sender.stats.bytesSent).toBeGreaterThan(data.length);
+    expect(receiver.stats.bytesReceived).toBe(sender.stats.bytesSent);
+    expect(sender.stats.bytesReceived).toBe(receiver.stats.bytesSent);
+
+    // Corrupted datagrams are dropped and counted.
+    const corruptedDatagram = Buffer.from(
+      'beefed030302000effaf01c0000a0100010100000000258071af',
+      'hex'
+    );
+    a.write(corruptedDatagram);
+    const nextReceivePromise = pEvent(receiver, 'data');
+    await writeMessage(sender, Buffer.from('hello'));
+    await nextReceivePromise;
+    expect(receiver.stats.crcErrors).toBe(1);
+    expect(receiver.stats.datagramsReceived).toBe(4);
+  });
+
+  test('retry options', async function () {
+    const silentRawStream = new Duplex({
+      read() {},
+      write(chunk, encoding, callback) {
+        callback();
+      },
+    });
+    const stream = new PadpStream(silentRawStream, {
+      maxRetries: 3,
+      ackTimeoutMs: 10,
+    });
+    stream.on('error', () => {});
+    await expect(writeMessage(stream, Buffer.from('hello'))).rejects.toThrow(
+      /Timeout/
+    );
+    expect(stream.stats).toMatchObject({datagramsSent: 1, retries: 2});
+  });
+
+  test('invalid retry options', function () {
+    const rawStream = new PassThrough();
+    for (const maxRetries of [0, -1, 1.5, NaN]) {
+      expect(() => new PadpStream(rawStream, {maxRetries})).toThrow(
+        /maxRetries/
+      );
+    }
+    for (const ackTimeoutMs of [0, -10, NaN]) {
+      expect(() => new PadpStream(rawStream, {ackTimeoutMs})).toThrow(
+        /ackTimeoutMs/
+      );
+    }
+    expect(
+      () => new PadpStream(rawStream, {maxRetries: 1, ackTimeoutMs: 1})
+    ).not.toThrow();
+  });
+
+  test('answerSlpLoopback', function () {
+    const rawStream = new PassThrough();
+    // Off by default to match the Palm HotSync desktop.
+    expect(new PadpStream(rawStream).slpMultiplexer.shouldAnswerLoopback).toBe(
+      false
+    );
+    expect(
+      new PadpStream(rawStream, {answerSlpLoopback: true}).slpMultiplexer
+        .shouldAnswerLoopback
+    ).toBe(true);
+  });
+});
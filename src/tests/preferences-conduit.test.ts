@@ -0,0 +1,126 @@
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import {
+  DatabaseAttrs,
+  DatabaseHdrType,
+  RawPrcDatabase,
+  RawPrcRecord,
+  RsrcEntryType,
+} from 'palm-pdb';
+import {ConduitData} from '../conduits/conduit-interface';
+import {PreferencesConduit} from '../conduits/preferences-conduit';
+import {NodeDatabaseStorage} from '../database-storage/node-database-storage';
+import {PalmDeviceIdentification} from '../sync-utils/sync-device';
+import {
+  VirtualAppPreference,
+  VirtualPalmDevice,
+} from '../virtual-device/virtual-palm-device';
+import {runVirtualSync} from './virtual-device-utils';
+
+const USER_NAME = 'Test User';
+
+/** Preferences with non-contiguous IDs, which can't be found by probing. */
+const PREFERENCES: Array<VirtualAppPreference> = [
+  {creator: 'memo', id: 0, version: 1, data: Buffer.from('a'), backedUp: true},
+  {creator: 'memo', id: 5, version: 1, data: Buffer.from('b'), backedUp: true},
+  {creator: 'addr', id: 2, version: 3, data: Buffer.from('c'), backedUp: false},
+];
+
+/** Create a virtual device with preferences and the corresponding preferences
+ * databases. */
+function createDevice() {
+  const device = new VirtualPalmDevice();
+  device.preferences = PREFERENCES.map((pref) => ({...pref}));
+  for (const [name, backedUp] of [
+    ['Saved Preferences', true],
+    ['Unsaved Preferences', false],
+  ] as const) {
+    device.databases.push(
+      RawPrcDatabase.with({
+        header: DatabaseHdrType.with({
+          name,
+          type: 'sprf',
+          creator: 'psys',
+          attributes: DatabaseAttrs.with({resDB: true}),
+        }),
+        records: device.preferences
+          .filter((pref) => pref.backedUp === backedUp)
+          .map(({creator, id, data}) =>
+            RawPrcRecord.with({
+              entry: RsrcEntryType.with({type: creator, resourceId: id}),
+              data,
+            })
+          ),
+      })
+    );
+  }
+  return device;
+}
+
+function createConduitData(newlySet: boolean): ConduitData {
+  return {
+    palmID: Object.assign(new PalmDeviceIdentification(), {
+      userName: USER_NAME,
+      newlySet,
+    }),
+    dbList: null,
+    syncType: null,
+  };
+}
+
+describe('PreferencesConduit', function () {
+  let dbStg: NodeDatabaseStorage;
+  let storageDir: string;
+
+  beforeEach(async function () {
+    storageDir = await fs.mkdtemp(path.join(os.tmpdir(), 'palm-sync-test-'));
+    dbStg = new NodeDatabaseStorage(storageDir);
+  });
+
+  afterEach(async function () {
+    await fs.remove(storageDir);
+  });
+
+  test('back up preferences', async function () {
+    await runVirtualSync(createDevice(), async (dlpConnection) => {
+      await new PreferencesConduit().execute(
+        dlpConnection,
+        createConduitData(false),
+        dbStg
+      );
+    });
+    expect(await dbStg.readPreferences(USER_NAME)).toStrictEqual(
+      PREFERENCES.map(({backedUp, ...pref}) => ({...pref, saved: backedUp}))
+    );
+  });
+
+  test('skip missing preferences databases', async function () {
+    const device = createDevice();
+    device.databases = [];
+    await runVirtualSync(device, async (dlpConnection) => {
+      await new PreferencesConduit().execute(
+        dlpConnection,
+        createConduitData(false),
+        dbStg
+      );
+    });
+    expect(await dbStg.readPreferences(USER_NAME)).toStrictEqual([]);
+  });
+
+  test('restore preferences', async function () {
+    await dbStg.writePreferences(
+      USER_NAME,
+      PREFERENCES.map(({backedUp, ...pref}) => ({...pref, saved: backedUp}))
+    );
+    const device = new VirtualPalmDevice();
+    await runVirtualSync(device, async (dlpConnection) => {
+      await new PreferencesConduit().execute(
+        dlpConnection,
+        createConduitData(true),
+        dbStg
+      );
+    });
+    expect(device.preferences).toStrictEqual(PREFERENCES);
+  });
+});
@@ -0,0 +1,96 @@
+import {
+  DatabaseHdrType,
+  RawPdbDatabase,
+  RawPdbRecord,
+  RecordEntryType,
+} from 'palm-pdb';
+import {
+  DlpReadRecordByIndexReqType,
+  DlpReadRecordStreamReqType,
+  DlpVersionType,
+} from '../protocols/dlp-commands';
+import {DlpRespErrorCode, DlpResponseError} from '../protocols/dlp-protocol';
+import {readRawDb} from '../sync-utils/read-db';
+import {VirtualDlpError} from '../virtual-device/virtual-dlp-session';
+import {VirtualPalmDevice} from '../virtual-device/virtual-palm-device';
+import {runVirtualSync} from './virtual-device-utils';
+
+/** Create a DLP 1.4 virtual device with a database containing a record larger
+ * than 64k. */
+function createDevice() {
+  const device = new VirtualPalmDevice();
+  device.dlpVersion = DlpVersionType.with({major: 1, minor: 4});
+  device.databases.push(
+    RawPdbDatabase.with({
+      header: DatabaseHdrType.with({
+        name: 'LargeDB',
+        type: 'DATA',
+        creator: 'test',
+      }),
+      records: [Buffer.from('small'), Buffer.alloc(100000, 0xab)].map(
+        (data, i) =>
+          RawPdbRecord.with({
+            entry: RecordEntryType.with({uniqueId: i + 1}),
+            data,
+          })
+      ),
+    })
+  );
+  return device;
+}
+
+describe('read-db', function () {
+  test('fall back to ReadRecordStream for large records', async function () {
+    const device = createDevice();
+    let numStreamRequests = 0;
+    await runVirtualSync(device, async (dlpConnection) => {
+      dlpConnection.use({
+        onRequest: (request) => {
+          if (request instanceof DlpReadRecordStreamReqType) {
+            ++numStreamRequests;
+          }
+        },
+      });
+      const db = await readRawDb(dlpConnection, 'LargeDB');
+      expect(db.records.map(({data}) => data)).toStrictEqual(
+        device.databases[0].records.map(({data}) => data)
+      );
+    });
+    expect(numStreamRequests).toBe(1);
+  });
+
+  test('rethrow other errors without falling back', async function () {
+    const device = createDevice();
+    device.setRequestHandler(DlpReadRecordByIndexReqType, () => {
+      throw new VirtualDlpError(DlpRespErrorCode.RECORD_BUSY);
+    });
+    let numStreamRequests = 0;
+    await runVirtualSync(device, async (dlpConnection) => {
+      dlpConnection.use({
+        onRequest: (request) => {
+          if (request instanceof DlpReadRecordStreamReqType) {
+            ++numStreamRequests;
+          }
+        },
+      });
+      const error = await readRawDb(dlpConnection, 'LargeDB').catch((e) => e);
+      expect(error).toBeInstanceOf(DlpResponseError);
+      expect(error.errorCode).toBe(DlpRespErrorCode.RECORD_BUSY);
+    });
+    expect(numStreamRequests).toBe(0);
+  });
+
+  test('keep original error if fallback fails', async function () {
+    const device = createDevice();
+    device.setRequestHandler(DlpReadRecordStreamReqType, () => {
+      throw new VirtualDlpError(DlpRespErrorCode.MEMORY);
+    });
+    await runVirtualSync(device, async (dlpConnection) => {
+      const error = await readRawDb(dlpConnection, 'LargeDB').catch((e) => e);
+      expect(error).toBeInstanceOf(DlpResponseError);
+      expect(error.errorCode).toBe(DlpRespErrorCode.MEMORY);
+      expect(error.cause).toBeInstanceOf(DlpResponseError);
+      expect(error.cause.errorCode).toBe(DlpRespErrorCode.LIMIT_EXCEEDED);
+    });
+  });
+});
@@ -3,7 +3,9 @@ import debug from 'debug';
 import fs from 'fs-extra';
 import path from 'path';
 import {RECORDED_SESSION_DIR, getSyncFn} from '../bin/record-sync-session';
+import {decodeDlpDataEvents} from '../protocols/dlp-command-registry';
 import {StreamRecorder} from '../protocols/stream-recorder';
+import {SyncConnection} from '../protocols/sync-connections';
 import {createSyncServer} from '../sync-servers/sync-server-utils';
 
 const log = debug('palm-sync').extend('test');
@@ -23,8 +25,21 @@ describe('recorded tests', function () {
       const recorder = await StreamRecorder.loadFromFile(
         path.join(RECORDED_SESSION_DIR, recordedSessionFile)
       );
-      const syncServer = createSyncServer(connectionType, syncFn);
+      const syncServer = createSyncServer(connectionType, syncFn, {
+        recordDlpData: true,
+      });
+      let connection: SyncConnection | null = null;
+      syncServer.on('connect', (c) => {
+        connection = c;
+      });
       await syncServer.onConnection(recorder.playback());
+
+      // All DLP traffic in the recorded session should be decodable.
+      const decodedDataEvents = decodeDlpDataEvents(
+        connection!.dlpConnection.recorder!
+      );
+      expect(decodedDataEvents.length).toBeGreaterThan(0);
+      expect(decodedDataEvents.filter(({error}) => error)).toStrictEqual([]);
     });
   }
 });
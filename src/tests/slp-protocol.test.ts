@@ -0,0 +1,86 @@
+import duplexify from 'duplexify';
+import pEvent from 'p-event';
+import {PassThrough} from 'stream';
+import {
+  createSlpDatagramStream,
+  SlpDatagram,
+  SlpDatagramHeader,
+  SlpDatagramType,
+  SlpMultiplexer,
+  SlpSocketId,
+} from '../protocols/slp-protocol';
+
+/** Create a pair of SLP multiplexers connected to each other. */
+function createSlpMultiplexerPair() {
+  const a = new PassThrough();
+  const b = new PassThrough();
+  return [
+    new SlpMultiplexer(createSlpDatagramStream(duplexify(a, b))),
+    new SlpMultiplexer(createSlpDatagramStream(duplexify(b, a))),
+  ] as const;
+}
+
+/** Create a serialized SLP datagram. */
+function createSlpDatagram(
+  type: SlpDatagramType,
+  socketId: SlpSocketId,
+  value: Buffer
+) {
+  const datagram = new SlpDatagram();
+  datagram.header = SlpDatagramHeader.with({
+    destSocketId: socketId,
+    srcSocketId: socketId,
+    type,
+    xid: 42,
+  });
+  datagram.value = value;
+  return datagram.serialize();
+}
+
+describe('SlpMultiplexer', function () {
+  test('route datagrams to handlers', async function () {
+    const [sender, receiver] = createSlpMultiplexerPair();
+    const consoleHandler = jest.fn();
+    const dlpHandler = jest.fn();
+    const unregisterConsoleHandler = receiver.addHandler(
+      {socketId: SlpSocketId.REMOTE_CONSOLE, type: SlpDatagramType.SYSTEM},
+      consoleHandler
+    );
+    receiver.addHandler({socketId: SlpSocketId.DLP}, dlpHandler);
+
+    const consoleDatagram = createSlpDatagram(
+      SlpDatagramType.SYSTEM,
+      SlpSocketId.REMOTE_CONSOLE,
+      Buffer.from('hello')
+    );
+    const receivePromise = pEvent(receiver.slpDatagramStream, 'data');
+    sender.write(consoleDatagram);
+    await receivePromise;
+    expect(consoleHandler).toHaveBeenCalledTimes(1);
+    expect(consoleHandler.mock.calls[0][0]).toStrictEqual(consoleDatagram);
+    expect(consoleHandler.mock.calls[0][1].type).toBe(SlpDatagramType.SYSTEM);
+    expect(dlpHandler).not.toHaveBeenCalled();
+
+    unregisterConsoleHandler();
+    const nextReceivePromise = pEvent(receiver.slpDatagramStream, 'data');
+    sender.write(consoleDatagram);
+    await nextReceivePromise;
+    expect(consoleHandler).toHaveBeenCalledTimes(1);
+  });
+
+  test('answer loopback datagrams', async function () {
+    const [sender, receiver] = createSlpMultiplexerPair();
+    receiver.addHandler({}, () => {});
+    const loopbackDatagram = createSlpDatagram(
+      SlpDatagramType.LOOPBACK,
+      SlpSocketId.DLP,
+      Buffer.from('ping')
+    );
+    const replyPromise = pEvent(sender.slpDatagramStream, 'data');
+    sender.write(loopbackDatagram);
+    const reply = SlpDatagram.from(await replyPromise);
+    expect(reply.header.type).toBe(SlpDatagramType.LOOPBACK);
+    expect(reply.header.xid).toBe(42);
+    expect(reply.value).toStrictEqual(Buffer.from('ping'));
+  });
+});
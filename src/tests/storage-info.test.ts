@@ -0,0 +1,135 @@
+import {
+  DatabaseHdrType,
+  RawPdbDatabase,
+  RawPdbRecord,
+  RecordEntryType,
+} from 'palm-pdb';
+import {
+  DlpCardInfoType,
+  DlpOpenDBReqType,
+  DlpReadStorageInfoReqType,
+} from '../protocols/dlp-commands';
+import {DlpRespErrorCode} from '../protocols/dlp-protocol';
+import {readDbStorageUsage, readStorageInfo} from '../sync-utils/storage-info';
+import {VirtualDlpError} from '../virtual-device/virtual-dlp-session';
+import {VirtualPalmDevice} from '../virtual-device/virtual-palm-device';
+import {runVirtualSync} from './virtual-device-utils';
+
+/** Create a virtual device that reports memory cards in pages of 2. */
+function createDeviceWithCards(
+  numCards: number,
+  /** Number of cards to report before returning NOT_FOUND. */
+  numAvailableCards = numCards
+) {
+  const device = new VirtualPalmDevice();
+  const startCardNos: Array<number> = [];
+  device.setRequestHandler(
+    DlpReadStorageInfoReqType,
+    ({startCardNo}, response) => {
+      startCardNos.push(startCardNo);
+      if (startCardNo >= numAvailableCards) {
+        throw new VirtualDlpError(DlpRespErrorCode.NOT_FOUND);
+      }
+      const lastCardNo = Math.min(startCardNo + 2, numAvailableCards) - 1;
+      for (let cardNo = startCardNo; cardNo <= lastCardNo; ++cardNo) {
+        response.cardInfo.push(
+          DlpCardInfoType.with({cardNo, cardName: `Card ${cardNo}`})
+        );
+      }
+      response.lastCardNo = lastCardNo;
+      response.more = lastCardNo < numCards - 1 ? 1 : 0;
+      response.romDBCount = 10;
+      response.ramDBCount = 20;
+    }
+  );
+  return {device, startCardNos};
+}
+
+/** Create a virtual device with databases of different sizes. */
+function createDeviceWithDbs() {
+  const device = new VirtualPalmDevice();
+  for (const [name, recordSize] of [
+    ['SmallDB', 10],
+    ['BusyDB', 1000],
+    ['LargeDB', 100],
+    ['LockedDB', 1000],
+  ] as const) {
+    device.databases.push(
+      RawPdbDatabase.with({
+        header: DatabaseHdrType.with({name, type: 'DATA', creator: 'test'}),
+        records: [1, 2].map((uniqueId) =>
+          RawPdbRecord.with({
+            entry: RecordEntryType.with({uniqueId}),
+            data: Buffer.alloc(recordSize),
+          })
+        ),
+      })
+    );
+  }
+  return device;
+}
+
+describe('storage-info', function () {
+  test('read storage info of a single card', async function () {
+    const device = new VirtualPalmDevice();
+    await runVirtualSync(device, async (dlpConnection) => {
+      const cards = await readStorageInfo(dlpConnection);
+      expect(cards).toHaveLength(1);
+      expect(cards[0].cardInfo.cardName).toBe(device.cardInfo.cardName);
+      expect(cards[0].cardInfo.freeRam).toBe(device.cardInfo.freeRam);
+    });
+  });
+
+  test('page through multiple cards', async function () {
+    const {device, startCardNos} = createDeviceWithCards(3);
+    await runVirtualSync(device, async (dlpConnection) => {
+      const cards = await readStorageInfo(dlpConnection);
+      expect(cards.map(({cardInfo}) => cardInfo.cardName)).toStrictEqual([
+        'Card 0',
+        'Card 1',
+        'Card 2',
+      ]);
+      expect(cards[2]).toMatchObject({romDbCount: 10, ramDbCount: 20});
+    });
+    expect(startCardNos).toStrictEqual([0, 2]);
+  });
+
+  test('stop paging on NOT_FOUND', async function () {
+    const {device, startCardNos} = createDeviceWithCards(4, 2);
+    await runVirtualSync(device, async (dlpConnection) => {
+      const cards = await readStorageInfo(dlpConnection);
+      expect(cards.map(({cardInfo}) => cardInfo.cardNo)).toStrictEqual([0, 1]);
+    });
+    expect(startCardNos).toStrictEqual([0, 2]);
+  });
+
+  test('read database storage usage', async function () {
+    const device = createDeviceWithDbs();
+    const openedDbNames: Array<string> = [];
+    device.setRequestHandler(DlpOpenDBReqType, (request, response, session) => {
+      switch (request.name) {
+        case 'BusyDB':
+          throw new VirtualDlpError(DlpRespErrorCode.DATABASE_OPEN);
+        case 'LockedDB':
+          throw new VirtualDlpError(DlpRespErrorCode.CANT_OPEN);
+      }
+      openedDbNames.push(request.name);
+      response.dbId = session.openDb(
+        device.findDb(request.name)!,
+        request.mode
+      );
+    });
+    await runVirtualSync(device, async (dlpConnection) => {
+      const usage = await readDbStorageUsage(dlpConnection);
+      expect(usage.map(({name}) => name)).toStrictEqual(['LargeDB', 'SmallDB']);
+      expect(usage[0]).toMatchObject({
+        type: 'DATA',
+        creator: 'test',
+        numRecords: 2,
+        dataBytes: 200,
+      });
+      expect(usage[0].totalBytes).toBeGreaterThan(usage[1].totalBytes);
+    });
+    expect(openedDbNames.sort()).toStrictEqual(['LargeDB', 'SmallDB']);
+  });
+});
@@ -0,0 +1,73 @@
+import {
+  DlpAlreadyExistsError,
+  DlpNotEnoughSpaceError,
+} from '../protocols/dlp-protocol';
+import {VfsClient} from '../sync-utils/vfs-client';
+import {run as runVfsTest} from './vfs-test';
+import {createDeviceWithCard, runVirtualSync} from './virtual-device-utils';
+
+/** Create a virtual device with a card containing some sample files. */
+function createDevice() {
+  const device = createDeviceWithCard();
+  const [volume] = device.volumes;
+  for (const path of ['/a', '/b', '/a/dir']) {
+    volume.entries.set(path, {data: null});
+  }
+  volume.entries.set('/a/file.bin', {data: Buffer.alloc(100 * 1024, 0xab)});
+  volume.entries.set('/b/other.bin', {data: Buffer.from('other')});
+  return device;
+}
+
+describe('VfsClient', function () {
+  for (const protocol of ['net', 'serial'] as const) {
+    describe(protocol, function () {
+      test('vfs-test', async function () {
+        const device = createDeviceWithCard();
+        await runVirtualSync(device, runVfsTest, protocol);
+        expect([...device.volumes[0].entries.keys()]).toStrictEqual([]);
+      });
+    });
+  }
+
+  test('move file to a different directory', async function () {
+    const device = createDevice();
+    const {entries} = device.volumes[0];
+    const data = entries.get('/a/file.bin')!.data;
+    await runVirtualSync(device, async (dlpConnection) => {
+      await new VfsClient(dlpConnection).move(1, '/a/file.bin', '/b/file.bin');
+    });
+    expect(entries.has('/a/file.bin')).toBe(false);
+    // Compare with Buffer.equals(), as deep equality is slow for large buffers.
+    expect(entries.get('/b/file.bin')!.data!.equals(data!)).toBe(true);
+  });
+
+  test('move rejects directories and existing destinations', async function () {
+    const device = createDevice();
+    const {entries} = device.volumes[0];
+    const entriesBefore = new Map(entries);
+    await runVirtualSync(device, async (dlpConnection) => {
+      const vfsClient = new VfsClient(dlpConnection);
+      await expect(vfsClient.move(1, '/a/dir', '/b/dir')).rejects.toThrow(
+        'Cannot move directory /a/dir to a different directory'
+      );
+      await expect(
+        vfsClient.move(1, '/b/other.bin', '/a/file.bin')
+      ).rejects.toThrow(DlpAlreadyExistsError);
+    });
+    expect(entries).toStrictEqual(entriesBefore);
+  });
+
+  test('move deletes partial copy on failure', async function () {
+    const device = createDevice();
+    const [volume] = device.volumes;
+    // Room for the first chunk of the copy, but not the whole file.
+    volume.totalSize = 150 * 1024;
+    const entriesBefore = new Map(volume.entries);
+    await runVirtualSync(device, async (dlpConnection) => {
+      await expect(
+        new VfsClient(dlpConnection).move(1, '/a/file.bin', '/b/file.bin')
+      ).rejects.toThrow(DlpNotEnoughSpaceError);
+    });
+    expect(volume.entries).toStrictEqual(entriesBefore);
+  });
+});
@@ -0,0 +1,35 @@
+import assert from 'assert';
+import {DlpConnection, VfsClient} from '..';
+
+const TEST_DIR = '/palm-sync-test';
+
+export async function run(dlpConnection: DlpConnection) {
+  const vfsClient = new VfsClient(dlpConnection);
+  const volumes = await vfsClient.getVolumes();
+  assert(volumes.length > 0);
+  const [{volRefNum}] = volumes;
+
+  await vfsClient.createDir(volRefNum, TEST_DIR, {recursive: true});
+  // Larger than a single transfer chunk.
+  const data = Buffer.alloc(100 * 1024);
+  for (let i = 0; i < data.length; ++i) {
+    data[i] = i % 251;
+  }
+  await vfsClient.writeFile(volRefNum, `${TEST_DIR}/a.bin`, data);
+  assert.strictEqual(
+    await vfsClient.getFileSize(volRefNum, `${TEST_DIR}/a.bin`),
+    data.length
+  );
+  await vfsClient.move(volRefNum, `${TEST_DIR}/a.bin`, `${TEST_DIR}/b.bin`);
+  const entries = await vfsClient.listDir(volRefNum, TEST_DIR);
+  assert.deepStrictEqual(
+    entries.map(({name}) => name),
+    ['b.bin']
+  );
+  assert(
+    (await vfsClient.readFile(volRefNum, `${TEST_DIR}/b.bin`)).equals(data)
+  );
+
+  await vfsClient.delete(volRefNum, `${TEST_DIR}/b.bin`);
+  await vfsClient.delete(volRefNum, TEST_DIR);
+}
@@ -0,0 +1,80 @@
+import duplexify from 'duplexify';
+import {PassThrough} from 'stream';
+import {NetworkSyncServer} from '../sync-servers/network-sync-server';
+import {SerialOverNetworkSyncServer} from '../sync-servers/serial-over-network-sync-server';
+import {DlpVersionType} from '../protocols/dlp-commands';
+import {SyncConnectionOptions} from '../protocols/sync-connections';
+import {SyncFn} from '../sync-servers/sync-server';
+import {
+  VirtualDeviceProtocol,
+  VirtualPalmDevice,
+} from '../virtual-device/virtual-palm-device';
+
+/** Create a pair of connected in-process streams. */
+export function createStreamPair() {
+  const a = new PassThrough();
+  const b = new PassThrough();
+  return [duplexify(a, b), duplexify(b, a)];
+}
+
+/** Create a DLP 1.4 virtual device with an empty expansion slot followed by a
+ * slot containing a mounted SD card. */
+export function createDeviceWithCard() {
+  const device = new VirtualPalmDevice();
+  device.dlpVersion = DlpVersionType.with({major: 1, minor: 4});
+  device.expansionSlots.push(
+    {slotRef: 1, mediaType: 'mmcd', card: null},
+    {
+      slotRef: 2,
+      mediaType: 'sdig',
+      card: {
+        manufacturer: 'SanDisk',
+        product: 'SD Card',
+        deviceClass: 'Storage',
+        deviceUniqueId: '1234',
+        readOnly: false,
+      },
+    }
+  );
+  device.volumes.push({
+    volRefNum: 1,
+    slotRefNum: 2,
+    label: 'CARD',
+    totalSize: 1024 * 1024,
+    entries: new Map(),
+  });
+  return device;
+}
+
+/** Run a HotSync session between a sync server and a virtual device.
+ *
+ * Errors thrown by syncFn (e.g. failed expectations) are rethrown once the
+ * session has ended, instead of only being logged by the sync server.
+ */
+export async function runVirtualSync(
+  device: VirtualPalmDevice,
+  syncFn: SyncFn,
+  protocol: VirtualDeviceProtocol = 'net',
+  opts: SyncConnectionOptions = {}
+) {
+  let syncError: unknown = null;
+  const wrappedSyncFn: SyncFn = async (dlpConnection) => {
+    try {
+      await syncFn(dlpConnection);
+    } catch (e) {
+      syncError = e;
+    }
+  };
+  const syncServer =
+    protocol === 'net'
+      ? new NetworkSyncServer(wrappedSyncFn, opts)
+      : new SerialOverNetworkSyncServer(wrappedSyncFn, opts);
+  const [serverStream, deviceStream] = createStreamPair();
+  await Promise.all([
+    syncServer.onConnection(serverStream),
+    device.runSession(deviceStream, protocol),
+  ]);
+  if (syncError) {
+    throw syncError;
+  }
+}
@@ -0,0 +1,153 @@
+import {
+  DatabaseAttrs,
+  DatabaseHdrType,
+  RawPdbDatabase,
+  RawPdbRecord,
+  RawPrcDatabase,
+  RecordAttrs,
+  RecordEntryType,
+} from 'palm-pdb';
+import {
+  DlpAddSyncLogEntryReqType,
+  DlpWriteUserInfoReqType,
+  DlpUserInfoModFlags,
+} from '../protocols/dlp-commands';
+import {
+  DlpNotEnoughSpaceError,
+  DlpNotFoundError,
+  DlpReadOnlyError,
+  DlpRespErrorCode,
+} from '../protocols/dlp-protocol';
+import {readDbList, readRawDb} from '../sync-utils/read-db';
+import {writeRawDb} from '../sync-utils/write-db';
+import {VirtualDlpError} from '../virtual-device/virtual-dlp-session';
+import {VirtualPalmDevice} from '../virtual-device/virtual-palm-device';
+import {runVirtualSync} from './virtual-device-utils';
+
+/** Create a virtual device with some sample databases. */
+function createDevice() {
+  const device = new VirtualPalmDevice();
+  device.userInfo.userName = 'Test User';
+  device.databases.push(
+    RawPdbDatabase.with({
+      header: DatabaseHdrType.with({
+        name: 'MemoDB',
+        type: 'DATA',
+        creator: 'memo',
+        attributes: DatabaseAttrs.with({backup: true}),
+      }),
+      records: [1, 2, 3].map((uniqueId) =>
+        RawPdbRecord.with({
+          entry: RecordEntryType.with({
+            uniqueId,
+            attributes: RecordAttrs.with({dirty: uniqueId === 2}),
+          }),
+          data: Buffer.from(`Memo ${uniqueId}\0`),
+        })
+      ),
+    }),
+    RawPrcDatabase.with({
+      header: DatabaseHdrType.with({
+        name: 'System',
+        type: 'rsrc',
+        creator: 'psys',
+        attributes: DatabaseAttrs.with({resDB: true, readOnly: true}),
+      }),
+    })
+  );
+  return device;
+}
+
+describe('VirtualPalmDevice', function () {
+  for (const protocol of ['net', 'serial'] as const) {
+    describe(protocol, function () {
+      test('read and write databases', async function () {
+        const device = createDevice();
+        const newDb = RawPdbDatabase.with({
+          header: DatabaseHdrType.with({
+            name: 'NewDB',
+            type: 'DATA',
+            creator: 'test',
+          }),
+          records: [
+            RawPdbRecord.with({
+              entry: RecordEntryType.with({uniqueId: 42}),
+              data: Buffer.from('hello'),
+            }),
+          ],
+        });
+        await runVirtualSync(
+          device,
+          async (dlpConnection) => {
+            expect(dlpConnection.userInfo.userName).toBe('Test User');
+
+            const dbInfoList = await readDbList(dlpConnection, {
+              ram: true,
+              rom: true,
+            });
+            expect(dbInfoList.map(({name}) => name).sort()).toStrictEqual([
+              'MemoDB',
+              'System',
+            ]);
+
+            const memoDb = await readRawDb(dlpConnection, 'MemoDB');
+            expect(memoDb.records.map(({data}) => data)).toStrictEqual(
+              device.databases[0].records.map(({data}) => data)
+            );
+
+            await writeRawDb(dlpConnection, newDb);
+
+            await dlpConnection.execute(
+              DlpWriteUserInfoReqType.with({
+                userId: 1234,
+                userName: 'Changed Name',
+                modFlags: DlpUserInfoModFlags.with({userId: true}),
+              })
+            );
+            await dlpConnection.execute(
+              DlpAddSyncLogEntryReqType.with({text: 'Hello'})
+            );
+          },
+          protocol
+        );
+
+        const writtenDb = device.findDb('NewDB');
+        expect(writtenDb).toBeInstanceOf(RawPdbDatabase);
+        expect(writtenDb!.records.map(({data}) => data)).toStrictEqual([
+          Buffer.from('hello'),
+        ]);
+        expect(device.userInfo.userId).toBe(1234);
+        // userName was not in modFlags.
+        expect(device.userInfo.userName).toBe('Test User');
+        expect(device.syncLog).toStrictEqual(['Hello']);
+      });
+
+      test('error responses', async function () {
+        const device = createDevice();
+        device.setRequestHandler(DlpAddSyncLogEntryReqType, () => {
+          throw new VirtualDlpError(DlpRespErrorCode.NOT_ENOUGH_SPACE);
+        });
+        await runVirtualSync(
+          device,
+          async (dlpConnection) => {
+            await expect(readRawDb(dlpConnection, 'NoSuchDB')).rejects.toThrow(
+              DlpNotFoundError
+            );
+            await expect(
+              writeRawDb(dlpConnection, device.databases[1] as RawPrcDatabase, {
+                overwrite: true,
+              })
+            ).rejects.toThrow(DlpReadOnlyError);
+            await expect(
+              dlpConnection.execute(
+                DlpAddSyncLogEntryReqType.with({text: 'Hello'})
+              )
+            ).rejects.toThrow(DlpNotEnoughSpaceError);
+          },
+          protocol
+        );
+        expect(device.syncLog).toStrictEqual([]);
+      });
+    });
+  }
+});
@@ -0,0 +1,1643 @@
+/** Handheld side of DLP for a {@link VirtualPalmDevice}.
+ *
+ * @module
+ */
+import debug from 'debug';
+import {
+  DatabaseHdrType,
+  DatabaseTimestamp,
+  RawPdbDatabase,
+  RawPdbRecord,
+  RawPrcDatabase,
+  RawPrcRecord,
+  RecordEntryType,
+  RsrcEntryType,
+  TypeId,
+} from 'palm-pdb';
+import {
+  DLP_MAX_NON_STREAM_ENTRY_SIZE,
+  DLP_VFS_ITERATOR_STOP,
+  DlpAddSyncLogEntryReqType,
+  DlpCardInfoType,
+  DlpCleanUpDatabaseReqType,
+  DlpCloseAllDBsReqType,
+  DlpCloseDBReqType,
+  DlpCreateDBReqType,
+  DlpDBInfoType,
+  DlpDbInfoMiscFlags,
+  DlpDeleteAllRecordsReqType,
+  DlpDeleteAllResourcesReqType,
+  DlpDeleteDBReqType,
+  DlpDeleteRecordByCategoryReqType,
+  DlpDeleteRecordReqType,
+  DlpDeleteResourceReqType,
+  DlpEndOfSyncReqType,
+  DlpExpCardCapabilityFlags,
+  DlpExpCardInfoReqType,
+  DlpExpCardPresentReqType,
+  DlpExpSlotEnumerateReqType,
+  DlpExpSlotMediaTypeReqType,
+  DlpFindDBByNameReqType,
+  DlpFindDBByOpenHandleReqType,
+  DlpFindDBByTypeCreatorReqType,
+  DlpFindDBOptFlags,
+  DlpFindDBRespType,
+  DlpGetSysDateTimeReqType,
+  DlpLoopBackTestReqType,
+  DlpMoveCategoryReqType,
+  DlpOpenConduitReqType,
+  DlpOpenDBMode,
+  DlpOpenDBReqType,
+  DlpReadAppBlockReqType,
+  DlpReadAppPreferenceReqType,
+  DlpReadDBListReqType,
+  DlpReadFeatureReqType,
+  DlpReadNetSyncInfoReqType,
+  DlpReadNextModifiedRecInCategoryReqType,
+  DlpReadNextModifiedRecReqType,
+  DlpReadNextRecInCategoryReqType,
+  DlpReadOpenDBInfoReqType,
+  DlpReadRecordByIDReqType,
+  DlpReadRecordByIndexReqType,
+  DlpReadRecordIDListReqType,
+  DlpReadRecordRespType,
+  DlpReadRecordStreamReqType,
+  DlpReadRecordStreamRespType,
+  DlpReadResourceByIndexReqType,
+  DlpReadResourceByTypeReqType,
+  DlpReadResourceRespType,
+  DlpReadResourceStreamReqType,
+  DlpReadResourceStreamRespType,
+  DlpReadSortBlockReqType,
+  DlpReadStorageInfoReqType,
+  DlpReadSysInfoReqType,
+  DlpReadUserInfoReqType,
+  DlpRecordAttrs,
+  DlpResetRecordIndexReqType,
+  DlpResetSyncFlagsReqType,
+  DlpResetSystemReqType,
+  DlpSetDBInfoReqType,
+  DlpSetSysDateTimeReqType,
+  DlpVFSDirCreateReqType,
+  DlpVFSDirEntryEnumerateReqType,
+  DlpVFSDirEntryType,
+  DlpVFSExportDatabaseToFileReqType,
+  DlpVFSFileAttrs,
+  DlpVFSFileCloseReqType,
+  DlpVFSFileCreateReqType,
+  DlpVFSFileDeleteReqType,
+  DlpVFSFileOpenReqType,
+  DlpVFSFileReadReqType,
+  DlpVFSFileRenameReqType,
+  DlpVFSFileResizeReqType,
+  DlpVFSFileSeekReqType,
+  DlpVFSFileSizeReqType,
+  DlpVFSFileWriteReqType,
+  DlpVFSFileWriteRespType,
+  DlpVFSGetDefaultDirReqType,
+  DlpVFSImportDatabaseFromFileReqType,
+  DlpVFSOpenMode,
+  DlpVFSSeekOrigin,
+  DlpVFSVolumeAttrs,
+  DlpVFSVolumeEnumerateReqType,
+  DlpVFSVolumeFormatReqType,
+  DlpVFSVolumeGetLabelReqType,
+  DlpVFSVolumeInfoReqType,
+  DlpVFSVolumeSetLabelReqType,
+  DlpVFSVolumeSizeReqType,
+  DlpWriteAppBlockReqType,
+  DlpWriteAppPreferenceReqType,
+  DlpWriteNetSyncInfoReqType,
+  DlpWriteRecordReqType,
+  DlpWriteRecordStreamReqType,
+  DlpWriteResourceReqType,
+  DlpWriteResourceStreamReqType,
+  DlpWriteSortBlockReqType,
+  DlpWriteUserInfoReqType,
+} from '../protocols/dlp-commands';
+import {SBuffer} from 'serio';
+import {parseDlpRequest} from '../protocols/dlp-command-registry';
+import {
+  DlpRequest,
+  DlpRespErrorCode,
+  DlpResponse,
+  DlpResponseType,
+  isUnsetDlpDateTime,
+} from '../protocols/dlp-protocol';
+import {
+  getVfsBaseName,
+  getVfsDirName,
+  joinVfsPath,
+} from '../sync-utils/vfs-client';
+import type {
+  VirtualPalmDevice,
+  VirtualVfsEntry,
+  VirtualVfsVolume,
+} from './virtual-palm-device';
+
+/** Handler for a DLP request on a virtual device.
+ *
+ * The handler should populate the provided response, or throw a
+ * {@link VirtualDlpError} to return an error response.
+ */
+export type VirtualDlpRequestHandler<
+  DlpRequestT extends DlpRequest<DlpResponse>,
+> = (
+  request: DlpRequestT,
+  response: DlpResponseType<DlpRequestT>,
+  session: VirtualDlpSession
+) => void;
+
+/** Error thrown by request handlers to return a DLP error response. */
+export class VirtualDlpError extends Error {
+  constructor(
+    /** Error code to return to the desktop. */
+    readonly errorCode: DlpRespErrorCode
+  ) {
+    super(`DLP error ${DlpRespErrorCode[errorCode]}`);
+    // Restore prototype chain, which is broken when extending Error in ES5.
+    Object.setPrototypeOf(this, new.target.prototype);
+    this.name = 'VirtualDlpError';
+  }
+}
+
+/** A database opened during a HotSync session. */
+export interface VirtualOpenDb {
+  /** The open database. */
+  db: RawPdbDatabase | RawPrcDatabase;
+  /** Mode the database was opened with. */
+  mode: DlpOpenDBMode;
+  /** Index of the next record to consider for ReadNextModifiedRec and
+   * ReadNextRecInCategory. */
+  nextRecordIndex: number;
+}
+
+/** A file or directory opened during a HotSync session. */
+export interface VirtualOpenFile {
+  /** Volume containing the file. */
+  volume: VirtualVfsVolume;
+  /** Full path of the file. */
+  path: string;
+  /** Mode the file was opened with. */
+  mode: DlpVFSOpenMode;
+  /** Current read / write position in the file. */
+  position: number;
+}
+
+/** Handler for raw data expected from the desktop. */
+interface VirtualRawDataReceiver {
+  /** Number of bytes expected. */
+  numBytes: number;
+  /** Type of the response to send once the data has been received. */
+  responseType: new () => DlpResponse;
+  /** Handler that processes the data and populates the response. */
+  handler: (data: Buffer, response: DlpResponse) => void;
+}
+
+/** Maximum number of databases returned by a single ReadDBList request. */
+const READ_DB_LIST_MAX_RESULTS = 16;
+
+/** Maximum number of entries returned by a single VFSDirEntryEnumerate
+ * request. */
+const VFS_DIR_ENTRY_ENUMERATE_MAX_RESULTS = 8;
+
+/** Root directory of a VFS volume. */
+const VFS_ROOT_DIR: VirtualVfsEntry = {data: null};
+
+/** Maximum record size reported by devices with DLP 1.4 and above. */
+const DLP_1_4_MAX_RECORD_SIZE = 0x00fffffe;
+
+/** State of a single HotSync session on a virtual device.
+ *
+ * Parses each DLP request from the desktop, applies it to the device's
+ * in-memory state, and produces the serialized response.
+ */
+export class VirtualDlpSession {
+  constructor(
+    /** The device this session belongs to. */
+    readonly device: VirtualPalmDevice
+  ) {}
+
+  /** Handle a serialized DLP request and return the serialized response. */
+  handleRequest(requestBuffer: Buffer): Buffer {
+    let request: DlpRequest<DlpResponse>;
+    try {
+      request = parseDlpRequest(requestBuffer);
+    } catch (e) {
+      this.log(
+        'Could not parse request: ' + (e instanceof Error ? e.message : `${e}`)
+      );
+      return serializeErrorResponse(
+        requestBuffer.readUInt8(0),
+        DlpRespErrorCode.ILLEGAL_REQ
+      );
+    }
+    this.log(`<<< ${request.constructor.name} ${JSON.stringify(request)}`);
+
+    const response = new request.responseType();
+    const requestType =
+      request.constructor as new () => DlpRequest<DlpResponse>;
+    const handler =
+      this.device.requestHandlers.get(requestType) ??
+      DEFAULT_REQUEST_HANDLERS.get(requestType);
+    try {
+      if (request.minDlpVersion > this.device.dlpVersion.toNumber()) {
+        throw new VirtualDlpError(DlpRespErrorCode.ILLEGAL_REQ);
+      }
+      if (!handler) {
+        throw new VirtualDlpError(DlpRespErrorCode.NOT_SUPPORTED);
+      }
+      handler(request, response, this);
+    } catch (e) {
+      if (!(e instanceof VirtualDlpError)) {
+        throw e;
+      }
+      response.errorCode = e.errorCode;
+      // No raw data is exchanged after an error response.
+      this.outgoingRawData = [];
+      this.rawDataReceiver = null;
+    }
+    this.log(`>>> ${response.constructor.name} ${JSON.stringify(response)}`);
+    return response.serialize();
+  }
+
+  /** Handle raw data sent by the desktop following a response, as requested
+   * via {@link expectRawData}, and return the serialized second response. */
+  handleRawData(data: Buffer): Buffer {
+    const {rawDataReceiver} = this;
+    if (!rawDataReceiver) {
+      throw new Error('Received unexpected raw data');
+    }
+    this.rawDataReceiver = null;
+    this.log(`<<< Raw data (${data.length} bytes)`);
+    const response = new rawDataReceiver.responseType();
+    try {
+      rawDataReceiver.handler(data, response);
+    } catch (e) {
+      if (!(e instanceof VirtualDlpError)) {
+        throw e;
+      }
+      response.errorCode = e.errorCode;
+    }
+    this.log(`>>> ${response.constructor.name} ${JSON.stringify(response)}`);
+    return response.serialize();
+  }
+
+  /** Expect the desktop to send raw data following the current response.
+   *
+   * Once numBytes of raw data have been received, the handler is invoked to
+   * populate a second response.
+   */
+  expectRawData<DlpResponseT extends DlpResponse>(
+    numBytes: number,
+    responseType: new () => DlpResponseT,
+    handler: (data: Buffer, response: DlpResponseT) => void
+  ) {
+    this.rawDataReceiver = {
+      numBytes,
+      responseType,
+      handler: handler as (data: Buffer, response: DlpResponse) => void,
+    };
+  }
+
+  /** Number of bytes of raw data expected from the desktop following the
+   * current response, or null if none. */
+  get expectedRawDataBytes() {
+    return this.rawDataReceiver?.numBytes ?? null;
+  }
+
+  /** Returns an open database by handle. */
+  getOpenDb(dbId: number): VirtualOpenDb {
+    const openDb = this.openDbs.get(dbId);
+    if (!openDb) {
+      throw new VirtualDlpError(
+        this.openDbs.size ? DlpRespErrorCode.PARAM : DlpRespErrorCode.NONE_OPEN
+      );
+    }
+    return openDb;
+  }
+
+  /** Open a database and return its handle. */
+  openDb(db: RawPdbDatabase | RawPrcDatabase, mode: DlpOpenDBMode) {
+    const dbId = this.nextDbId++;
+    this.openDbs.set(dbId, {db, mode, nextRecordIndex: 0});
+    return dbId;
+  }
+
+  /** Returns an open file or directory by reference number. */
+  getOpenFile(fileRef: number): VirtualOpenFile {
+    const openFile = this.openFiles.get(fileRef);
+    if (!openFile) {
+      throw new VirtualDlpError(DlpRespErrorCode.PARAM);
+    }
+    return openFile;
+  }
+
+  /** Open a file or directory on a VFS volume and return its reference
+   * number. */
+  openFile(volume: VirtualVfsVolume, path: string, mode: DlpVFSOpenMode) {
+    const fileRef = this.nextFileRef++;
+    this.openFiles.set(fileRef, {volume, path, mode, position: 0});
+    return fileRef;
+  }
+
+  /** Returns the local ID of a database, assigning one if necessary. */
+  getLocalId(db: RawPdbDatabase | RawPrcDatabase) {
+    let localId = this.localIds.get(db);
+    if (localId === undefined) {
+      localId = this.nextLocalId++;
+      this.localIds.set(db, localId);
+    }
+    return localId;
+  }
+
+  /** Find a database by local ID. */
+  findDbByLocalId(localId: number) {
+    return (
+      this.device.databases.find((db) => this.localIds.get(db) === localId) ??
+      null
+    );
+  }
+
+  /** Whether the desktop has ended the session with EndOfSync. */
+  isEnded = false;
+
+  /** Databases opened in this session, keyed by handle. */
+  readonly openDbs = new Map<number, VirtualOpenDb>();
+
+  /** Next database handle to assign. */
+  private nextDbId = 1;
+
+  /** Files and directories opened in this session, keyed by reference
+   * number. */
+  readonly openFiles = new Map<number, VirtualOpenFile>();
+
+  /** Next file reference number to assign. */
+  private nextFileRef = 1;
+
+  /** Local IDs assigned to databases in this session. */
+  private readonly localIds = new Map<
+    RawPdbDatabase | RawPrcDatabase,
+    number
+  >();
+
+  /** Next local ID to assign. */
+  private nextLocalId = 1;
+
+  /** Raw data to send to the desktop following the current response, e.g.
+   * file data for VFSFileRead. */
+  outgoingRawData: Array<Buffer> = [];
+
+  /** Handler for raw data expected from the desktop following the current
+   * response. */
+  private rawDataReceiver: VirtualRawDataReceiver | null = null;
+
+  /** Position of the current FindDBByTypeCreator search in the device's
+   * database list. */
+  findDbSearchIndex = 0;
+
+  private log = debug('palm-sync').extend('virtual-device');
+}
+
+/** Default request handlers, keyed by request class. */
+const DEFAULT_REQUEST_HANDLERS = new Map<
+  new () => DlpRequest<DlpResponse>,
+  VirtualDlpRequestHandler<DlpRequest<DlpResponse>>
+>();
+
+/** Register a default request handler. */
+function handle<DlpRequestT extends DlpRequest<DlpResponse>>(
+  requestType: new () => DlpRequestT,
+  handler: VirtualDlpRequestHandler<DlpRequestT>
+) {
+  DEFAULT_REQUEST_HANDLERS.set(
+    requestType,
+    handler as VirtualDlpRequestHandler<DlpRequest<DlpResponse>>
+  );
+}
+
+// =============================================================================
+// System and user info
+// =============================================================================
+handle(DlpReadSysInfoReqType, (request, response, {device}) => {
+  response.romSWVersion = device.romVersion;
+  response.localizationId = device.localizationId;
+  response.prodId = device.prodId;
+  response.dlpVer = device.dlpVersion;
+  response.compVer = device.dlpVersion;
+  response.maxRecSize =
+    device.dlpVersion.toNumber() >= 1.4 ? DLP_1_4_MAX_RECORD_SIZE : 0;
+});
+
+handle(DlpReadUserInfoReqType, (request, response, {device}) => {
+  Object.assign(response, device.userInfo);
+});
+
+handle(DlpWriteUserInfoReqType, (request, response, {device}) => {
+  const {modFlags} = request;
+  if (modFlags.userId) {
+    device.userInfo.userId = request.userId;
+  }
+  if (modFlags.viewerId) {
+    device.userInfo.viewerId = request.viewerId;
+  }
+  if (modFlags.lastSyncPc) {
+    device.userInfo.lastSyncPc = request.lastSyncPc;
+  }
+  if (modFlags.lastSyncDate) {
+    device.userInfo.lastSyncDate = request.lastSyncDate;
+    device.userInfo.succSyncDate = request.lastSyncDate;
+  }
+  if (modFlags.userName) {
+    device.userInfo.userName = request.userName;
+  }
+});
+
+handle(DlpGetSysDateTimeReqType, (request, response, {device}) => {
+  response.dateTime = device.getTime();
+});
+
+handle(DlpSetSysDateTimeReqType, (request, response, {device}) => {
+  device.setTime(request.dateTime);
+});
+
+handle(DlpReadStorageInfoReqType, (request, response, {device}) => {
+  if (request.startCardNo > 0) {
+    throw new VirtualDlpError(DlpRespErrorCode.NOT_FOUND);
+  }
+  response.cardInfo = [DlpCardInfoType.with(device.cardInfo)];
+  response.romDBCount = device.databases.filter(isRomDb).length;
+  response.ramDBCount = device.databases.length - response.romDBCount;
+});
+
+handle(DlpReadFeatureReqType, (request, response, {device}) => {
+  const feature = device.features.find(
+    ({creator, num}) => creator === request.ftrCreator && num === request.ftrNum
+  );
+  if (!feature) {
+    throw new VirtualDlpError(DlpRespErrorCode.NOT_FOUND);
+  }
+  response.feature = feature.value;
+});
+
+handle(DlpReadNetSyncInfoReqType, (request, response, {device}) => {
+  const {lanSyncOn, syncPcName, syncPcAddr, syncPcMask} = device.netSyncInfo;
+  Object.assign(response, {
+    lanSyncOn: lanSyncOn ? 1 : 0,
+    syncPcName,
+    syncPcAddr,
+    syncPcMask,
+  });
+});
+
+handle(DlpWriteNetSyncInfoReqType, (request, response, {device}) => {
+  const {modFlags} = request;
+  if (modFlags.lanSyncOn) {
+    device.netSyncInfo.lanSyncOn = !!request.lanSyncOn;
+  }
+  if (modFlags.syncPcName) {
+    device.netSyncInfo.syncPcName = request.syncPcName;
+  }
+  if (modFlags.syncPcAddr) {
+    device.netSyncInfo.syncPcAddr = request.syncPcAddr;
+  }
+  if (modFlags.syncPcMask) {
+    device.netSyncInfo.syncPcMask = request.syncPcMask;
+  }
+});
+
+handle(DlpReadAppPreferenceReqType, (request, response, {device}) => {
+  const pref = device.preferences.find(
+    ({creator, id, backedUp}) =>
+      creator === request.creator &&
+      id === request.id &&
+      backedUp === request.flags.backedUp
+  );
+  if (!pref) {
+    throw new VirtualDlpError(DlpRespErrorCode.NOT_FOUND);
+  }
+  response.version = pref.version;
+  response.actualSize = pref.data.length;
+  response.data = pref.data.subarray(0, request.reqBytes);
+});
+
+handle(DlpWriteAppPreferenceReqType, (request, response, {device}) => {
+  const {creator, id, version, data} = request;
+  const backedUp = request.flags.backedUp;
+  const pref = device.preferences.find(
+    (pref) =>
+      pref.creator === creator && pref.id === id && pref.backedUp === backedUp
+  );
+  if (pref) {
+    Object.assign(pref, {version, data});
+  } else {
+    device.preferences.push({creator, id, version, data, backedUp});
+  }
+});
+
+// =============================================================================
+// Session control
+// =============================================================================
+handle(DlpOpenConduitReqType, () => {});
+
+handle(DlpEndOfSyncReqType, (request, response, session) => {
+  session.openDbs.clear();
+  session.isEnded = true;
+});
+
+handle(DlpAddSyncLogEntryReqType, (request, response, {device}) => {
+  device.syncLog.push(request.text);
+});
+
+handle(DlpResetSystemReqType, (request, response, {device}) => {
+  device.resetRequested = true;
+});
+
+handle(DlpLoopBackTestReqType, (request, response) => {
+  response.data = request.data;
+});
+
+// =============================================================================
+// Database list and lifecycle
+// =============================================================================
+handle(DlpReadDBListReqType, (request, response, {device}) => {
+  const {srchFlags, cardNo, startIndex} = request;
+  const dbs =
+    cardNo === 0
+      ? device.databases.filter(
+          (db) =>
+            (srchFlags.rom && isRomDb(db)) || (srchFlags.ram && !isRomDb(db))
+        )
+      : [];
+  if (startIndex >= dbs.length) {
+    throw new VirtualDlpError(DlpRespErrorCode.NOT_FOUND);
+  }
+  const endIndex = Math.min(
+    dbs.length,
+    startIndex + (srchFlags.multiple ? READ_DB_LIST_MAX_RESULTS : 1)
+  );
+  response.dbInfo = dbs
+    .slice(startIndex, endIndex)
+    .map((db, i) => createDlpDBInfo(db, startIndex + i));
+  response.lastIndex = endIndex - 1;
+});
+
+handle(DlpOpenDBReqType, (request, response, session) => {
+  const db = findDb(session, request.cardNo, request.name);
+  if (request.mode.write && isRomDb(db)) {
+    throw new VirtualDlpError(DlpRespErrorCode.READ_ONLY);
+  }
+  response.dbId = session.openDb(db, request.mode);
+});
+
+handle(DlpCreateDBReqType, (request, response, session) => {
+  const {device} = session;
+  if (request.cardNo !== 0) {
+    throw new VirtualDlpError(DlpRespErrorCode.PARAM);
+  }
+  if (device.findDb(request.name)) {
+    throw new VirtualDlpError(DlpRespErrorCode.ALREADY_EXISTS);
+  }
+  const now = DatabaseTimestamp.of(device.getTime());
+  const header = DatabaseHdrType.with({
+    name: request.name,
+    attributes: request.dbFlags,
+    version: request.version,
+    creationDate: now,
+    modificationDate: now,
+    type: request.type,
+    creator: request.creator,
+  });
+  const db = request.dbFlags.resDB
+    ? RawPrcDatabase.with({header})
+    : RawPdbDatabase.with({header});
+  device.databases.push(db);
+  response.dbId = session.openDb(
+    db,
+    DlpOpenDBMode.with({read: true, write: true})
+  );
+});
+
+handle(DlpCloseDBReqType, (request, response, session) => {
+  session.getOpenDb(request.dbId);
+  session.openDbs.delete(request.dbId);
+});
+
+handle(DlpCloseAllDBsReqType, (request, response, session) => {
+  session.openDbs.clear();
+});
+
+handle(DlpDeleteDBReqType, (request, response, session) => {
+  const {device} = session;
+  const db = findDb(session, request.cardNo, request.name);
+  if (isRomDb(db)) {
+    throw new VirtualDlpError(DlpRespErrorCode.READ_ONLY);
+  }
+  if ([...session.openDbs.values()].some((openDb) => openDb.db === db)) {
+    throw new VirtualDlpError(DlpRespErrorCode.DATABASE_OPEN);
+  }
+  device.databases.splice(device.databases.indexOf(db), 1);
+});
+
+handle(DlpReadOpenDBInfoReqType, (request, response, session) => {
+  response.numRec = session.getOpenDb(request.dbId).db.records.length;
+});
+
+handle(DlpFindDBByNameReqType, (request, response, session) => {
+  const db = findDb(session, request.cardNo, request.name);
+  populateFindDbResp(session, db, request.optFlags, response);
+});
+
+handle(DlpFindDBByOpenHandleReqType, (request, response, session) => {
+  const {db} = session.getOpenDb(request.dbId);
+  populateFindDbResp(session, db, request.optFlags, response);
+});
+
+handle(DlpFindDBByTypeCreatorReqType, (request, response, session) => {
+  const {databases} = session.device;
+  if (request.srchFlags.newSearch) {
+    session.findDbSearchIndex = 0;
+  }
+  const isWildcard = (value: string) => !/[^\0]/.test(value);
+  for (; session.findDbSearchIndex < databases.length; ) {
+    const db = databases[session.findDbSearchIndex++];
+    if (
+      (isWildcard(request.type) || db.header.type === request.type) &&
+      (isWildcard(request.creator) || db.header.creator === request.creator)
+    ) {
+      populateFindDbResp(session, db, request.optFlags, response);
+      return;
+    }
+  }
+  throw new VirtualDlpError(DlpRespErrorCode.NOT_FOUND);
+});
+
+handle(DlpSetDBInfoReqType, (request, response, session) => {
+  const {db} = getWritableDb(session, request.dbId);
+  const {header} = db;
+  for (const flag of [
+    'appInfoDirty',
+    'backup',
+    'okToInstallNewer',
+    'resetAfterInstall',
+    'copyPrevention',
+    'hidden',
+  ] as const) {
+    if (request.clrDbFlags[flag]) {
+      header.attributes[flag] = false;
+    }
+    if (request.setDbFlags[flag]) {
+      header.attributes[flag] = true;
+    }
+  }
+  if (request.dbVersion !== 0xffff) {
+    header.version = request.dbVersion;
+  }
+  for (const [date, timestamp] of [
+    [request.crDate, header.creationDate],
+    [request.modDate, header.modificationDate],
+    [request.bckUpDate, header.lastBackupDate],
+  ] as const) {
+    if (!isUnsetDlpDateTime(date)) {
+      timestamp.value = date;
+    }
+  }
+  if (/[^\0]/.test(request.type)) {
+    header.type = request.type;
+  }
+  if (/[^\0]/.test(request.creator)) {
+    header.creator = request.creator;
+  }
+  if (request.name) {
+    header.name = request.name;
+  }
+});
+
+// =============================================================================
+// AppInfo and SortInfo blocks
+// =============================================================================
+handle(DlpReadAppBlockReqType, (request, response, session) => {
+  const {db} = session.getOpenDb(request.dbId);
+  const data = db.appInfo?.value;
+  if (!data || !data.length) {
+    throw new VirtualDlpError(DlpRespErrorCode.NOT_FOUND);
+  }
+  response.blockSize = data.length;
+  response.data = sliceData(data, request.offset, request.numBytes);
+});
+
+handle(DlpWriteAppBlockReqType, (request, response, session) => {
+  const openDb = getWritableDb(session, request.dbId);
+  openDb.db.appInfo = request.data.length ? SBuffer.of(request.data) : null;
+  markModified(session, openDb.db);
+});
+
+handle(DlpReadSortBlockReqType, (request, response, session) => {
+  const {db} = session.getOpenDb(request.dbId);
+  const data = db.sortInfo?.value;
+  if (!data || !data.length) {
+    throw new VirtualDlpError(DlpRespErrorCode.NOT_FOUND);
+  }
+  response.blockSize = data.length;
+  response.data = sliceData(data, request.offset, request.numBytes);
+});
+
+handle(DlpWriteSortBlockReqType, (request, response, session) => {
+  const openDb = getWritableDb(session, request.dbId);
+  openDb.db.sortInfo = request.data.length ? SBuffer.of(request.data) : null;
+  markModified(session, openDb.db);
+});
+
+// =============================================================================
+// Records
+// =============================================================================
+handle(DlpReadNextModifiedRecReqType, (request, response, session) => {
+  readNextRecord(
+    session,
+    request.dbId,
+    ({entry: {attributes}}) => attributes.dirty || attributes.delete,
+    response
+  );
+});
+
+handle(
+  DlpReadNextModifiedRecInCategoryReqType,
+  (request, response, session) => {
+    readNextRecord(
+      session,
+      request.dbId,
+      (record) =>
+        record.entry.attributes.dirty &&
+        getDlpRecordAttrs(record).category === request.category,
+      response
+    );
+  }
+);
+
+handle(DlpReadNextRecInCategoryReqType, (request, response, session) => {
+  readNextRecord(
+    session,
+    request.dbId,
+    (record) => getDlpRecordAttrs(record).category === request.category,
+    response
+  );
+});
+
+handle(DlpResetRecordIndexReqType, (request, response, session) => {
+  session.getOpenDb(request.dbId).nextRecordIndex = 0;
+});
+
+handle(DlpReadRecordByIDReqType, (request, response, session) => {
+  const db = getRecordDb(session, request.dbId);
+  const index = db.records.findIndex(
+    ({entry}) => entry.uniqueId === request.recordId
+  );
+  if (index < 0) {
+    throw new VirtualDlpError(DlpRespErrorCode.NOT_FOUND);
+  }
+  populateReadRecordResp(db, index, request, response);
+});
+
+handle(DlpReadRecordByIndexReqType, (request, response, session) => {
+  const db = getRecordDb(session, request.dbId);
+  populateReadRecordResp(db, request.index, request, response);
+});
+
+handle(DlpReadRecordStreamReqType, (request, response, session) => {
+  const db = getRecordDb(session, request.dbId);
+  populateReadRecordResp(db, request.index, request, response);
+});
+
+handle(DlpReadRecordIDListReqType, (request, response, session) => {
+  const db = getRecordDb(session, request.dbId);
+  response.recordIds = db.records
+    .slice(request.startIndex, request.startIndex + request.maxNumRecords)
+    .map(({entry}) => entry.uniqueId);
+});
+
+handle(DlpWriteRecordReqType, (request, response, session) => {
+  response.recordId = writeRecord(session, request);
+});
+
+handle(DlpWriteRecordStreamReqType, (request, response, session) => {
+  response.recordId = writeRecord(session, request);
+});
+
+handle(DlpDeleteRecordReqType, (request, response, session) => {
+  const db = getWritableRecordDb(session, request.dbId);
+  const index = db.records.findIndex(
+    ({entry}) => entry.uniqueId === request.recordId
+  );
+  if (index < 0) {
+    throw new VirtualDlpError(DlpRespErrorCode.NOT_FOUND);
+  }
+  db.records.splice(index, 1);
+  markModified(session, db);
+});
+
+handle(DlpDeleteAllRecordsReqType, (request, response, session) => {
+  const db = getWritableRecordDb(session, request.dbId);
+  db.records = [];
+  markModified(session, db);
+});
+
+handle(DlpDeleteRecordByCategoryReqType, (request, response, session) => {
+  const db = getWritableRecordDb(session, request.dbId);
+  db.records = db.records.filter(
+    (record) =>
+      isDeletedOrBusy(record) ||
+      getDlpRecordAttrs(record).category !== request.category
+  );
+  markModified(session, db);
+});
+
+handle(DlpCleanUpDatabaseReqType, (request, response, session) => {
+  const db = getWritableRecordDb(session, request.dbId);
+  db.records = db.records.filter(
+    ({entry: {attributes}}) => !(attributes.delete || attributes.archive)
+  );
+  markModified(session, db);
+});
+
+handle(DlpResetSyncFlagsReqType, (request, response, session) => {
+  const {db} = getWritableDb(session, request.dbId);
+  if (db instanceof RawPdbDatabase) {
+    for (const {entry} of db.records) {
+      entry.attributes.dirty = false;
+    }
+  }
+  db.header.lastBackupDate.value = session.device.getTime();
+});
+
+handle(DlpMoveCategoryReqType, (request, response, session) => {
+  const db = getWritableRecordDb(session, request.dbId);
+  for (const record of db.records) {
+    if (
+      !isDeletedOrBusy(record) &&
+      record.entry.attributes.category === request.fromCategory
+    ) {
+      record.entry.attributes.category = request.toCategory;
+    }
+  }
+  markModified(session, db);
+});
+
+// =============================================================================
+// Resources
+// =============================================================================
+handle(DlpReadResourceByIndexReqType, (request, response, session) => {
+  const db = getResourceDb(session, request.dbId);
+  populateReadResourceResp(db, request.index, request, response);
+});
+
+handle(DlpReadResourceStreamReqType, (request, response, session) => {
+  const db = getResourceDb(session, request.dbId);
+  populateReadResourceResp(db, request.index, request, response);
+});
+
+handle(DlpReadResourceByTypeReqType, (request, response, session) => {
+  const db = getResourceDb(session, request.dbId);
+  const type = typeIdFromUInt32(request.type);
+  const index = db.records.findIndex(
+    ({entry}) => entry.type === type && entry.resourceId === request.id
+  );
+  if (index < 0) {
+    throw new VirtualDlpError(DlpRespErrorCode.NOT_FOUND);
+  }
+  populateReadResourceResp(db, index, request, response);
+});
+
+handle(DlpWriteResourceReqType, (request, response, session) => {
+  writeResource(session, request);
+});
+
+handle(DlpWriteResourceStreamReqType, (request, response, session) => {
+  writeResource(session, request);
+});
+
+handle(DlpDeleteResourceReqType, (request, response, session) => {
+  const db = getWritableResourceDb(session, request.dbId);
+  const type = typeIdFromUInt32(request.type);
+  const index = db.records.findIndex(
+    ({entry}) => entry.type === type && entry.resourceId === request.id
+  );
+  if (index < 0) {
+    throw new VirtualDlpError(DlpRespErrorCode.NOT_FOUND);
+  }
+  db.records.splice(index, 1);
+  markModified(session, db);
+});
+
+handle(DlpDeleteAllResourcesReqType, (request, response, session) => {
+  const db = getWritableResourceDb(session, request.dbId);
+  db.records = [];
+  markModified(session, db);
+});
+
+// =============================================================================
+// Expansion slots
+// =============================================================================
+handle(DlpExpSlotEnumerateReqType, (request, response, {device}) => {
+  response.slotRefs = device.expansionSlots.map(({slotRef}) => slotRef);
+});
+
+handle(DlpExpCardPresentReqType, (request, response, session) => {
+  getExpansionCard(session, request.slotRef);
+});
+
+handle(DlpExpCardInfoReqType, (request, response, session) => {
+  const card = getExpansionCard(session, request.slotRef);
+  response.capabilityFlags = DlpExpCardCapabilityFlags.with({
+    hasStorage: true,
+    readOnly: card.readOnly,
+  });
+  response.manufacturer = card.manufacturer;
+  response.product = card.product;
+  response.deviceClass = card.deviceClass;
+  response.deviceUniqueId = card.deviceUniqueId;
+});
+
+handle(DlpExpSlotMediaTypeReqType, (request, response, session) => {
+  response.mediaType = getExpansionSlot(session, request.slotRef).mediaType;
+});
+
+// =============================================================================
+// VFS volumes
+// =============================================================================
+handle(DlpVFSVolumeEnumerateReqType, (request, response, {device}) => {
+  if (device.volumes.length === 0) {
+    throw new VirtualDlpError(DlpRespErrorCode.NOT_FOUND);
+  }
+  response.volRefNums = device.volumes.map(({volRefNum}) => volRefNum);
+});
+
+handle(DlpVFSVolumeInfoReqType, (request, response, session) => {
+  const volume = getVolume(session, request.volRefNum);
+  const slot = session.device.expansionSlots.find(
+    ({slotRef}) => slotRef === volume.slotRefNum
+  );
+  response.attributes = DlpVFSVolumeAttrs.with({
+    slotBased: true,
+    readOnly: !!slot?.card?.readOnly,
+  });
+  response.fsType = 'vfat';
+  response.fsCreator = 'fatf';
+  response.mountClass = 'libs';
+  response.slotRefNum = volume.slotRefNum;
+  response.mediaType = slot?.mediaType ?? '\0\0\0\0';
+});
+
+handle(DlpVFSVolumeGetLabelReqType, (request, response, session) => {
+  response.label = getVolume(session, request.volRefNum).label;
+});
+
+handle(DlpVFSVolumeSetLabelReqType, (request, response, session) => {
+  getWritableVolume(session, request.volRefNum).label = request.label;
+});
+
+handle(DlpVFSVolumeSizeReqType, (request, response, session) => {
+  const volume = getVolume(session, request.volRefNum);
+  response.volumeSizeUsed = getVolumeSizeUsed(volume);
+  response.volumeSizeTotal = volume.totalSize;
+});
+
+handle(DlpVFSVolumeFormatReqType, (request, response, session) => {
+  const volume = getWritableVolume(session, request.volRefNum);
+  if (
+    [...session.openFiles.values()].some(
+      (openFile) => openFile.volume === volume
+    )
+  ) {
+    throw new VirtualDlpError(DlpRespErrorCode.DATABASE_OPEN);
+  }
+  volume.entries.clear();
+});
+
+handle(DlpVFSGetDefaultDirReqType, (request, response, session) => {
+  getVolume(session, request.volRefNum);
+  if (!['.pdb', '.prc', '.pqa'].includes(request.fileType.toLowerCase())) {
+    throw new VirtualDlpError(DlpRespErrorCode.NOT_FOUND);
+  }
+  response.path = '/PALM/Launcher/';
+});
+
+// =============================================================================
+// VFS files and directories
+// =============================================================================
+handle(DlpVFSFileOpenReqType, (request, response, session) => {
+  const {openMode} = request;
+  const volume = openMode.write
+    ? getWritableVolume(session, request.volRefNum)
+    : getVolume(session, request.volRefNum);
+  const path = normalizeVfsPath(request.path);
+  if (
+    [...session.openFiles.values()].some(
+      (openFile) =>
+        openFile.volume === volume &&
+        openFile.path === path &&
+        (openMode.exclusive || openFile.mode.exclusive)
+    )
+  ) {
+    throw new VirtualDlpError(DlpRespErrorCode.CANT_OPEN);
+  }
+  const entry =
+    findVfsEntry(volume, path) ??
+    (openMode.create ? createVfsEntry(volume, path, Buffer.alloc(0)) : null);
+  if (!entry) {
+    throw new VirtualDlpError(DlpRespErrorCode.NOT_FOUND);
+  }
+  if (openMode.truncate && entry.data) {
+    entry.data = Buffer.alloc(0);
+  }
+  response.fileRef = session.openFile(volume, path, openMode);
+});
+
+handle(DlpVFSFileCloseReqType, (request, response, session) => {
+  session.getOpenFile(request.fileRef);
+  session.openFiles.delete(request.fileRef);
+});
+
+handle(DlpVFSFileCreateReqType, (request, response, session) => {
+  const volume = getWritableVolume(session, request.volRefNum);
+  createVfsEntry(volume, normalizeVfsPath(request.path), Buffer.alloc(0));
+});
+
+handle(DlpVFSDirCreateReqType, (request, response, session) => {
+  const volume = getWritableVolume(session, request.volRefNum);
+  createVfsEntry(volume, normalizeVfsPath(request.path), null);
+});
+
+handle(DlpVFSFileDeleteReqType, (request, response, session) => {
+  const volume = getWritableVolume(session, request.volRefNum);
+  const path = normalizeVfsPath(request.path);
+  getVfsEntry(volume, path);
+  if (listVfsDir(volume, path).length > 0) {
+    throw new VirtualDlpError(DlpRespErrorCode.PARAM);
+  }
+  if (
+    [...session.openFiles.values()].some(
+      (openFile) => openFile.volume === volume && openFile.path === path
+    )
+  ) {
+    throw new VirtualDlpError(DlpRespErrorCode.DATABASE_OPEN);
+  }
+  volume.entries.delete(path);
+});
+
+handle(DlpVFSFileRenameReqType, (request, response, session) => {
+  const volume = getWritableVolume(session, request.volRefNum);
+  const path = normalizeVfsPath(request.path);
+  const entry = getVfsEntry(volume, path);
+  if (!request.newName || request.newName.includes('/')) {
+    throw new VirtualDlpError(DlpRespErrorCode.PARAM);
+  }
+  const newPath = joinVfsPath(getVfsDirName(path), request.newName);
+  if (findVfsEntry(volume, newPath)) {
+    throw new VirtualDlpError(DlpRespErrorCode.ALREADY_EXISTS);
+  }
+  // Move the entry along with everything under it.
+  for (const [entryPath, descendant] of [...volume.entries]) {
+    if (entryPath.startsWith(`${path}/`)) {
+      volume.entries.delete(entryPath);
+      volume.entries.set(
+        newPath + entryPath.substring(path.length),
+        descendant
+      );
+    }
+  }
+  volume.entries.delete(path);
+  volume.entries.set(newPath, entry);
+});
+
+handle(DlpVFSDirEntryEnumerateReqType, (request, response, session) => {
+  const {volume, path} = session.getOpenFile(request.dirRef);
+  if (getVfsEntry(volume, path).data) {
+    throw new VirtualDlpError(DlpRespErrorCode.PARAM);
+  }
+  const entryPaths = listVfsDir(volume, path);
+  // Iterators are indices into the directory's entries, starting from
+  // DLP_VFS_ITERATOR_START (0).
+  const startIndex = request.dirIterator;
+  const endIndex = Math.min(
+    entryPaths.length,
+    startIndex + VFS_DIR_ENTRY_ENUMERATE_MAX_RESULTS
+  );
+  response.entries = entryPaths.slice(startIndex, endIndex).map((entryPath) =>
+    DlpVFSDirEntryType.with({
+      name: getVfsBaseName(entryPath),
+      attributes: DlpVFSFileAttrs.with({
+        directory: !getVfsEntry(volume, entryPath).data,
+      }),
+    })
+  );
+  response.dirIterator =
+    endIndex < entryPaths.length ? endIndex : DLP_VFS_ITERATOR_STOP;
+});
+
+handle(DlpVFSFileReadReqType, (request, response, session) => {
+  const {openFile, data} = getOpenFileData(session, request.fileRef);
+  const chunk = data.subarray(
+    openFile.position,
+    openFile.position + request.numBytes
+  );
+  openFile.position += chunk.length;
+  response.numBytes = chunk.length;
+  if (chunk.length > 0) {
+    session.outgoingRawData.push(chunk);
+  }
+});
+
+handle(DlpVFSFileWriteReqType, (request, response, session) => {
+  const {openFile} = getOpenFileData(session, request.fileRef);
+  if (!openFile.mode.write) {
+    throw new VirtualDlpError(DlpRespErrorCode.READ_ONLY);
+  }
+  session.expectRawData(
+    request.numBytes,
+    DlpVFSFileWriteRespType,
+    (chunk, writeResponse) => {
+      const {entry, data} = getOpenFileData(session, request.fileRef);
+      const endPosition = openFile.position + chunk.length;
+      const newData = Buffer.concat([
+        data.subarray(0, openFile.position),
+        chunk,
+        data.subarray(endPosition),
+      ]);
+      const {volume} = openFile;
+      if (
+        getVolumeSizeUsed(volume) - data.length + newData.length >
+        volume.totalSize
+      ) {
+        throw new VirtualDlpError(DlpRespErrorCode.NOT_ENOUGH_SPACE);
+      }
+      entry.data = newData;
+      openFile.position = endPosition;
+      writeResponse.numBytes = chunk.length;
+    }
+  );
+});
+
+handle(DlpVFSFileSeekReqType, (request, response, session) => {
+  const {openFile, data} = getOpenFileData(session, request.fileRef);
+  const basePosition = {
+    [DlpVFSSeekOrigin.BEGINNING]: 0,
+    [DlpVFSSeekOrigin.CURRENT]: openFile.position,
+    [DlpVFSSeekOrigin.END]: data.length,
+  }[request.origin];
+  if (basePosition === undefined) {
+    throw new VirtualDlpError(DlpRespErrorCode.PARAM);
+  }
+  const position = basePosition + request.offset;
+  if (position < 0 || position > data.length) {
+    throw new VirtualDlpError(DlpRespErrorCode.PARAM);
+  }
+  openFile.position = position;
+});
+
+handle(DlpVFSFileSizeReqType, (request, response, session) => {
+  response.fileSize = getOpenFileData(session, request.fileRef).data.length;
+});
+
+handle(DlpVFSFileResizeReqType, (request, response, session) => {
+  const {openFile, entry, data} = getOpenFileData(session, request.fileRef);
+  if (!openFile.mode.write) {
+    throw new VirtualDlpError(DlpRespErrorCode.READ_ONLY);
+  }
+  entry.data =
+    request.newSize <= data.length
+      ? data.subarray(0, request.newSize)
+      : Buffer.concat([data, Buffer.alloc(request.newSize - data.length)]);
+  openFile.position = Math.min(openFile.position, request.newSize);
+});
+
+handle(DlpVFSImportDatabaseFromFileReqType, (request, response, session) => {
+  const {device} = session;
+  const volume = getVolume(session, request.volRefNum);
+  const data = getVfsEntry(volume, normalizeVfsPath(request.path)).data;
+  if (!data) {
+    throw new VirtualDlpError(DlpRespErrorCode.PARAM);
+  }
+  let db: RawPdbDatabase | RawPrcDatabase;
+  try {
+    db = DatabaseHdrType.from(data).attributes.resDB
+      ? RawPrcDatabase.from(data)
+      : RawPdbDatabase.from(data);
+  } catch (e) {
+    throw new VirtualDlpError(DlpRespErrorCode.PARAM);
+  }
+  if (device.findDb(db.header.name)) {
+    throw new VirtualDlpError(DlpRespErrorCode.ALREADY_EXISTS);
+  }
+  device.databases.push(db);
+  response.cardNo = 0;
+  response.localId = session.getLocalId(db);
+});
+
+handle(DlpVFSExportDatabaseToFileReqType, (request, response, session) => {
+  const volume = getWritableVolume(session, request.volRefNum);
+  const db =
+    request.cardNo === 0 ? session.findDbByLocalId(request.localId) : null;
+  if (!db) {
+    throw new VirtualDlpError(DlpRespErrorCode.NOT_FOUND);
+  }
+  createVfsEntry(volume, normalizeVfsPath(request.path), db.serialize());
+});
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/** Whether a database resides in ROM. */
+function isRomDb(db: RawPdbDatabase | RawPrcDatabase) {
+  return db.header.attributes.readOnly;
+}
+
+/** Find a database by card number and name. */
+function findDb(session: VirtualDlpSession, cardNo: number, name: string) {
+  const db = cardNo === 0 ? session.device.findDb(name) : null;
+  if (!db) {
+    throw new VirtualDlpError(DlpRespErrorCode.NOT_FOUND);
+  }
+  return db;
+}
+
+/** Returns an open database that was opened for writing. */
+function getWritableDb(session: VirtualDlpSession, dbId: number) {
+  const openDb = session.getOpenDb(dbId);
+  if (!openDb.mode.write || isRomDb(openDb.db)) {
+    throw new VirtualDlpError(DlpRespErrorCode.READ_ONLY);
+  }
+  return openDb;
+}
+
+/** Returns an open record database. */
+function getRecordDb(session: VirtualDlpSession, dbId: number) {
+  const {db} = session.getOpenDb(dbId);
+  if (!(db instanceof RawPdbDatabase)) {
+    throw new VirtualDlpError(DlpRespErrorCode.NOT_SUPPORTED);
+  }
+  return db;
+}
+
+/** Returns an open record database that was opened for writing. */
+function getWritableRecordDb(session: VirtualDlpSession, dbId: number) {
+  getWritableDb(session, dbId);
+  return getRecordDb(session, dbId);
+}
+
+/** Returns an open resource database. */
+function getResourceDb(session: VirtualDlpSession, dbId: number) {
+  const {db} = session.getOpenDb(dbId);
+  if (!(db instanceof RawPrcDatabase)) {
+    throw new VirtualDlpError(DlpRespErrorCode.NOT_SUPPORTED);
+  }
+  return db;
+}
+
+/** Returns an open resource database that was opened for writing. */
+function getWritableResourceDb(session: VirtualDlpSession, dbId: number) {
+  getWritableDb(session, dbId);
+  return getResourceDb(session, dbId);
+}
+
+/** Update the modification number and date of a database. */
+function markModified(
+  session: VirtualDlpSession,
+  db: RawPdbDatabase | RawPrcDatabase
+) {
+  ++db.header.modificationNumber;
+  db.header.modificationDate.value = session.device.getTime();
+}
+
+/** Returns a slice of data, as specified by offset and numBytes in a read
+ * request. */
+function sliceData(data: Buffer, offset: number, numBytes: number) {
+  return data.subarray(offset, offset + numBytes);
+}
+
+/** Returns a record's attributes and category in DLP format. */
+function getDlpRecordAttrs(record: RawPdbRecord) {
+  return DlpRecordAttrs.fromRecordAttrs(record.entry.attributes);
+}
+
+/** Whether a record is deleted or busy, in which case it has no category. */
+function isDeletedOrBusy({entry: {attributes}}: RawPdbRecord) {
+  return attributes.delete || attributes.busy;
+}
+
+/** Convert a resource type sent as a 32-bit integer to a 4-character
+ * string. */
+function typeIdFromUInt32(value: number) {
+  const buffer = Buffer.alloc(4);
+  buffer.writeUInt32BE(value);
+  return TypeId.from(buffer).value;
+}
+
+/** Construct DlpDBInfoType for a database. */
+function createDlpDBInfo(db: RawPdbDatabase | RawPrcDatabase, dbIndex: number) {
+  const {header} = db;
+  return DlpDBInfoType.with({
+    miscFlags: DlpDbInfoMiscFlags.with({ramBased: !isRomDb(db)}),
+    dbFlags: header.attributes,
+    type: header.type,
+    creator: header.creator,
+    version: header.version,
+    modNum: header.modificationNumber,
+    crDate: header.creationDate.value,
+    modDate: header.modificationDate.value,
+    backupDate: header.lastBackupDate.value,
+    dbIndex,
+    name: header.name,
+  });
+}
+
+/** Populate a FindDB response for a database. */
+function populateFindDbResp(
+  session: VirtualDlpSession,
+  db: RawPdbDatabase | RawPrcDatabase,
+  optFlags: DlpFindDBOptFlags,
+  response: DlpFindDBRespType
+) {
+  const {databases} = session.device;
+  if (optFlags.getAttributes) {
+    response.localId = session.getLocalId(db);
+    const dbIndex = databases
+      .filter((otherDb) => isRomDb(otherDb) === isRomDb(db))
+      .indexOf(db);
+    response.info = createDlpDBInfo(db, dbIndex);
+    response.openRef =
+      [...session.openDbs.entries()].find(
+        ([, openDb]) => openDb.db === db
+      )?.[0] ?? 0;
+  }
+  if (optFlags.getSize) {
+    const recordSizes = db.records.map(({data}) => data.length);
+    response.numRecords = db.records.length;
+    response.totalBytes = db.serialize().length;
+    response.dataBytes = recordSizes.reduce((a, b) => a + b, 0);
+    response.appBlkSize = db.appInfo?.value.length ?? 0;
+    response.sortBlkSize = db.sortInfo?.value.length ?? 0;
+  }
+  if (optFlags.getMaxRecSize) {
+    response.maxRecSize = Math.max(
+      0,
+      ...db.records.map(({data}) => data.length)
+    );
+  }
+}
+
+/** Populate a ReadRecord or ReadRecordStream response. */
+function populateReadRecordResp(
+  db: RawPdbDatabase,
+  index: number,
+  request: {offset: number; numBytes: number},
+  response: DlpReadRecordRespType | DlpReadRecordStreamRespType
+) {
+  const record = db.records[index];
+  if (!record) {
+    throw new VirtualDlpError(DlpRespErrorCode.NOT_FOUND);
+  }
+  if (
+    response instanceof DlpReadRecordRespType &&
+    record.data.length > DLP_MAX_NON_STREAM_ENTRY_SIZE
+  ) {
+    throw new VirtualDlpError(DlpRespErrorCode.LIMIT_EXCEEDED);
+  }
+  const {attributes, category} = getDlpRecordAttrs(record);
+  response.recordId = record.entry.uniqueId;
+  response.index = index;
+  response.recSize = record.data.length;
+  response.attributes = attributes;
+  response.category = category;
+  response.data = sliceData(record.data, request.offset, request.numBytes);
+}
+
+/** Find the next record matching a predicate, starting from the open
+ * database's record index, and populate a ReadRecord response. */
+function readNextRecord(
+  session: VirtualDlpSession,
+  dbId: number,
+  predicate: (record: RawPdbRecord) => boolean,
+  response: DlpReadRecordRespType
+) {
+  const openDb = session.getOpenDb(dbId);
+  const db = getRecordDb(session, dbId);
+  for (; openDb.nextRecordIndex < db.records.length; ) {
+    const index = openDb.nextRecordIndex++;
+    if (predicate(db.records[index])) {
+      populateReadRecordResp(
+        db,
+        index,
+        {offset: 0, numBytes: DLP_MAX_NON_STREAM_ENTRY_SIZE},
+        response
+      );
+      return;
+    }
+  }
+  throw new VirtualDlpError(DlpRespErrorCode.NOT_FOUND);
+}
+
+/** Apply a WriteRecord or WriteRecordStream request, and return the ID of the
+ * written record. */
+function writeRecord(
+  session: VirtualDlpSession,
+  request: DlpWriteRecordReqType | DlpWriteRecordStreamReqType
+) {
+  const db = getWritableRecordDb(session, request.dbId);
+  let recordId = request.recordId;
+  if (recordId === 0) {
+    recordId =
+      Math.max(
+        db.header.uniqueIdSeed,
+        ...db.records.map(({entry}) => entry.uniqueId)
+      ) + 1;
+    db.header.uniqueIdSeed = recordId;
+  }
+  const record = RawPdbRecord.with({
+    entry: RecordEntryType.with({
+      attributes: DlpRecordAttrs.toRecordAttrs(
+        request.attributes,
+        request.category
+      ),
+      uniqueId: recordId,
+    }),
+    data: request.data,
+  });
+  const index = db.records.findIndex(({entry}) => entry.uniqueId === recordId);
+  if (index >= 0) {
+    db.records[index] = record;
+  } else {
+    db.records.push(record);
+  }
+  markModified(session, db);
+  return recordId;
+}
+
+/** Populate a ReadResource or ReadResourceStream response. */
+function populateReadResourceResp(
+  db: RawPrcDatabase,
+  index: number,
+  request: {offset: number; numBytes: number},
+  response: DlpReadResourceRespType | DlpReadResourceStreamRespType
+) {
+  const record = db.records[index];
+  if (!record) {
+    throw new VirtualDlpError(DlpRespErrorCode.NOT_FOUND);
+  }
+  if (
+    response instanceof DlpReadResourceRespType &&
+    record.data.length > DLP_MAX_NON_STREAM_ENTRY_SIZE
+  ) {
+    throw new VirtualDlpError(DlpRespErrorCode.LIMIT_EXCEEDED);
+  }
+  response.type = record.entry.type;
+  response.id = record.entry.resourceId;
+  response.index = index;
+  response.resData = sliceData(record.data, request.offset, request.numBytes);
+}
+
+/** Apply a WriteResource or WriteResourceStream request. */
+function writeResource(
+  session: VirtualDlpSession,
+  request: DlpWriteResourceReqType | DlpWriteResourceStreamReqType
+) {
+  const db = getWritableResourceDb(session, request.dbId);
+  const record = RawPrcRecord.with({
+    entry: RsrcEntryType.with({type: request.type, resourceId: request.id}),
+    data: request.data,
+  });
+  const index = db.records.findIndex(
+    ({entry}) => entry.type === request.type && entry.resourceId === request.id
+  );
+  if (index >= 0) {
+    db.records[index] = record;
+  } else {
+    db.records.push(record);
+  }
+  markModified(session, db);
+}
+
+/** Returns an expansion slot by slot reference number. */
+function getExpansionSlot(session: VirtualDlpSession, slotRef: number) {
+  const slot = session.device.expansionSlots.find(
+    (slot) => slot.slotRef === slotRef
+  );
+  if (!slot) {
+    throw new VirtualDlpError(DlpRespErrorCode.PARAM);
+  }
+  return slot;
+}
+
+/** Returns the card inserted in an expansion slot. */
+function getExpansionCard(session: VirtualDlpSession, slotRef: number) {
+  const {card} = getExpansionSlot(session, slotRef);
+  if (!card) {
+    throw new VirtualDlpError(DlpRespErrorCode.NOT_FOUND);
+  }
+  return card;
+}
+
+/** Returns a VFS volume by volume reference number. */
+function getVolume(session: VirtualDlpSession, volRefNum: number) {
+  const volume = session.device.volumes.find(
+    (volume) => volume.volRefNum === volRefNum
+  );
+  if (!volume) {
+    throw new VirtualDlpError(DlpRespErrorCode.PARAM);
+  }
+  return volume;
+}
+
+/** Returns a VFS volume that can be written to. */
+function getWritableVolume(session: VirtualDlpSession, volRefNum: number) {
+  const volume = getVolume(session, volRefNum);
+  const slot = session.device.expansionSlots.find(
+    ({slotRef}) => slotRef === volume.slotRefNum
+  );
+  if (slot?.card?.readOnly) {
+    throw new VirtualDlpError(DlpRespErrorCode.READ_ONLY);
+  }
+  return volume;
+}
+
+/** Returns the total size of the files on a VFS volume. */
+function getVolumeSizeUsed(volume: VirtualVfsVolume) {
+  return [...volume.entries.values()].reduce(
+    (size, {data}) => size + (data?.length ?? 0),
+    0
+  );
+}
+
+/** Remove trailing slashes from a VFS path. */
+function normalizeVfsPath(path: string) {
+  return path.replace(/\/+$/, '') || '/';
+}
+
+/** Find a file or directory on a VFS volume. */
+function findVfsEntry(
+  volume: VirtualVfsVolume,
+  path: string
+): VirtualVfsEntry | null {
+  return path === '/' ? VFS_ROOT_DIR : (volume.entries.get(path) ?? null);
+}
+
+/** Returns a file or directory on a VFS volume. */
+function getVfsEntry(volume: VirtualVfsVolume, path: string) {
+  const entry = findVfsEntry(volume, path);
+  if (!entry) {
+    throw new VirtualDlpError(DlpRespErrorCode.NOT_FOUND);
+  }
+  return entry;
+}
+
+/** Create a file, or a directory if data is null, on a VFS volume. */
+function createVfsEntry(
+  volume: VirtualVfsVolume,
+  path: string,
+  data: Buffer | null
+) {
+  if (!path.startsWith('/')) {
+    throw new VirtualDlpError(DlpRespErrorCode.PARAM);
+  }
+  if (findVfsEntry(volume, path)) {
+    throw new VirtualDlpError(DlpRespErrorCode.ALREADY_EXISTS);
+  }
+  if (findVfsEntry(volume, getVfsDirName(path))?.data !== null) {
+    throw new VirtualDlpError(DlpRespErrorCode.NOT_FOUND);
+  }
+  if (data && getVolumeSizeUsed(volume) + data.length > volume.totalSize) {
+    throw new VirtualDlpError(DlpRespErrorCode.NOT_ENOUGH_SPACE);
+  }
+  const entry: VirtualVfsEntry = {data};
+  volume.entries.set(path, entry);
+  return entry;
+}
+
+/** Returns the paths of the entries in a directory on a VFS volume. */
+function listVfsDir(volume: VirtualVfsVolume, dirPath: string) {
+  return [...volume.entries.keys()].filter(
+    (path) => path !== '/' && getVfsDirName(path) === dirPath
+  );
+}
+
+/** Returns an open file along with its contents. */
+function getOpenFileData(session: VirtualDlpSession, fileRef: number) {
+  const openFile = session.getOpenFile(fileRef);
+  const entry = getVfsEntry(openFile.volume, openFile.path);
+  if (!entry.data) {
+    throw new VirtualDlpError(DlpRespErrorCode.PARAM);
+  }
+  return {openFile, entry, data: entry.data};
+}
+
+/** Serialize an error response for a request that could not be parsed. */
+function serializeErrorResponse(
+  requestFuncId: number,
+  errorCode: DlpRespErrorCode
+) {
+  const response = new (class extends DlpResponse {
+    funcId = requestFuncId;
+  })();
+  response.errorCode = errorCode;
+  return response.serialize();
+}
@@ -0,0 +1,353 @@
+/** Virtual Palm OS device for testing HotSync logic without hardware.
+ *
+ * A {@link VirtualPalmDevice} implements the handheld side of a HotSync
+ * session over either NetSync or serial (SLP / PADP / CMP) framing, backed by
+ * in-memory databases and device state. It can connect to a running
+ * {@link NetworkSyncServer} or {@link SerialOverNetworkSyncServer}, or be wired
+ * directly to a server's `onConnection()` via an in-process stream.
+ *
+ * @module
+ */
+import debug from 'debug';
+import {createConnection} from 'net';
+import pEvent from 'p-event';
+import {PDB_EPOCH, RawPdbDatabase, RawPrcDatabase} from 'palm-pdb';
+import {Duplex} from 'stream';
+import {
+  CMP_INITIAL_BAUD_RATE,
+  CmpDeviceHandshakeOptions,
+  doCmpDeviceHandshake,
+} from '../protocols/cmp-protocol';
+import {
+  DlpCardInfoType,
+  DlpRomStage,
+  DlpRomVersion,
+  DlpVersionType,
+} from '../protocols/dlp-commands';
+import {DlpRequest, DlpResponse} from '../protocols/dlp-protocol';
+import {createNetSyncDatagramStream} from '../protocols/net-sync-protocol';
+import {PadpStream} from '../protocols/padp-protocol';
+import {
+  NET_SYNC_HANDSHAKE_REQUEST_1,
+  NET_SYNC_HANDSHAKE_REQUEST_2,
+  NET_SYNC_HANDSHAKE_REQUEST_3,
+} from '../protocols/sync-connections';
+import {NET_SYNC_PORT} from '../sync-servers/network-sync-server';
+import {SERIAL_NETWORK_SYNC_PORT} from '../sync-servers/serial-over-network-sync-server';
+import {NetSyncInfo} from '../sync-utils/netsync-info';
+import {
+  VirtualDlpRequestHandler,
+  VirtualDlpSession,
+} from './virtual-dlp-session';
+
+/** Transport protocol used by a virtual device. */
+export type VirtualDeviceProtocol = 'net' | 'serial';
+
+/** User info stored on a virtual device. */
+export interface VirtualUserInfo {
+  /** HotSync user ID number (0 if none). */
+  userId: number;
+  /** ID assigned to viewer by desktop app. */
+  viewerId: number;
+  /** ID of last synced PC (0 if none). */
+  lastSyncPc: number;
+  /** Timestamp of last successful sync. */
+  succSyncDate: Date;
+  /** Timestamp of last sync attempt. */
+  lastSyncDate: Date;
+  /** HotSync user name. */
+  userName: string;
+  /** Encrypted password. */
+  password: Buffer;
+}
+
+/** An application preference stored on a virtual device. */
+export interface VirtualAppPreference {
+  /** Creator ID of the application. */
+  creator: string;
+  /** Preference ID. */
+  id: number;
+  /** Preference version. */
+  version: number;
+  /** Preference data. */
+  data: Buffer;
+  /** Whether this is a backed up preference. */
+  backedUp: boolean;
+}
+
+/** A system feature registered on a virtual device. */
+export interface VirtualFeature {
+  /** Feature creator. */
+  creator: string;
+  /** Feature number. */
+  num: number;
+  /** Feature value. */
+  value: number;
+}
+
+/** An expansion slot on a virtual device. */
+export interface VirtualExpansionSlot {
+  /** Slot reference number. */
+  slotRef: number;
+  /** Media type supported by the slot, e.g. "sdig" for SD cards. */
+  mediaType: string;
+  /** Card inserted in the slot, or null if the slot is empty. */
+  card: VirtualExpansionCard | null;
+}
+
+/** An expansion card inserted in a virtual device. */
+export interface VirtualExpansionCard {
+  /** Card manufacturer. */
+  manufacturer: string;
+  /** Card product name. */
+  product: string;
+  /** Device class, e.g. "Backup". */
+  deviceClass: string;
+  /** Unique ID of the card, e.g. a serial number. */
+  deviceUniqueId: string;
+  /** Whether the card is read-only. */
+  readOnly: boolean;
+}
+
+/** A file or directory on a virtual VFS volume. */
+export interface VirtualVfsEntry {
+  /** File contents, or null for a directory. */
+  data: Buffer | null;
+}
+
+/** A VFS volume mounted on a virtual device. */
+export interface VirtualVfsVolume {
+  /** Volume reference number. */
+  volRefNum: number;
+  /** Reference number of the slot containing the volume's card. */
+  slotRefNum: number;
+  /** Volume label. */
+  label: string;
+  /** Total size of the volume in bytes. */
+  totalSize: number;
+  /** Files and directories on the volume, keyed by full path. The root
+   * directory is implicit. */
+  entries: Map<string, VirtualVfsEntry>;
+}
+
+/** Options for {@link VirtualPalmDevice.connect}. */
+export interface VirtualDeviceConnectOptions {
+  /** Transport protocol to use. */
+  protocol: VirtualDeviceProtocol;
+  /** Host to connect to (default: localhost). */
+  host?: string;
+  /** Port to connect to (default: the standard port for the protocol). */
+  port?: number;
+}
+
+/** A simulated Palm OS device.
+ *
+ * All state is held in public fields and may be set up before a HotSync
+ * session and inspected afterwards. Databases with the `readOnly` attribute
+ * are treated as residing in ROM.
+ */
+export class VirtualPalmDevice {
+  /** Palm OS ROM version. */
+  romVersion = DlpRomVersion.with({
+    major: 3,
+    minor: 5,
+    stage: DlpRomStage.RELEASE,
+  });
+
+  /** DLP version implemented by the device. */
+  dlpVersion = DlpVersionType.with({major: 1, minor: 2});
+
+  /** Locale ID reported in ReadSysInfo. */
+  localizationId = 0;
+
+  /** Product ID reported in ReadSysInfo. */
+  prodId = Buffer.alloc(0);
+
+  /** Info about the device's memory card, reported in ReadStorageInfo. */
+  cardInfo: Partial<DlpCardInfoType> = {
+    cardNo: 0,
+    cardName: 'PalmCard',
+    manufName: 'Palm Computing',
+    romSize: 0x400000,
+    ramSize: 0x800000,
+    freeRam: 0x600000,
+  };
+
+  /** Databases stored on the device. */
+  databases: Array<RawPdbDatabase | RawPrcDatabase> = [];
+
+  /** HotSync user info. */
+  userInfo: VirtualUserInfo = {
+    userId: 0,
+    viewerId: 0,
+    lastSyncPc: 0,
+    succSyncDate: new Date(PDB_EPOCH),
+    lastSyncDate: new Date(PDB_EPOCH),
+    userName: '',
+    password: Buffer.alloc(0),
+  };
+
+  /** Network HotSync configuration. */
+  netSyncInfo: NetSyncInfo = {
+    lanSyncOn: false,
+    syncPcName: '',
+    syncPcAddr: '',
+    syncPcMask: '',
+  };
+
+  /** Application preferences. */
+  preferences: Array<VirtualAppPreference> = [];
+
+  /** System features. */
+  features: Array<VirtualFeature> = [];
+
+  /** Expansion slots, which require DLP 1.3 or later. */
+  expansionSlots: Array<VirtualExpansionSlot> = [];
+
+  /** Mounted VFS volumes, which require DLP 1.3 or later. */
+  volumes: Array<VirtualVfsVolume> = [];
+
+  /** Entries added to the HotSync log via AddSyncLogEntry. */
+  syncLog: Array<string> = [];
+
+  /** Offset of the device clock from the host clock, in milliseconds. */
+  clockOffsetMs = 0;
+
+  /** Whether the desktop requested a soft reset after the HotSync session. */
+  resetRequested = false;
+
+  /** Options for the CMP handshake over serial connections. */
+  cmpOptions: CmpDeviceHandshakeOptions = {};
+
+  /** Baud rate negotiated in the most recent serial HotSync session. */
+  baudRate = CMP_INITIAL_BAUD_RATE;
+
+  /** Custom request handlers, which take precedence over the default
+   * implementation. */
+  readonly requestHandlers = new Map<
+    new () => DlpRequest<DlpResponse>,
+    VirtualDlpRequestHandler<DlpRequest<DlpResponse>>
+  >();
+
+  /** Returns the current time on the device clock. */
+  getTime() {
+    return new Date(Date.now() + this.clockOffsetMs);
+  }
+
+  /** Set the device clock. */
+  setTime(date: Date) {
+    this.clockOffsetMs = date.getTime() - Date.now();
+  }
+
+  /** Find a database by name. */
+  findDb(name: string) {
+    return this.databases.find(({header}) => header.name === name) ?? null;
+  }
+
+  /** Override the handling of a DLP request type.
+   *
+   * Useful for injecting errors or unusual responses in tests.
+   */
+  setRequestHandler<DlpRequestT extends DlpRequest<DlpResponse>>(
+    requestType: new () => DlpRequestT,
+    handler: VirtualDlpRequestHandler<DlpRequestT>
+  ) {
+    this.requestHandlers.set(
+      requestType,
+      handler as VirtualDlpRequestHandler<DlpRequest<DlpResponse>>
+    );
+  }
+
+  /** Connect to a sync server over TCP and run a HotSync session. */
+  async connect({
+    protocol,
+    host = 'localhost',
+    port = protocol === 'net' ? NET_SYNC_PORT : SERIAL_NETWORK_SYNC_PORT,
+  }: VirtualDeviceConnectOptions) {
+    const socket = createConnection(port, host);
+    await pEvent(socket, 'connect');
+    try {
+      await this.runSession(socket, protocol);
+    } finally {
+      socket.end();
+    }
+  }
+
+  /** Run a HotSync session over a raw data stream.
+   *
+   * Resolves once the desktop has ended the session with EndOfSync.
+   */
+  async runSession(rawStream: Duplex, protocol: VirtualDeviceProtocol) {
+    const transport =
+      protocol === 'net'
+        ? createNetSyncDatagramStream(rawStream)
+        : new PadpStream(rawStream);
+    // PadpStream does not propagate the end of the raw stream, so stop
+    // reading explicitly when the connection is closed.
+    const onClose = () => transport.destroy();
+    rawStream.once('close', onClose);
+    // Use a single iterator for all reads so that no datagram is dropped
+    // between reads.
+    const datagrams: AsyncIterator<Buffer> = transport[Symbol.asyncIterator]();
+    const read = async () => {
+      const {value, done} = await datagrams.next();
+      if (done) {
+        throw new Error('Connection closed before end of HotSync session');
+      }
+      return value;
+    };
+    const write = (data: Buffer) =>
+      new Promise<void>((resolve, reject) =>
+        transport.write(data, (error) => (error ? reject(error) : resolve()))
+      );
+
+    try {
+      if (transport instanceof PadpStream) {
+        this.log('Starting CMP handshake');
+        const {baudRate} = await doCmpDeviceHandshake(
+          transport,
+          this.cmpOptions
+        );
+        this.baudRate = baudRate;
+      } else {
+        this.log('Starting NetSync handshake');
+        await write(NET_SYNC_HANDSHAKE_REQUEST_1);
+        await read();
+        await write(NET_SYNC_HANDSHAKE_REQUEST_2);
+        await read();
+        await write(NET_SYNC_HANDSHAKE_REQUEST_3);
+      }
+      this.log('Handshake complete');
+
+      const session = new VirtualDlpSession(this);
+      while (!session.isEnded) {
+        await write(session.handleRequest(await read()));
+        // Raw data following the response, e.g. file data for VFSFileRead.
+        // DlpConnection listens for each datagram separately, so yield before
+        // each write to let it start listening.
+        for (const data of session.outgoingRawData.splice(0)) {
+          await new Promise((resolve) => setImmediate(resolve));
+          await write(data);
+        }
+        // Raw data expected from the desktop, e.g. file data for VFSFileWrite,
+        // which is acknowledged with a second response.
+        const {expectedRawDataBytes} = session;
+        if (expectedRawDataBytes !== null) {
+          const chunks: Array<Buffer> = [];
+          let numBytesRead = 0;
+          while (numBytesRead < expectedRawDataBytes) {
+            const chunk = await read();
+            chunks.push(chunk);
+            numBytesRead += chunk.length;
+          }
+          await write(session.handleRawData(Buffer.concat(chunks)));
+        }
+      }
+      this.log('HotSync session complete');
+    } finally {
+      rawStream.off('close', onClose);
+    }
+  }
+
+  private log = debug('palm-sync').extend('virtual-device');
+}